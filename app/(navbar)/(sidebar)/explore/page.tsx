@@ -6,6 +6,7 @@ import Image from 'next/image';
 import React, { type ChangeEvent, useId } from 'react';
 import { toast } from 'sonner';
 import AnimatedNetworkBackground from '@/components/AnimatedNetworkBackground';
+import ColumnMappingDialog from '@/components/ColumnMappingDialog';
 import { Chat } from '@/components/chat';
 import { DiseaseMapCombobox } from '@/components/DiseaseMapCombobox';
 import History, { type HistoryItem } from '@/components/History';
@@ -29,14 +30,18 @@ import { Textarea } from '@/components/ui/textarea';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { graphConfig } from '@/lib/data';
 import { GENE_VERIFICATION_QUERY, TOP_GENES_QUERY } from '@/lib/gql';
+import { guessColumnMapping, isNetworkFileFormat, parseEdgeList, parseNetworkFile } from '@/lib/graph/network-parsers';
 import type {
+  ColumnMapping,
   GeneVerificationData,
   GeneVerificationVariables,
   GetDiseaseData,
   GraphConfigForm,
   TopGeneData,
   TopGeneVariables,
+  UploadedNetwork,
 } from '@/lib/interface';
+import { isProjectFile, openProject } from '@/lib/project';
 import { distinct, envURL, openDB } from '@/lib/utils';
 
 export default function Explore() {
@@ -207,10 +212,10 @@ export default function Explore() {
     const f = e.target.files?.[0];
     if (!f) return;
     const ext = f.name.split('.').pop()?.toLowerCase();
-    if (!ext || !['csv', 'json'].includes(ext)) {
+    if (!ext || !(['csv', 'json'].includes(ext) || isNetworkFileFormat(ext) || isProjectFile(f.name))) {
       toast.error('Invalid file type', {
         cancel: { label: 'Close', onClick() {} },
-        description: 'Please upload a CSV or JSON file',
+        description: 'Please upload a CSV, JSON, GraphML, GEXF or TBEP project file',
       });
       e.currentTarget.value = '';
       return;
@@ -218,6 +223,37 @@ export default function Explore() {
     setFile(f);
   };
 
+  const [edgeList, setEdgeList] = React.useState<{
+    fields: string[];
+    rows: Array<Record<string, string | number>>;
+    mapping: ColumnMapping;
+  } | null>(null);
+  const [mappingOpen, setMappingOpen] = React.useState(false);
+  const [columnMapping, setColumnMapping] = React.useState<ColumnMapping | undefined>(undefined);
+
+  const verifyUploadGenes = async (distinctSeedGenes: string[]) => {
+    if (distinctSeedGenes.length < 2) {
+      toast.error('Please provide at least 2 valid genes', {
+        cancel: { label: 'Close', onClick() {} },
+        description: 'Seed genes should be either ENSG IDs or gene names',
+      });
+      return;
+    }
+    const { error } = await verifyGenes({
+      variables: { geneIDs: distinctSeedGenes },
+    });
+    if (error) {
+      console.error(error);
+      toast.error('Error fetching data', {
+        cancel: { label: 'Close', onClick() {} },
+        description: 'Server not available,Please try again later',
+      });
+      return;
+    }
+    setUploadGeneIDs(distinctSeedGenes);
+    setUploadTableOpen(true);
+  };
+
   const handleUploadSubmit = async () => {
     if (!file) {
       toast.error('Please upload a file', {
@@ -227,61 +263,90 @@ export default function Explore() {
     }
     setUploadLoading(true);
     try {
-      let distinctSeedGenes: string[] = [];
       const ext = file.name.split('.').pop()?.toLowerCase();
-      if (ext === 'json') {
-        const jsonData = JSON.parse(await file.text());
-        distinctSeedGenes = distinct(
-          jsonData
-            .flatMap(
-              (gene: Record<string, string | number>) =>
-                Object.values(gene).filter(val => Number.isNaN(Number(val))) as string[],
-            )
-            .map((gene: string) => gene.trim().toUpperCase()),
-        );
-      } else if (ext === 'csv') {
-        const csvText = await file.text();
-        distinctSeedGenes = distinct(
-          csvText
-            .split('\n')
-            .slice(1)
-            .flatMap(line => line.split(',').slice(0, 2))
-            .map(gene => gene.trim().toUpperCase())
-            .filter(Boolean),
-        );
+      if (isProjectFile(file.name)) {
+        // Projects are already verified, network page restores them as is
+        try {
+          await openProject(file);
+        } catch (error) {
+          console.error(error);
+          toast.error('Failed to open project', {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'The file is corrupted or saved by a newer version of TBEP',
+          });
+          return;
+        }
+        window.open(`/network?file=${encodeURIComponent(file.name)}`, '_blank', 'noopener,noreferrer');
+      } else if (ext === 'csv' || ext === 'json') {
+        let table: ReturnType<typeof parseEdgeList>;
+        try {
+          table = parseEdgeList(await file.text(), ext);
+        } catch (error) {
+          console.error(error);
+          toast.error(`Invalid ${ext.toUpperCase()} file`, {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'Please check the file and try again',
+          });
+          return;
+        }
+        const mapping = guessColumnMapping(table.fields, table.rows);
+        if (!mapping) {
+          toast.error('There must be atleast 3 fields in csv/json!', {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'Source gene, target gene and interaction score columns are required',
+          });
+          return;
+        }
+        setEdgeList({ ...table, mapping });
+        setMappingOpen(true);
+      } else if (isNetworkFileFormat(ext)) {
+        let distinctSeedGenes: string[];
+        try {
+          const network = parseNetworkFile(await file.text(), ext);
+          distinctSeedGenes = distinct(network.nodes.map(node => node.label.trim().toUpperCase()).filter(Boolean));
+        } catch (error) {
+          console.error(error);
+          toast.error(`Invalid ${ext.toUpperCase()} file`, {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'Please check the file and try again',
+          });
+          return;
+        }
+        setColumnMapping(undefined);
+        await verifyUploadGenes(distinctSeedGenes);
       } else {
         toast.error('Unsupported file type', {
           cancel: { label: 'Close', onClick() {} },
-          description: 'Only CSV and JSON files are supported',
+          description: 'Only CSV, JSON, GraphML, GEXF and TBEP project files are supported',
         });
-        return;
       }
-      if (distinctSeedGenes.length < 2) {
-        toast.error('Please provide at least 2 valid genes', {
-          cancel: { label: 'Close', onClick() {} },
-          description: 'Seed genes should be either ENSG IDs or gene names',
-        });
-        return;
-      }
-      const { error } = await verifyGenes({
-        variables: { geneIDs: distinctSeedGenes },
-      });
-      if (error) {
-        console.error(error);
-        toast.error('Error fetching data', {
-          cancel: { label: 'Close', onClick() {} },
-          description: 'Server not available,Please try again later',
-        });
-        return;
-      }
-      setUploadGeneIDs(distinctSeedGenes);
-      setUploadTableOpen(true);
+    } finally {
+      setUploadLoading(false);
+    }
+  };
+
+  const handleMappingSubmit = async (mapping: ColumnMapping) => {
+    if (!edgeList) return;
+    setMappingOpen(false);
+    setColumnMapping(mapping);
+    setUploadLoading(true);
+    try {
+      await verifyUploadGenes(
+        distinct(
+          edgeList.rows
+            .flatMap(row => [row[mapping.source], row[mapping.target]])
+            .filter(gene => gene != null)
+            .map(gene => String(gene).trim().toUpperCase())
+            .filter(Boolean),
+        ),
+      );
     } finally {
       setUploadLoading(false);
     }
   };
 
   const handleUploadGenerateGraph = async () => {
+    if (!file) return;
     const store = await openDB('network', 'readwrite');
     if (!store) {
       toast.error('Failed to open IndexedDB database', {
@@ -290,11 +355,11 @@ export default function Explore() {
       });
       return;
     }
-    store.put(file, file?.name);
+    store.put({ file, mapping: columnMapping } satisfies UploadedNetwork, file.name);
     toast.success('File uploaded successfully', {
       cancel: { label: 'Close', onClick() {} },
     });
-    window.open(`/network?file=${encodeURIComponent(file?.name as string)}`, '_blank', 'noopener,noreferrer');
+    window.open(`/network?file=${encodeURIComponent(file.name)}`, '_blank', 'noopener,noreferrer');
   };
 
   const autoFillNumId = useId();
@@ -328,7 +393,7 @@ export default function Explore() {
                 Build your own Network (ByoN)
               </span>
               <span className='mt-1 text-wrap text-slate-600 text-xs leading-tight md:text-sm'>
-                Upload CSV/JSON to create a custom interaction network
+                Upload CSV/JSON/GraphML/GEXF to create a custom interaction network
               </span>
             </div>
           </TabsTrigger>
@@ -688,7 +753,7 @@ export default function Explore() {
                 <div>
                   <div className='mb-2 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between'>
                     <Label htmlFor={uploadFileId} className='font-medium'>
-                      Upload CSV or JSON
+                      Upload CSV, JSON, GraphML, GEXF or TBEP project
                     </Label>
                     <p className='text-sm text-zinc-500'>
                       (CSV examples:{' '}
@@ -704,14 +769,18 @@ export default function Explore() {
                   <Input
                     id={uploadFileId}
                     type='file'
-                    accept='.csv,.json'
+                    accept='.csv,.json,.graphml,.gexf,.tbep'
                     onChange={handleFileChange}
                     required
                     className='h-12 cursor-pointer border-2 border-dashed transition-colors hover:border-gray-400'
                   />
                   <p className='mt-2 text-xs text-zinc-500 leading-relaxed'>
-                    • CSV: first two columns are ENSG IDs or Gene names; third column is interaction score.
-                    <br />• JSON: array of records; non-numeric string values are treated as gene identifiers.
+                    • CSV/JSON: table or array of records with ENSG IDs or Gene names of interacting genes and
+                    interaction score; columns are mapped after submitting, remaining columns can be kept as edge
+                    attributes.
+                    <br />• GraphML/GEXF: node labels are gene identifiers; edge weights are interaction scores. Node
+                    attributes follow the same column prefixes as uploaded data files (e.g. DEG_, TE_, Pathway_).
+                    <br />• TBEP project: saved from Export menu of the network page, reopens the analysis as it was.
                   </p>
                 </div>
                 <Button
@@ -746,6 +815,17 @@ export default function Explore() {
               data={data}
               handleGenerateGraph={handleUploadGenerateGraph}
             />
+            {edgeList && (
+              <ColumnMappingDialog
+                key={`${file?.name}-${file?.lastModified}`}
+                open={mappingOpen}
+                setOpen={setMappingOpen}
+                fields={edgeList.fields}
+                rows={edgeList.rows}
+                defaultMapping={edgeList.mapping}
+                onSubmit={mapping => void handleMappingSubmit(mapping)}
+              />
+            )}
           </div>
         </TabsContent>
       </Tabs>
@@ -0,0 +1,145 @@
+import React from 'react';
+import { PREVIEW_ROWS } from '@/lib/graph/network-parsers';
+import type { ColumnMapping, ColumnMappingDialogProps } from '@/lib/interface';
+import { cn } from '@/lib/utils';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+
+const ROLES = [
+  { key: 'source', label: 'Source Gene', color: 'bg-teal-100' },
+  { key: 'target', label: 'Target Gene', color: 'bg-sky-100' },
+  { key: 'score', label: 'Interaction Score', color: 'bg-amber-100' },
+] as const;
+
+export default function ColumnMappingDialog({
+  open,
+  setOpen,
+  fields,
+  rows,
+  defaultMapping,
+  onSubmit,
+}: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = React.useState<ColumnMapping>(defaultMapping);
+
+  const handleRoleChange = (role: (typeof ROLES)[number]['key'], column: string) => {
+    setMapping(prev => ({
+      ...prev,
+      [role]: column,
+      edgeAttributes: prev.edgeAttributes.filter(attribute => attribute !== column),
+    }));
+  };
+
+  const handleAttributeToggle = (column: string, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      edgeAttributes: checked
+        ? fields.filter(field => field === column || prev.edgeAttributes.includes(field))
+        : prev.edgeAttributes.filter(attribute => attribute !== column),
+    }));
+  };
+
+  const mappedColumns = [mapping.source, mapping.target, mapping.score];
+  const isValid = new Set(mappedColumns).size === mappedColumns.length && mappedColumns.every(c => fields.includes(c));
+
+  const columnColor = (column: string) => ROLES.find(role => mapping[role.key] === column)?.color;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className='flex max-h-[90vh] w-11/12 max-w-5xl flex-col'>
+        <DialogTitle>Map Columns</DialogTitle>
+        <DialogDescription>
+          Choose the columns holding the interacting genes (ENSG IDs or gene names) and their interaction score. Extra
+          columns can be kept as edge attributes.
+        </DialogDescription>
+        <div className='grid grid-cols-1 gap-4 sm:grid-cols-3'>
+          {ROLES.map(role => (
+            <div key={role.key} className='flex flex-col gap-1'>
+              <Label className='font-semibold'>
+                <span className={cn('inline-block size-3 rounded-sm', role.color)} />
+                {role.label}
+              </Label>
+              <Select value={mapping[role.key]} onValueChange={column => handleRoleChange(role.key, column)}>
+                <SelectTrigger className='w-full'>
+                  <SelectValue placeholder='Select column' />
+                </SelectTrigger>
+                <SelectContent>
+                  {fields.map(field => (
+                    <SelectItem key={field} value={field}>
+                      {field}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        {fields.length > mappedColumns.length && (
+          <div className='flex flex-col gap-2'>
+            <Label className='font-semibold'>Edge Attributes</Label>
+            <div className='flex flex-wrap gap-4'>
+              {fields
+                .filter(field => !mappedColumns.includes(field))
+                .map(field => (
+                  <div key={field} className='flex items-center gap-1'>
+                    <Checkbox
+                      id={`edge-attribute-${field}`}
+                      checked={mapping.edgeAttributes.includes(field)}
+                      onCheckedChange={checked => handleAttributeToggle(field, checked === true)}
+                    />
+                    <Label htmlFor={`edge-attribute-${field}`} className='font-normal'>
+                      {field}
+                    </Label>
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+        <div className='grow overflow-auto'>
+          <Table>
+            <TableHeader>
+              <TableRow className='font-bold'>
+                {fields.map(field => (
+                  <TableHead key={field} className={columnColor(field)}>
+                    {field}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                // biome-ignore lint/suspicious/noArrayIndexKey: Rows are static preview of the file
+                <TableRow key={index}>
+                  {fields.map(field => (
+                    <TableCell key={field} className={columnColor(field)}>
+                      {row[field] ?? ''}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className='text-xs text-zinc-500'>
+          Showing first {Math.min(PREVIEW_ROWS, rows.length)} of {rows.length} rows.
+          {!isValid && ' Source, target and score must be different columns.'}
+        </p>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant='outline'>Cancel</Button>
+          </DialogClose>
+          <Button
+            className='bg-teal-600 text-white hover:bg-teal-700'
+            disabled={!isValid}
+            onClick={() => onSubmit(mapping)}
+          >
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,9 @@
 import type { CheckedState } from '@radix-ui/react-checkbox';
 import { ExternalLinkIcon, EyeIcon, Trash2Icon } from 'lucide-react';
 import React, { useId } from 'react';
-import type { GraphConfigForm } from '@/lib/interface';
+import { toast } from 'sonner';
+import type { GraphConfigForm, SavedProject } from '@/lib/interface';
+import { deleteSavedProject, getSavedProjects, openSavedProject } from '@/lib/project';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -54,6 +56,33 @@ export default function History({
     window.open('/network', '_blank', 'noopener,noreferrer');
   };
 
+  const [savedProjects, setSavedProjects] = React.useState<SavedProject[]>([]);
+
+  React.useEffect(() => {
+    if (!historyOpen) return;
+    getSavedProjects()
+      .then(setSavedProjects)
+      .catch(error => console.error(error));
+  }, [historyOpen]);
+
+  const handleOpenProject = async (project: SavedProject) => {
+    try {
+      const fileName = await openSavedProject(project);
+      window.open(`/network?file=${encodeURIComponent(fileName)}`, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to open project', {
+        cancel: { label: 'Close', onClick() {} },
+        description: 'Please make sure you have enabled IndexedDB in your browser',
+      });
+    }
+  };
+
+  const removeProject = async (id: string) => {
+    await deleteSavedProject(id);
+    setSavedProjects(prev => prev.filter(project => project.id !== id));
+  };
+
   const [showConfirmDialog, setShowConfirmDialog] = React.useState(false);
   const handleConfirmDialogChange = (checked: CheckedState) => {
     sessionStorage.setItem('showConfirmDialog', JSON.stringify(!checked));
@@ -113,9 +142,40 @@ export default function History({
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
-        {history.length > 0 ? (
+        {history.length > 0 || savedProjects.length > 0 ? (
           <ScrollArea>
             <div className='flex flex-col space-y-4 pr-2'>
+              {savedProjects.length > 0 && <p className='font-semibold'>Saved Projects</p>}
+              {savedProjects.map(project => (
+                <Card key={project.id} className='gap-0 py-0'>
+                  <CardHeader className='p-2'>
+                    <CardTitle className='p-1 underline'>{project.title}</CardTitle>
+                    <div className='pl-1 text-muted-foreground text-xs'>
+                      <p>
+                        {project.totalNodes} genes : {project.totalEdges} interactions
+                      </p>
+                      <p>Autosaved on {new Date(project.updatedAt).toLocaleString()}</p>
+                    </div>
+                  </CardHeader>
+                  <CardFooter className='flex flex-row-reverse p-1'>
+                    <button
+                      type='button'
+                      className='rounded p-1 transition-colors hover:bg-zinc-300 hover:text-black'
+                      onClick={() => removeProject(project.id)}
+                    >
+                      <Trash2Icon size={20} />
+                    </button>
+                    <button
+                      type='button'
+                      className='rounded p-1 transition-colors hover:bg-zinc-300 hover:text-black'
+                      onClick={() => handleOpenProject(project)}
+                    >
+                      <ExternalLinkIcon size={20} />
+                    </button>
+                  </CardFooter>
+                </Card>
+              ))}
+              {savedProjects.length > 0 && history.length > 0 && <p className='font-semibold'>Queries</p>}
               {history.map((item, index) => (
                 <Card key={`${item.title}-${item.createdAt ?? index}`} className='gap-0 py-0'>
                   <CardHeader className='p-2'>
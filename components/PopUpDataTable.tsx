@@ -19,6 +19,7 @@ export default function PopUpDataTable<E, F>({
   filterColumnNames,
   tabsTitle,
   loading,
+  views,
 }: PopUpDataTableProps<E, F>) {
   /**
    * Function to download the selected genes data as a CSV file
@@ -29,6 +30,32 @@ export default function PopUpDataTable<E, F>({
     downloadFile(csv, `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}${fileName}.csv`);
   };
 
+  /**
+   * Shows the table along with the other views of the tab, if any
+   */
+  const withViews = (idx: 0 | 1, table: React.ReactNode) => {
+    const tabViews = Object.entries(views?.[idx] ?? {});
+    if (tabViews.length === 0) return table;
+    return (
+      <Tabs defaultValue='Table'>
+        <TabsList>
+          <TabsTrigger value='Table'>Table</TabsTrigger>
+          {tabViews.map(([title]) => (
+            <TabsTrigger key={title} value={title}>
+              {title}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        <TabsContent value='Table'>{table}</TabsContent>
+        {tabViews.map(([title, view]) => (
+          <TabsContent key={title} value={title}>
+            {view}
+          </TabsContent>
+        ))}
+      </Tabs>
+    );
+  };
+
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   React.useEffect(() => {
     // esc key to close the dialog
@@ -59,20 +86,26 @@ export default function PopUpDataTable<E, F>({
               ))}
             </TabsList>
             <TabsContent key={tabsTitle?.[0]} value={tabsTitle![0]}>
-              <DataTable
-                data={data[0]}
-                loading={loading?.[0]}
-                columns={columns[0]}
-                filterColumnName={filterColumnNames[0]}
-              />
+              {withViews(
+                0,
+                <DataTable
+                  data={data[0]}
+                  loading={loading?.[0]}
+                  columns={columns[0]}
+                  filterColumnName={filterColumnNames[0]}
+                />,
+              )}
             </TabsContent>
             <TabsContent key={tabsTitle?.[1]} value={tabsTitle![1]}>
-              <DataTable
-                data={data[1]}
-                loading={loading?.[1]}
-                columns={columns[1]}
-                filterColumnName={filterColumnNames[1]}
-              />
+              {withViews(
+                1,
+                <DataTable
+                  data={data[1]}
+                  loading={loading?.[1]}
+                  columns={columns[1]}
+                  filterColumnName={filterColumnNames[1]}
+                />,
+              )}
             </TabsContent>
           </Tabs>
         </div>
@@ -0,0 +1,156 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useStore } from '@/lib/hooks';
+import type { FigureExportOptions, FigurePageSize } from '@/lib/interface';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+const FIGURE_FORMATS = [
+  { value: 'svg', label: 'SVG (vector)' },
+  { value: 'pdf', label: 'PDF (vector)' },
+  { value: 'png', label: 'PNG (raster)' },
+] as const;
+
+const PAGE_SIZES: FigurePageSize[] = ['A4', 'A3', 'Letter', 'Fit'];
+
+export function FigureExportDialog({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
+  const projectTitle = useStore(state => state.projectTitle);
+  const [format, setFormat] = useState<(typeof FIGURE_FORMATS)[number]['value']>('svg');
+  const [options, setOptions] = useState<FigureExportOptions>({
+    pageSize: 'A4',
+    orientation: 'landscape',
+    dpi: 300,
+    includeHidden: false,
+    showLabels: true,
+  });
+  const [title, setTitle] = useState<string>();
+
+  const handleExport = () => {
+    eventEmitter.emit(Events.EXPORT, {
+      format,
+      figure: {
+        ...options,
+        dpi: Math.min(1200, Math.max(72, options.dpi || 72)),
+        title: title ?? (projectTitle === 'Untitled' ? '' : projectTitle),
+      },
+    } satisfies EventMessage[Events.EXPORT]);
+    setOpen(false);
+  };
+
+  const titleId = useId();
+  const dpiId = useId();
+  const labelsId = useId();
+  const hiddenId = useId();
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className='max-w-md'>
+        <DialogTitle>Export Figure</DialogTitle>
+        <DialogDescription>Redraws the network along with its legends as a publication ready figure.</DialogDescription>
+        <div className='grid grid-cols-2 gap-3 text-sm'>
+          <div className='flex flex-col gap-1'>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={val => setFormat(val as typeof format)}>
+              <SelectTrigger className='w-full'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIGURE_FORMATS.map(opt => (
+                  <SelectItem key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='flex flex-col gap-1'>
+            <Label htmlFor={dpiId}>DPI</Label>
+            <Input
+              id={dpiId}
+              type='number'
+              min={72}
+              max={1200}
+              step={1}
+              disabled={format !== 'png'}
+              value={options.dpi}
+              onChange={e => setOptions(prev => ({ ...prev, dpi: +e.target.value }))}
+            />
+          </div>
+          <div className='flex flex-col gap-1'>
+            <Label>Page Size</Label>
+            <Select
+              value={options.pageSize}
+              onValueChange={val => setOptions(prev => ({ ...prev, pageSize: val as FigurePageSize }))}
+            >
+              <SelectTrigger className='w-full'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map(size => (
+                  <SelectItem key={size} value={size}>
+                    {size === 'Fit' ? 'Fit to canvas' : size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='flex flex-col gap-1'>
+            <Label>Orientation</Label>
+            <Select
+              value={options.orientation}
+              disabled={options.pageSize === 'Fit'}
+              onValueChange={val =>
+                setOptions(prev => ({ ...prev, orientation: val as FigureExportOptions['orientation'] }))
+              }
+            >
+              <SelectTrigger className='w-full'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='landscape'>Landscape</SelectItem>
+                <SelectItem value='portrait'>Portrait</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className='col-span-2 flex flex-col gap-1'>
+            <Label htmlFor={titleId}>Title</Label>
+            <Input
+              id={titleId}
+              placeholder='No title'
+              value={title ?? (projectTitle === 'Untitled' ? '' : projectTitle)}
+              onChange={e => setTitle(e.target.value)}
+            />
+          </div>
+          <div className='flex items-center gap-2'>
+            <Checkbox
+              id={labelsId}
+              checked={options.showLabels}
+              onCheckedChange={checked => setOptions(prev => ({ ...prev, showLabels: checked === true }))}
+            />
+            <Label htmlFor={labelsId}>Show labels</Label>
+          </div>
+          <div className='flex items-center gap-2'>
+            <Checkbox
+              id={hiddenId}
+              checked={options.includeHidden}
+              onCheckedChange={checked => setOptions(prev => ({ ...prev, includeHidden: checked === true }))}
+            />
+            <Label htmlFor={hiddenId}>Include hidden nodes</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant='outline'>Cancel</Button>
+          </DialogClose>
+          <Button onClick={handleExport}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
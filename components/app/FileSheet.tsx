@@ -30,10 +30,10 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
-import { DISEASE_DEPENDENT_PROPERTIES, DISEASE_INDEPENDENT_PROPERTIES } from '@/lib/data';
+import { parseGMT } from '@/lib/enrichment';
 import { useStore } from '@/lib/hooks';
-import type { RadioOptions, UniversalData } from '@/lib/interface';
-import { formatBytes, initRadioOptions, LOGFC_REGEX, openDB, P_VALUE_REGEX } from '@/lib/utils';
+import type { GeneSetLibrary, RadioOptions, UniversalData } from '@/lib/interface';
+import { formatBytes, initRadioOptions, openDB, parseUserValue, resolveUserProperty } from '@/lib/utils';
 
 export function FileSheet() {
   const [uploadedFiles, setUploadedFiles] = React.useState<File[]>([]);
@@ -100,11 +100,11 @@ export function FileSheet() {
         const rejectedFiles = fileRejections.map(r => r.file.name).join(', ');
         toast.error(`Files rejected: ${rejectedFiles}`, {
           cancel: { label: 'Close', onClick() {} },
-          description: 'Please make sure files are in CSV format',
+          description: 'Please make sure files are in CSV or GMT format',
         });
       }
     },
-    accept: { 'text/csv': ['.csv'] },
+    accept: { 'text/csv': ['.csv'], 'text/plain': ['.gmt'] },
   });
 
   const handleCheckboxChange = (fileName: string) => {
@@ -142,6 +142,7 @@ export function FileSheet() {
       database: useStore.getState().radioOptions.database,
       user: initRadioOptions(),
     };
+    const userGeneSets: GeneSetLibrary = {};
     for (const file of uploadedFiles) {
       if (!checkedOptions[file.name]) continue;
       const store = await openDB('files', 'readonly');
@@ -155,6 +156,20 @@ export function FileSheet() {
       const request = store.get(file.name);
       request.onsuccess = async () => {
         const data = await (request.result as File).text();
+        // GMT files hold gene sets for enrichment instead of gene properties
+        if (file.name.toLowerCase().endsWith('.gmt')) {
+          const library = parseGMT(data);
+          if (Object.keys(library).length === 0) {
+            toast.error(`Invalid file: ${file.name}`, {
+              cancel: { label: 'Close', onClick() {} },
+              description: 'Every line must have a term name, a description and genes separated by tabs',
+            });
+            return;
+          }
+          Object.assign(userGeneSets, library);
+          useStore.setState({ userGeneSets: { ...userGeneSets } });
+          return;
+        }
         const parsedData = Papa.parse<Record<string, string>>(data, {
           header: true,
           skipEmptyLines: true,
@@ -175,50 +190,17 @@ export function FileSheet() {
 
             for (const prop in row) {
               if (prop === IDHeaderName) continue;
-
-              // LogFC alias of DEG
-              if (LOGFC_REGEX.test(prop)) {
-                universalData[geneID].user.DEG[prop.replace(LOGFC_REGEX, '')] = Number.parseFloat(row[prop]);
-                continue;
-              }
-
-              // P_Val alias of DEG
-              if (P_VALUE_REGEX.test(prop)) {
-                universalData[geneID].user.DEG[prop] = Number.parseFloat(row[prop]);
-                continue;
-              }
-
-              for (const field of [...DISEASE_DEPENDENT_PROPERTIES, ...DISEASE_INDEPENDENT_PROPERTIES]) {
-                const fieldRegex = new RegExp(`^${field}_`, 'i');
-                if (fieldRegex.test(prop)) {
-                  universalData[geneID].user[field][prop.replace(fieldRegex, '')] =
-                    field === 'Custom_Color' ? row[prop] : Number.parseFloat(row[prop]);
-                  break;
-                }
-              }
+              const resolved = resolveUserProperty(prop);
+              if (!resolved) continue;
+              // Genes of projects saved before node attributes were supported have no section for them
+              universalData[geneID].user[resolved.field] ??= {};
+              universalData[geneID].user[resolved.field][resolved.property] = parseUserValue(resolved.field, row[prop]);
             }
           }
           for (const prop of parsedData.meta.fields ?? []) {
             if (prop === IDHeaderName) continue;
-
-            // LogFC alias of DEG
-            if (LOGFC_REGEX.test(prop)) {
-              radioOptions.user.DEG.push(prop.replace(LOGFC_REGEX, ''));
-              continue;
-            }
-
-            // P_Val alias of DEG
-            if (P_VALUE_REGEX.test(prop)) {
-              radioOptions.user.DEG.push(prop);
-              continue;
-            }
-
-            for (const field of [...DISEASE_DEPENDENT_PROPERTIES, ...DISEASE_INDEPENDENT_PROPERTIES]) {
-              if (new RegExp(`^${field}_`, 'i').test(prop)) {
-                radioOptions.user[field].push(prop.replace(new RegExp(`^${field}_`, 'i'), ''));
-                break;
-              }
-            }
+            const resolved = resolveUserProperty(prop);
+            if (resolved) radioOptions.user[resolved.field].push(resolved.property);
           }
           useStore.setState({ universalData, radioOptions });
         } catch (error) {
@@ -230,6 +212,7 @@ export function FileSheet() {
         }
       };
     }
+    useStore.setState({ userGeneSets });
     if (uploadedFiles.length) {
       toast.success('Data updated successfully', {
         cancel: { label: 'Close', onClick() {} },
@@ -251,6 +234,7 @@ export function FileSheet() {
         database: useStore.getState().radioOptions.database,
         user: initRadioOptions(),
       },
+      userGeneSets: {},
     });
     toast.info('Data reset successfully', {
       cancel: { label: 'Close', onClick() {} },
@@ -1,3 +1,4 @@
 export * from './Export';
+export * from './FigureExportDialog';
 export * from './FileName';
 export * from './FileSheet';
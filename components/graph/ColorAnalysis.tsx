@@ -3,10 +3,16 @@
 import { useSigma } from '@react-sigma/core';
 import { scaleLinear } from 'd3-scale';
 import { useEffect } from 'react';
-import { DEFAULT_EDGE_COLOR } from '@/lib/data';
+import {
+  COMMUNITY_PROPERTY,
+  DEFAULT_EDGE_COLOR,
+  PROPAGATION_PROPERTY,
+  TOPOLOGY_PROPERTIES,
+  type TopologyProperty,
+} from '@/lib/data';
 import { useStore } from '@/lib/hooks';
 import type { EdgeAttributes, NodeAttributes, OtherSection } from '@/lib/interface';
-import { P_VALUE_REGEX } from '@/lib/utils';
+import { attributeCategories, communityColor, getTopologyValue, P_VALUE_REGEX } from '@/lib/utils';
 
 export function ColorAnalysis() {
   const selectedRadioNodeColor = useStore(state => state.selectedRadioNodeColor);
@@ -18,6 +24,14 @@ export function ColorAnalysis() {
   const showEdgeColor = useStore(state => state.showEdgeColor);
   const radioOptions = useStore(state => state.radioOptions);
   const edgeOpacity = useStore(state => state.edgeOpacity);
+  const communityMap = useStore(state => state.communityMap);
+  const propagation = useStore(state => state.propagation);
+  // Centralities are filled by the statistics worker, topology colors are refreshed once the metric is done
+  const topologyStatus = useStore(state =>
+    state.selectedRadioNodeColor === 'Topology' && typeof state.selectedNodeColorProperty === 'string'
+      ? state.networkStatisticsProgress[TOPOLOGY_PROPERTIES[state.selectedNodeColorProperty as TopologyProperty]]
+      : undefined,
+  );
 
   const minScore =
     typeof window !== 'undefined'
@@ -56,7 +70,8 @@ export function ColorAnalysis() {
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: not required
   useEffect(() => {
-    if (!selectedNodeColorProperty || !graph || !selectedRadioNodeColor) return;
+    if (!selectedNodeColorProperty || !graph || !selectedRadioNodeColor || selectedRadioNodeColor === 'Topology')
+      return;
     const isUserProperty =
       typeof selectedNodeColorProperty === 'string' &&
       radioOptions.user[selectedRadioNodeColor].includes(selectedNodeColorProperty);
@@ -187,8 +202,69 @@ export function ColorAnalysis() {
         else attr.color = undefined;
         return attr;
       });
+    } else if (selectedRadioNodeColor === 'Attribute' && typeof selectedNodeColorProperty === 'string') {
+      const categories = attributeCategories(universalData, selectedNodeColorProperty);
+      if (categories) {
+        const categoryColors = new Map(categories.map((category, index) => [category, communityColor(index)]));
+        graph.updateEachNodeAttributes((node, attr) => {
+          const val = universalData[node]?.user.Attribute?.[selectedNodeColorProperty];
+          attr.color = val === undefined ? undefined : categoryColors.get(String(val));
+          return attr;
+        });
+        return;
+      }
+      const minMax = Object.values(universalData).reduce(
+        (acc, cur) => {
+          const value = cur.user.Attribute?.[selectedNodeColorProperty];
+          if (typeof value !== 'number' || Number.isNaN(value)) return acc;
+          return [Math.min(acc[0], value), Math.max(acc[1], value)];
+        },
+        [Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY],
+      );
+      const colorScale = scaleLinear<string>(minMax, [defaultNodeColor, 'red']);
+      graph.updateEachNodeAttributes((node, attr) => {
+        const val = universalData[node]?.user.Attribute?.[selectedNodeColorProperty];
+        if (typeof val === 'number' && !Number.isNaN(val)) attr.color = colorScale(val);
+        else attr.color = undefined;
+        return attr;
+      });
     }
   }, [selectedNodeColorProperty, graph, universalData]);
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: not required
+  useEffect(() => {
+    if (!graph || selectedRadioNodeColor !== 'Topology' || typeof selectedNodeColorProperty !== 'string') return;
+    if (selectedNodeColorProperty === COMMUNITY_PROPERTY) {
+      const communityColors = new Map(Object.values(communityMap).map(({ name, color }) => [name, color]));
+      graph.updateEachNodeAttributes((_node, attr) => {
+        attr.color = attr.community ? communityColors.get(attr.community) : undefined;
+        return attr;
+      });
+      return;
+    }
+    if (
+      !TOPOLOGY_PROPERTIES[selectedNodeColorProperty as TopologyProperty] &&
+      selectedNodeColorProperty !== PROPAGATION_PROPERTY
+    )
+      return;
+    const topologyValue = (attr: NodeAttributes) =>
+      getTopologyValue(attr, selectedNodeColorProperty) as number | undefined;
+    const minMax = graph.reduceNodes(
+      (acc, _node, attr) => {
+        const value = topologyValue(attr);
+        if (value === undefined || Number.isNaN(value)) return acc;
+        return [Math.min(acc[0], value), Math.max(acc[1], value)];
+      },
+      [Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY],
+    );
+    const colorScale = scaleLinear<string>(minMax, [defaultNodeColor, 'red']);
+    graph.updateEachNodeAttributes((_node, attr) => {
+      const val = topologyValue(attr);
+      if (val !== undefined && !Number.isNaN(val)) attr.color = colorScale(val);
+      else attr.color = undefined;
+      return attr;
+    });
+  }, [selectedNodeColorProperty, graph, topologyStatus, communityMap, propagation]);
+
   return null;
 }
@@ -0,0 +1,64 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { useEffect } from 'react';
+import type { SigmaNodeEventPayload } from 'sigma/types';
+import { collapseCommunities, expandCommunities } from '@/lib/graph';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
+
+export function CommunityCollapse() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+  const communityMap = useStore(state => state.communityMap);
+  const collapsedCommunities = useStore(state => state.collapsedCommunities);
+  const collapsedEdgeAggregation = useStore(state => state.collapsedEdgeAggregation);
+  const edgeWeightCutOff = useStore(state => state.radialAnalysis.edgeWeightCutOff);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: edges hidden by the cutoff are left out of the merged ones
+  useEffect(() => {
+    const graph = sigma.getGraph();
+    const positions = expandCommunities(graph);
+    if (collapsedCommunities.length === 0) return;
+    const { defaultNodeSize } = useStore.getState();
+    collapseCommunities(
+      graph,
+      communityMap,
+      collapsedCommunities,
+      collapsedEdgeAggregation,
+      defaultNodeSize,
+      positions,
+    );
+  }, [collapsedCommunities, communityMap, collapsedEdgeAggregation, edgeWeightCutOff, sigma]);
+
+  useEffect(() => {
+    const handleDoubleClick = (e: SigmaNodeEventPayload) => {
+      const graph = sigma.getGraph();
+      const { collapsedCommunity, x = 0, y = 0 } = graph.getNodeAttributes(e.node);
+      if (collapsedCommunity === undefined) return;
+      // Prevents sigma from zooming in
+      e.preventSigmaDefault();
+      const { communityMap, collapsedCommunities } = useStore.getState();
+      const genes = communityMap[collapsedCommunity]?.genes.filter(gene => graph.hasNode(gene)) ?? [];
+      // Genes are moved along if the community node was dragged away from their centroid
+      let [dx, dy] = [x, y];
+      for (const gene of genes) {
+        dx -= (graph.getNodeAttribute(gene, 'x') ?? 0) / genes.length;
+        dy -= (graph.getNodeAttribute(gene, 'y') ?? 0) / genes.length;
+      }
+      for (const gene of genes) {
+        graph.updateNodeAttributes(gene, attr => {
+          attr.x = (attr.x ?? 0) + dx;
+          attr.y = (attr.y ?? 0) + dy;
+          return attr;
+        });
+      }
+      useStore.setState({ collapsedCommunities: collapsedCommunities.filter(id => id !== collapsedCommunity) });
+    };
+    sigma.on('doubleClickNode', handleDoubleClick);
+    return () => {
+      sigma.off('doubleClickNode', handleDoubleClick);
+    };
+  }, [sigma]);
+
+  return null;
+}
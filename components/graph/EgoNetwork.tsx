@@ -0,0 +1,40 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { extractEgoNetwork } from '@/lib/graph';
+import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
+import { openSubnetwork } from '@/lib/project';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+
+export function EgoNetwork() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+
+  useEffect(() => {
+    const egoNetworkListener = async ({ genes, hops }: EventMessage[Events.EGO_NETWORK]) => {
+      const graph = sigma.getGraph();
+      const centers = genes.filter(gene => graph.hasNode(gene));
+      if (centers.length === 0) return;
+      const network = extractEgoNetwork(graph, centers, hops);
+      const [first] = centers.map(gene => graph.getNodeAttribute(gene, 'label') ?? gene);
+      const title = `${first}${centers.length > 1 ? ` +${centers.length - 1}` : ''} ${hops}-hop Neighborhood`;
+      try {
+        const fileName = await openSubnetwork(network, title);
+        window.open(`/network?file=${encodeURIComponent(fileName)}`, '_blank', 'noopener,noreferrer');
+      } catch (error) {
+        console.error(error);
+        toast.error('Failed to open the neighborhood', {
+          cancel: { label: 'Close', onClick() {} },
+          description: 'Please make sure you have enabled IndexedDB in your browser',
+        });
+      }
+    };
+    eventEmitter.on(Events.EGO_NETWORK, egoNetworkListener);
+    return () => {
+      eventEmitter.off(Events.EGO_NETWORK, egoNetworkListener);
+    };
+  }, [sigma]);
+
+  return null;
+}
@@ -22,10 +22,21 @@ export function ForceLayout() {
   const graph = sigma.getGraph();
   const settings = useStore(state => state.forceSettings);
   const defaultNodeSize = useStore(state => state.defaultNodeSize);
+  const networkEdits = useStore(state => state.networkEdits);
 
   const tick = useCallback(() => {
     if (!graph || !nodes.current.length) return;
     for (const node of nodes.current) {
+      // Genes removed by an edit are dropped from the simulation on the next render
+      if (!graph.hasNode(node.ID)) continue;
+      const { pinned, x, y } = graph.getNodeAttributes(node.ID);
+      // Pinned genes keep their position, the simulation follows them even when dragged
+      if (pinned) {
+        node.fx = x;
+        node.fy = y;
+        continue;
+      }
+      node.fx = node.fy = undefined;
       graph.setNodeAttribute(node.ID, 'x', node.x);
       graph.setNodeAttribute(node.ID, 'y', node.y);
     }
@@ -43,8 +54,10 @@ export function ForceLayout() {
     if (!sigma) return;
     (sigma as EventEmitter).once('loaded', () => {
       const graph = sigma.getGraph();
-      nodes.current = graph.mapNodes(node => ({
+      nodes.current = graph.mapNodes((node, attributes) => ({
         ID: node,
+        x: attributes.x,
+        y: attributes.y,
       }));
       edges.current = graph.mapEdges((_edge, _attr, source, target) => ({
         source,
@@ -60,6 +73,8 @@ export function ForceLayout() {
         .force('charge', forceManyBody().strength(-200).theta(0.8))
         .force('collide', forceCollide(defaultNodeSize * 8))
         .on('tick', tick);
+      // Nodes are positioned upfront only when restored from a project, keep that layout until animation is resumed
+      if (nodes.current.every(node => node.x !== undefined && node.y !== undefined)) simulation.current.stop();
 
       useStore.setState({
         forceWorker: {
@@ -87,5 +102,26 @@ export function ForceLayout() {
     simulation.current.alpha(0.3).restart();
   }, [settings]);
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: settings are applied by the effect above
+  useEffect(() => {
+    if (!simulation.current) return;
+    // Simulation follows the edited network, starting from the current positions
+    nodes.current = graph.mapNodes((node, attributes) => ({
+      ID: node,
+      x: attributes.x,
+      y: attributes.y,
+    }));
+    edges.current = graph.mapEdges((_edge, _attr, source, target) => ({
+      source,
+      target,
+    }));
+    simulation.current.nodes(nodes.current).force(
+      'link',
+      forceLink<NodeAttributes, SimulationLinkDatum<NodeAttributes>>(edges.current)
+        .id(d => d.ID!)
+        .distance(settings.linkDistance),
+    );
+  }, [networkEdits]);
+
   return null;
 }
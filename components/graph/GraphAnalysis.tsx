@@ -4,21 +4,39 @@ import { useSigma } from '@react-sigma/core';
 import { fitViewportToNodes } from '@sigma/utils';
 import { scaleLinear } from 'd3-scale';
 import { useSearchParams } from 'next/navigation';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
+import { COMMUNITY_ALGORITHMS, parseAlgorithmOptions } from '@/lib/communities';
 import { GENE_PROPERTIES_QUERY } from '@/lib/gql';
+import { expandCommunities } from '@/lib/graph';
+import { recordHistory } from '@/lib/history';
 import { useStore } from '@/lib/hooks';
 import {
   type EdgeAttributes,
   type GenePropertiesData,
   type GenePropertiesDataVariables,
   GenePropertyCategoryEnum,
+  type GraphStore,
+  type HistoryStoreKey,
   type NodeAttributes,
 } from '@/lib/interface';
-import { type EventMessage, Events, envURL, eventEmitter } from '@/lib/utils';
+import { DIAMOND_ALGORITHM, DIAMOND_PARAMETERS, diamond } from '@/lib/propagation';
+import { communityColor, type EventMessage, Events, envURL, eventEmitter } from '@/lib/utils';
+import { detectCommunities, propagateFromSeeds } from '@/lib/workers';
 import { Button } from '../ui/button';
 import { Checkbox } from '../ui/checkbox';
 
+/**
+ * Store fields changed by an algorithm run, undone along with it
+ */
+const ALGORITHM_HISTORY_KEYS: HistoryStoreKey[] = [
+  'communityMap',
+  'algorithmResults',
+  'communityEnrichment',
+  'collapsedCommunities',
+  'diseaseModule',
+];
+
 export function GraphAnalysis({
   highlightedNodesRef,
   seedProximityNodesRef,
@@ -30,9 +48,7 @@ export function GraphAnalysis({
   const graph = sigma.getGraph();
   const radialAnalysis = useStore(state => state.radialAnalysis);
   const setNetworkStatistics = useStore(state => state.setNetworkStatistics);
-  const [communityMap, setCommunityMap] = useState<Record<string, { name: string; genes: string[]; color: string }>>(
-    {},
-  );
+  const communityMap = useStore(state => state.communityMap);
   const { geneIDs: seedGeneIDs }: { geneIDs: string[] } = useStore(state => state.graphConfig) ?? { geneIDs: [] };
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
@@ -109,12 +125,19 @@ export function GraphAnalysis({
     })();
   }, [radialAnalysis.candidatePrioritizationCutOff, nodeDegreeProperty]);
 
+  const diseaseModule = useStore(state => state.diseaseModule);
+  // Genes of the disease module, bordered along with the ones near the seeds
+  const moduleNodesRef = useRef(new Set<string>());
+
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
     if (radialAnalysis.seedGeneProximityCutOff < 1) {
       seedProximityNodesRef.current.clear();
       graph.updateEachNodeAttributes((node, attr) => {
-        if (highlightedNodesRef?.current.has(node)) {
+        if (moduleNodesRef.current.has(node)) {
+          attr.type = 'border';
+          seedProximityNodesRef.current.add(node);
+        } else if (highlightedNodesRef?.current.has(node)) {
           attr.type = 'highlight';
         } else {
           attr.type = 'circle';
@@ -124,7 +147,7 @@ export function GraphAnalysis({
     } else {
       graph.updateEachNodeAttributes((node, attr) => {
         const degree = graph.neighbors(node).filter(neighbor => seedGeneIDs.includes(neighbor)).length;
-        if (degree >= radialAnalysis.seedGeneProximityCutOff) {
+        if (degree >= radialAnalysis.seedGeneProximityCutOff || moduleNodesRef.current.has(node)) {
           attr.type = 'border';
           seedProximityNodesRef.current.add(node);
         } else if (highlightedNodesRef?.current.has(node)) {
@@ -139,6 +162,28 @@ export function GraphAnalysis({
     }
   }, [radialAnalysis.seedGeneProximityCutOff]);
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: graph is the same for the lifetime of sigma
+  useEffect(() => {
+    const { seedGeneProximityCutOff } = useStore.getState().radialAnalysis;
+    for (const node of moduleNodesRef.current) {
+      if (!graph.hasNode(node)) continue;
+      const nearSeeds =
+        seedGeneProximityCutOff >= 1 &&
+        graph.neighbors(node).filter(neighbor => seedGeneIDs.includes(neighbor)).length >= seedGeneProximityCutOff;
+      if (nearSeeds) continue;
+      seedProximityNodesRef.current.delete(node);
+      graph.setNodeAttribute(node, 'type', highlightedNodesRef?.current.has(node) ? 'highlight' : 'circle');
+    }
+    moduleNodesRef.current = new Set(
+      diseaseModule ? [...diseaseModule.seeds, ...diseaseModule.genes.map(({ ID }) => ID)] : [],
+    );
+    for (const node of moduleNodesRef.current) {
+      if (!graph.hasNode(node)) continue;
+      seedProximityNodesRef.current.add(node);
+      graph.setNodeAttribute(node, 'type', 'border');
+    }
+  }, [diseaseModule]);
+
   async function renewSession() {
     const res = await fetch(`${envURL(process.env.NEXT_PUBLIC_BACKEND_URL)}/algorithm/renew-session`, {
       method: 'POST',
@@ -149,89 +194,102 @@ export function GraphAnalysis({
     return false;
   }
 
+  /**
+   * Colors the nodes by their community and shares the metrics of every community with the results panel
+   */
+  function applyCommunities(
+    algorithm: string,
+    partition: GraphStore['communityMap'],
+    modularity: number,
+    resolution?: number,
+  ) {
+    // Genes removed or merged by editing may still be listed by the server
+    const communities: GraphStore['communityMap'] = Object.fromEntries(
+      Object.entries(partition)
+        .map(
+          ([id, community]) =>
+            [id, { ...community, genes: community.genes.filter(gene => graph.hasNode(gene)) }] as const,
+        )
+        .filter(([, community]) => community.genes.length > 0),
+    );
+    useStore.setState({ communityMap: communities });
+    for (const community of Object.values(communities)) {
+      for (const gene of community.genes) {
+        graph.mergeNodeAttributes(gene, { color: community.color, community: community.name });
+      }
+    }
+    if (Object.keys(communities).length > 100) {
+      toast.error(
+        `Too many communities, please increase the minimum community size${resolution === undefined ? '' : ' or decrease resolution'}`,
+        {
+          cancel: { label: 'Close', onClick() {} },
+          description: 'This helps to reduce the number of communities',
+        },
+      );
+    }
+    eventEmitter.emit(Events.ALGORITHM_RESULTS, {
+      algorithm,
+      modularity,
+      resolution,
+      communities: Object.values(communities).map(({ name, genes, color }) => {
+        const [degreeSum, maxDegree] = genes.reduce(
+          ([acc, max], gene) => {
+            const degree = graph.degree(gene);
+            return [acc + degree, Math.max(max, degree)];
+          },
+          [0, 0],
+        );
+        return {
+          name,
+          genes: genes.map(v => graph.getNodeAttribute(v, 'label')!),
+          color,
+          percentage: ((genes.length / graph.order) * 100).toFixed(2),
+          averageDegree: (degreeSum / genes.length).toFixed(2),
+          degreeCentralGene: graph.getNodeAttribute(
+            genes.find(gene => graph.degree(gene) === maxDegree),
+            'label',
+          )!,
+        };
+      }),
+    } satisfies EventMessage[Events.ALGORITHM_RESULTS]);
+  }
+
   const searchParams = useSearchParams();
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
-    eventEmitter.on(Events.ALGORITHM, async ({ name, parameters }: EventMessage[Events.ALGORITHM]) => {
+    const algorithmListener = async ({ name, parameters }: EventMessage[Events.ALGORITHM]) => {
+      // Communities of the previous run are expanded for the new one to see every gene
+      expandCommunities(graph);
+      useStore.setState({ collapsedCommunities: [] });
       if (name === 'None') {
-        setCommunityMap({});
+        useStore.setState({ communityMap: {}, diseaseModule: null });
         graph.updateEachNodeAttributes((_, attr) => {
           attr.color = undefined;
           attr.community = undefined;
           return attr;
         });
-      } else if (name === 'Leiden') {
-        const { resolution, weighted, minCommunitySize } = parameters!;
-        if (searchParams?.get('file')) {
-          const louvain = await import('graphology-communities-louvain').then(lib => lib.default);
-          const hslToHex = (h: number, s: number, l: number) => {
-            l /= 100;
-            const a = (s * Math.min(l, 1 - l)) / 100;
-            const f = (n: number) => {
-              const k = (n + h / 30) % 12;
-              const color = l - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
-              return Math.round(255 * color)
-                .toString(16)
-                .padStart(2, '0');
-            };
-            return `#${f(0)}${f(8)}${f(4)}`;
-          };
-          const res = louvain.detailed(graph, {
-            resolution: +resolution,
-            getEdgeWeight: weighted ? 'score' : null,
+      } else if (name === DIAMOND_ALGORITHM) {
+        const { iterations, alpha } = parseAlgorithmOptions({ parameters: DIAMOND_PARAMETERS }, parameters);
+        // Networks without seed genes (e.g. uploaded ones) grow the module from the selected genes
+        const { graphConfig, selectedNodes } = useStore.getState();
+        const seeds = (graphConfig?.geneIDs.length ? graphConfig.geneIDs : selectedNodes.map(({ ID }) => ID)).filter(
+          seed => graph.hasNode(seed),
+        );
+        const options = { iterations: +iterations, alpha: +alpha };
+        try {
+          useStore.setState({ diseaseModule: { seeds, options, genes: diamond(graph, seeds, options) } });
+        } catch (error) {
+          console.error(`${name} failed:`, error);
+          toast.error(`Failed to run ${name}`, {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'Seed genes or selected genes must be in the network to grow a disease module.',
           });
-          const map: Record<string, { name: string; genes: string[]; color: string }> = {};
-          let count = 0;
-          for (const [node, comm] of Object.entries(res.communities)) {
-            if (!map[comm]) {
-              map[comm] = {
-                name: `Community ${count++}`,
-                genes: [],
-                color: hslToHex(count * 137.508, 75, 50),
-              };
-            }
-            map[comm].genes.push(graph.getNodeAttribute(node, 'label') ?? 'N/A');
-          }
-          for (const { genes, color } of Object.values(map)) {
-            if (genes.length < +minCommunitySize) {
-              for (const gene of genes) {
-                graph.setNodeAttribute(gene, 'color', undefined);
-              }
-              continue;
-            }
-            for (const gene of genes) {
-              graph.setNodeAttribute(gene, 'color', color);
-            }
-          }
-          setCommunityMap(map);
-          eventEmitter.emit(Events.ALGORITHM_RESULTS, {
-            modularity: res.modularity,
-            resolution: +resolution,
-            communities: Object.values(map).map(({ name, genes, color }) => {
-              const [degreeSum, maxDegree] = genes.reduce(
-                ([acc, max], gene) => {
-                  const degree = graph.degree(gene);
-                  return [acc + degree, Math.max(max, degree)];
-                },
-                [0, 0],
-              );
-              return {
-                name,
-                genes: genes.map(v => graph.getNodeAttribute(v, 'label')!),
-                color,
-                percentage: ((genes.length / graph.order) * 100).toFixed(2),
-                averageDegree: (degreeSum / genes.length).toFixed(2),
-                degreeCentralGene: graph.getNodeAttribute(
-                  genes.find(gene => graph.degree(gene) === maxDegree),
-                  'label',
-                )!,
-              };
-            }),
-          } satisfies EventMessage[Events.ALGORITHM_RESULTS]);
-          return;
         }
-        (async function leiden() {
+      } else if (name === 'Leiden' && !searchParams?.get('file') && useStore.getState().networkEdits.length === 0) {
+        // Server partitions its own copy of the network, edited networks are partitioned locally
+        const { resolution, weighted, minCommunitySize } = parameters!;
+        await (async function leiden() {
           const { graphName } = useStore.getState().graphConfig!;
           const res = await fetch(
             `${envURL(process.env.NEXT_PUBLIC_BACKEND_URL)}/algorithm/leiden?graphName=${encodeURIComponent(graphName)}&minCommunitySize=${minCommunitySize}${resolution ? `&resolution=${resolution}` : ''}&weighted=${encodeURIComponent(!!weighted)}`,
@@ -245,54 +303,12 @@ export function GraphAnalysis({
               modularity: number;
               communities: Record<string, { name: string; genes: string[]; color: string }>;
             } = await res.json();
-            setCommunityMap(communities);
-            let count = 0;
-            for (const community of Object.values(communities)) {
-              count++;
-              for (const gene of community.genes) {
-                graph.setNodeAttribute(gene, 'color', community.color);
-              }
-            }
-            if (count > 100) {
-              toast.error('Too many communities, please increase the minimum community size or decrease resolution', {
-                cancel: { label: 'Close', onClick() {} },
-                description: 'This helps to reduce the number of communities',
-              });
-            }
-            eventEmitter.emit(Events.ALGORITHM_RESULTS, {
-              modularity,
-              resolution: +resolution,
-              communities: Object.values(communities).map(({ name, genes, color }) => {
-                const [degreeSum, maxDegree] = genes.reduce(
-                  ([acc, max], gene) => {
-                    const degree = graph.degree(gene);
-                    return [acc + degree, Math.max(max, degree)];
-                  },
-                  [0, 0],
-                );
-                return {
-                  name,
-                  genes: genes.map(v => graph.getNodeAttribute(v, 'label')!),
-                  color,
-                  percentage: ((genes.length / graph.order) * 100).toFixed(2),
-                  averageDegree: (degreeSum / genes.length).toFixed(2),
-                  degreeCentralGene: graph.getNodeAttribute(
-                    genes.find(gene => graph.degree(gene) === maxDegree),
-                    'label',
-                  )!,
-                };
-              }),
-            } satisfies EventMessage[Events.ALGORITHM_RESULTS]);
+            applyCommunities(name, communities, modularity, +resolution);
           } else if (res.status === 404) {
+            const renewal = renewSession().catch(() => false);
             toast.promise(
-              new Promise<void>(async (resolve, reject) => {
-                const res = await renewSession();
-                if (res) {
-                  resolve();
-                  await leiden();
-                } else {
-                  reject();
-                }
+              renewal.then(renewed => {
+                if (!renewed) throw new Error('Failed to renew session');
               }),
               {
                 success: 'Session renewed',
@@ -302,6 +318,8 @@ export function GraphAnalysis({
                 cancel: { label: 'Close', onClick() {} },
               },
             );
+            // Retry is awaited for its communities to be recorded along with the run
+            if (await renewal) await leiden();
           } else {
             toast.error('Failed to fetch Leiden data', {
               cancel: { label: 'Close', onClick() {} },
@@ -309,8 +327,92 @@ export function GraphAnalysis({
             });
           }
         })();
+      } else {
+        const algorithm = COMMUNITY_ALGORITHMS.find(algorithm => algorithm.name === name);
+        if (!algorithm) return;
+        const options = parseAlgorithmOptions(algorithm, parameters);
+        try {
+          const { communities, modularity } = await detectCommunities(graph, name, options);
+          const groups = Object.entries(communities).reduce<Record<number, string[]>>((acc, [node, community]) => {
+            (acc[community] ??= []).push(node);
+            return acc;
+          }, {});
+          // Same as the server, communities are named from largest to smallest and small ones are left out
+          const map = Object.fromEntries(
+            Object.values(groups)
+              .filter(genes => genes.length >= +options.minCommunitySize)
+              .sort((a, b) => b.length - a.length)
+              .map((genes, idx) => [idx, { name: `Community ${idx + 1}`, genes, color: communityColor(idx) }]),
+          );
+          graph.updateEachNodeAttributes((_, attr) => {
+            attr.color = undefined;
+            attr.community = undefined;
+            return attr;
+          });
+          applyCommunities(name, map, modularity, 'resolution' in options ? +options.resolution : undefined);
+        } catch (error) {
+          console.error(`${name} failed:`, error);
+          toast.error(`Failed to run ${name}`, {
+            cancel: { label: 'Close', onClick() {} },
+            description: `Graph must have relationships to run ${name}.`,
+          });
+        }
       }
-    });
+    };
+    // Every run, along with the communities it colors the nodes by, is undone as a single step
+    // Changes made meanwhile (e.g. moving nodes, style settings) are recorded on their own
+    eventEmitter.on(Events.ALGORITHM, (message: EventMessage[Events.ALGORITHM]) =>
+      recordHistory(
+        graph,
+        message.name === 'None' ? 'Clear Communities' : `Run ${message.name}`,
+        () => algorithmListener(message),
+        { attributes: ['color', 'community'], keys: ALGORITHM_HISTORY_KEYS },
+      ),
+    );
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: graph is the same for the lifetime of sigma
+  useEffect(() => {
+    const propagationListener = async ({ seeds, options }: EventMessage[Events.PROPAGATION]) => {
+      useStore.setState({ propagationProgress: 0 });
+      try {
+        const { scores, pValues } = await propagateFromSeeds(graph, seeds, options, permutations =>
+          useStore.setState({ propagationProgress: permutations }),
+        );
+        const seedSet = new Set(seeds);
+        graph.updateEachNodeAttributes((node, attr) => {
+          attr.propagationScore = scores[node];
+          return attr;
+        });
+        useStore.setState({
+          propagation: {
+            seeds: seeds.filter(seed => graph.hasNode(seed)),
+            options,
+            ranking: Object.entries(scores)
+              .map(([ID, score]) => ({
+                ID,
+                geneName: graph.getNodeAttribute(ID, 'label') ?? ID,
+                score,
+                pValue: pValues?.[ID],
+                seed: seedSet.has(ID),
+              }))
+              .sort((a, b) => b.score - a.score),
+          },
+        });
+      } catch (error) {
+        console.error('Network propagation failed:', error);
+        toast.error('Failed to run network propagation', {
+          cancel: { label: 'Close', onClick() {} },
+          description: error instanceof Error ? error.message : 'Please try again later',
+        });
+      } finally {
+        useStore.setState({ propagationProgress: null });
+      }
+    };
+    eventEmitter.on(Events.PROPAGATION, propagationListener);
+    return () => {
+      eventEmitter.off(Events.PROPAGATION, propagationListener);
+    };
   }, []);
 
   const getReadableTextColor = useCallback((hex: string) => {
@@ -330,7 +432,8 @@ export function GraphAnalysis({
                 onCheckedChange={bool => {
                   if (bool === 'indeterminate') return;
                   for (const gene of val.genes) {
-                    graph.setNodeAttribute(gene, 'hidden', !bool);
+                    // Communities restored from the history may still list genes removed by editing
+                    if (graph.hasNode(gene)) graph.setNodeAttribute(gene, 'hidden', !bool);
                   }
                 }}
               />
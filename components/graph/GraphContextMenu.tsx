@@ -0,0 +1,312 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { fitViewportToNodes } from '@sigma/utils';
+import {
+  BookmarkPlusIcon,
+  CopyIcon,
+  EraserIcon,
+  ExternalLinkIcon,
+  EyeIcon,
+  EyeOffIcon,
+  FocusIcon,
+  NetworkIcon,
+  PinIcon,
+  PinOffIcon,
+  SquareDashedMousePointerIcon,
+  SquareMousePointerIcon,
+  WaypointsIcon,
+} from 'lucide-react';
+import { useEffect, useState } from 'react';
+import type { SigmaEdgeEventPayload, SigmaNodeEventPayload, SigmaStageEventPayload } from 'sigma/types';
+import { toast } from 'sonner';
+import { GENE_EXTERNAL_LINKS, interactionTypeMap } from '@/lib/data';
+import { EGO_NETWORK_HOPS } from '@/lib/graph';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
+import { communityColor, defaultSetName, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+
+type ContextMenuTarget = { type: 'node'; node: string } | { type: 'edge'; edge: string } | { type: 'stage' };
+
+export function GraphContextMenu() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+  const selectionSets = useStore(state => state.selectionSets);
+  const selectedNodes = useStore(state => state.selectedNodes);
+  const hiddenGenes = useStore(state => state.hiddenGenes);
+  const [menu, setMenu] = useState<(ContextMenuTarget & { x: number; y: number }) | null>(null);
+
+  useEffect(() => {
+    const graph = sigma.getGraph();
+    const handleRightClickNode = ({ node, event }: SigmaNodeEventPayload) => {
+      // Community nodes are expanded by double click, they have no actions of their own
+      if (graph.getNodeAttribute(node, 'collapsedCommunity') !== undefined) setMenu(null);
+      else setMenu({ type: 'node', node, x: event.x, y: event.y });
+    };
+    const handleRightClickEdge = ({ edge, event }: SigmaEdgeEventPayload) =>
+      setMenu({ type: 'edge', edge, x: event.x, y: event.y });
+    const handleRightClickStage = ({ event }: SigmaStageEventPayload) =>
+      setMenu({ type: 'stage', x: event.x, y: event.y });
+    sigma.on('rightClickNode', handleRightClickNode);
+    sigma.on('rightClickEdge', handleRightClickEdge);
+    sigma.on('rightClickStage', handleRightClickStage);
+    return () => {
+      sigma.off('rightClickNode', handleRightClickNode);
+      sigma.off('rightClickEdge', handleRightClickEdge);
+      sigma.off('rightClickStage', handleRightClickStage);
+    };
+  }, [sigma]);
+
+  const graph = sigma.getGraph();
+  const selection = selectedNodes.map(({ ID }) => ID);
+
+  /**
+   * Genes shown on the network, genes of collapsed communities are drawn as their community node
+   */
+  const visibleGenes = () => {
+    const { communityMap, collapsedCommunities } = useStore.getState();
+    const collapsedGenes = new Set(collapsedCommunities.flatMap(id => communityMap[id]?.genes ?? []));
+    const hiddenGeneSet = new Set(hiddenGenes);
+    return graph.filterNodes(
+      (node, attr) =>
+        !attr.hidden && attr.collapsedCommunity === undefined && !collapsedGenes.has(node) && !hiddenGeneSet.has(node),
+    );
+  };
+
+  const select = (nodes: string[]) =>
+    eventEmitter.emit(Events.SELECTION, { action: 'select', nodes } satisfies EventMessage[Events.SELECTION]);
+
+  const copy = (text: string) =>
+    navigator.clipboard.writeText(text).then(
+      () => toast.success('Copied to clipboard', { cancel: { label: 'Close', onClick() {} } }),
+      () => toast.error('Failed to copy to clipboard', { cancel: { label: 'Close', onClick() {} } }),
+    );
+
+  const addToSet = (genes: string[], id?: string) => {
+    const { selectionSets } = useStore.getState();
+    useStore.setState({
+      selectionSets: id
+        ? selectionSets.map(set =>
+            set.id === id ? { ...set, genes: Array.from(new Set([...set.genes, ...genes])) } : set,
+          )
+        : [
+            ...selectionSets,
+            {
+              id: crypto.randomUUID(),
+              name: defaultSetName(selectionSets),
+              color: communityColor(selectionSets.length),
+              genes,
+              createdAt: Date.now(),
+            },
+          ],
+    });
+  };
+
+  const renderNodeMenu = (node: string) => {
+    // Actions apply to the whole selection when the gene is a part of it
+    const genes = selection.includes(node) ? selection : [node];
+    const { label = node, pinned } = graph.getNodeAttributes(node);
+    const labels = genes.map(gene => graph.getNodeAttribute(gene, 'label') ?? gene);
+    return (
+      <>
+        <DropdownMenuLabel className='text-xs'>
+          {genes.length > 1 ? `${label} + ${genes.length - 1} selected genes` : label}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          className='text-xs'
+          onClick={() =>
+            select(
+              Array.from(new Set(genes.flatMap(gene => [gene, ...graph.neighbors(gene)]))).filter(
+                gene => !graph.getNodeAttribute(gene, 'hidden') && !hiddenGenes.includes(gene),
+              ),
+            )
+          }
+        >
+          <WaypointsIcon className='size-3.5' />
+          Select Neighbors
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className='gap-2 text-xs'>
+            <NetworkIcon className='size-3.5' />
+            Extract Neighborhood
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {EGO_NETWORK_HOPS.map(hops => (
+              <DropdownMenuItem
+                key={hops}
+                className='text-xs'
+                onClick={() =>
+                  eventEmitter.emit(Events.EGO_NETWORK, {
+                    genes,
+                    hops,
+                  } satisfies EventMessage[Events.EGO_NETWORK])
+                }
+              >
+                {hops}-hop
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuItem
+          className='text-xs'
+          onClick={() => useStore.setState({ hiddenGenes: Array.from(new Set([...hiddenGenes, ...genes])) })}
+        >
+          <EyeOffIcon className='size-3.5' />
+          Hide
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          className='text-xs'
+          onClick={() => {
+            for (const gene of genes) graph.setNodeAttribute(gene, 'pinned', !pinned);
+          }}
+        >
+          {pinned ? <PinOffIcon className='size-3.5' /> : <PinIcon className='size-3.5' />}
+          {pinned ? 'Unpin' : 'Pin'}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className='text-xs' onClick={() => copy(genes.join('\n'))}>
+          <CopyIcon className='size-3.5' />
+          Copy Gene ID
+        </DropdownMenuItem>
+        <DropdownMenuItem className='text-xs' onClick={() => copy(labels.join('\n'))}>
+          <CopyIcon className='size-3.5' />
+          Copy Gene Name
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className='gap-2 text-xs'>
+            <ExternalLinkIcon className='size-3.5' />
+            Open in
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {GENE_EXTERNAL_LINKS.map(({ name, url }) => (
+              <DropdownMenuItem
+                key={name}
+                className='text-xs'
+                onClick={() => window.open(url(node, label), '_blank', 'noopener,noreferrer')}
+              >
+                {name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className='gap-2 text-xs'>
+            <BookmarkPlusIcon className='size-3.5' />
+            Add to Gene Set
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className='max-h-60 overflow-y-auto'>
+            {selectionSets.map(set => (
+              <DropdownMenuItem key={set.id} className='text-xs' onClick={() => addToSet(genes, set.id)}>
+                <span className='size-2 shrink-0 rounded-full' style={{ backgroundColor: set.color }} />
+                {set.name}
+              </DropdownMenuItem>
+            ))}
+            {selectionSets.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuItem className='text-xs' onClick={() => addToSet(genes)}>
+              New Set
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </>
+    );
+  };
+
+  const renderEdgeMenu = (edge: string) => {
+    const { score, typeScores } = graph.getEdgeAttributes(edge);
+    const [source, target] = graph.extremities(edge).map(node => graph.getNodeAttribute(node, 'label') ?? node);
+    return (
+      <>
+        <DropdownMenuLabel className='text-xs'>
+          {source} — {target}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className='px-2 py-1 text-xs'>
+          <p className='flex justify-between gap-4 font-semibold'>
+            Score <span>{(score ?? 0).toFixed(2)}</span>
+          </p>
+          {Object.entries(typeScores ?? {}).map(([type, value]) => (
+            <p key={type} className='flex justify-between gap-4'>
+              {interactionTypeMap[type] ?? type} <span>{Number(value).toFixed(2)}</span>
+            </p>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  const renderStageMenu = () => (
+    <>
+      <DropdownMenuItem
+        className='text-xs'
+        onClick={() => fitViewportToNodes(sigma, visibleGenes(), { animate: true })}
+      >
+        <FocusIcon className='size-3.5' />
+        Fit View
+      </DropdownMenuItem>
+      <DropdownMenuItem className='text-xs' onClick={() => select(visibleGenes())}>
+        <SquareMousePointerIcon className='size-3.5' />
+        Select All Visible
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        className='text-xs'
+        onClick={() => {
+          const selected = new Set(selection);
+          select(visibleGenes().filter(gene => !selected.has(gene)));
+        }}
+      >
+        <SquareDashedMousePointerIcon className='size-3.5' />
+        Invert Selection
+      </DropdownMenuItem>
+      <DropdownMenuItem
+        className='text-xs'
+        disabled={hiddenGenes.length === 0}
+        onClick={() => useStore.setState({ hiddenGenes: [] })}
+      >
+        <EyeIcon className='size-3.5' />
+        Show Hidden Genes ({hiddenGenes.length})
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem
+        className='text-xs'
+        onClick={() =>
+          eventEmitter.emit(Events.SELECTION, { action: 'clear' } satisfies EventMessage[Events.SELECTION])
+        }
+      >
+        <EraserIcon className='size-3.5' />
+        Clear Highlights
+      </DropdownMenuItem>
+    </>
+  );
+
+  const isValid =
+    menu !== null &&
+    (menu.type === 'stage' || (menu.type === 'node' ? graph.hasNode(menu.node) : graph.hasEdge(menu.edge)));
+
+  return (
+    <DropdownMenu open={isValid} onOpenChange={open => !open && setMenu(null)} modal={false}>
+      <DropdownMenuTrigger asChild>
+        {/* Menu is anchored at the cursor */}
+        <span className='pointer-events-none absolute size-0' style={{ left: menu?.x, top: menu?.y }} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='start' className='min-w-48'>
+        {isValid &&
+          (menu.type === 'node'
+            ? renderNodeMenu(menu.node)
+            : menu.type === 'edge'
+              ? renderEdgeMenu(menu.edge)
+              : renderStageMenu())}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
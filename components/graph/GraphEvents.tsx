@@ -2,6 +2,8 @@
 
 import { useCamera, useRegisterEvents, useSigma } from '@react-sigma/core';
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { averageClusteringCoefficient } from '@/lib/analytics';
 import {
   DISEASE_DEPENDENT_PROPERTIES,
   type DiseaseDependentProperties,
@@ -9,12 +11,43 @@ import {
   type NodeColorType,
   type NodeSizeType,
 } from '@/lib/data';
+import { addEdge, addGene, mergeGenes, removeEdges, removeGenes } from '@/lib/graph';
 import drawEdgeHover from '@/lib/graph/canvas-edge-hover';
+import { beginHistory, commitHistory, withoutHistory } from '@/lib/history';
 import { useStore } from '@/lib/hooks';
-import type { CommonSection, EdgeAttributes, NodeAttributes, OtherSection, SelectionBox } from '@/lib/interface';
+import type {
+  CommonSection,
+  EdgeAttributes,
+  HistoryTransaction,
+  NetworkEdit,
+  NodeAttributes,
+  OtherSection,
+  SelectionBox,
+  SelectionOperation,
+  SelectionPoint,
+} from '@/lib/interface';
 import { Trie } from '@/lib/trie';
-import { cn } from '@/lib/utils';
-import { drawSelectionBox, findNodesInSelection } from '../../lib/graph/canvas-brush';
+import { cn, type EventMessage, Events, eventEmitter, getTopologyValue } from '@/lib/utils';
+import { computeNetworkStatistics } from '@/lib/workers';
+import {
+  combineSelection,
+  drawEdgePreview,
+  drawSelectionBox,
+  drawSelectionPolygon,
+  findNodesInPolygon,
+  markSelectedNodes,
+  selectionBoxToPolygon,
+} from '../../lib/graph/canvas-brush';
+
+/**
+ * Smallest distance in pixels between consecutive points of the lasso
+ */
+const LASSO_POINT_SPACING = 4;
+
+/**
+ * Distance in pixels from the first vertex within which a click closes the polygon
+ */
+const POLYGON_CLOSE_DISTANCE = 8;
 
 export function GraphEvents({
   clickedNodesRef,
@@ -29,6 +62,7 @@ export function GraphEvents({
   const nodeSearchQuery = useStore(state => state.nodeSearchQuery);
   const trieRef = useRef(new Trie<{ key: string; value: string }>());
   const totalNodes = useStore(state => state.networkStatistics.totalNodes);
+  const networkEdits = useStore(state => state.networkEdits);
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
@@ -38,7 +72,7 @@ export function GraphEvents({
     })) as { key: string; value: string }[];
     if (!Array.isArray(nodeArr)) return;
     trieRef.current = Trie.fromArray(nodeArr, 'key');
-  }, [totalNodes]);
+  }, [totalNodes, networkEdits]);
 
   const { gotoNode } = useCamera();
 
@@ -86,7 +120,16 @@ export function GraphEvents({
   const [_selectedNodes, setSelectedNodes] = useState<string[]>([]);
   const [isSelecting, setIsSelecting] = useState(false);
   const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  const selectionMode = useStore(state => state.selectionMode);
+  const editMode = useStore(state => state.editMode);
+  // Node the edge being drawn in edit mode starts from
+  const [edgeSource, setEdgeSource] = useState<string | null>(null);
+  const selectionPathRef = useRef<SelectionPoint[]>([]);
+  const selectionOperationRef = useRef<SelectionOperation>('replace');
+  const selectionBaseRef = useRef<string[]>([]);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // History entry of the node being dragged
+  const dragHistoryRef = useRef<HistoryTransaction | null>(null);
 
   const handleSelectedNodes = useCallback(
     (_selectedNodes: string[]) => {
@@ -102,14 +145,40 @@ export function GraphEvents({
     [sigma],
   );
 
+  /**
+   * Previews the selection of the drawn shape combined with the selection it started from
+   * @param polygon Drawn shape in graph coordinates
+   * @returns Node keys of the previewed selection
+   */
+  const previewSelection = useCallback(
+    (polygon: SelectionPoint[]) => {
+      const graph = sigma.getGraph();
+      const hiddenGenes = new Set(useStore.getState().hiddenGenes);
+      const selection = combineSelection(
+        selectionBaseRef.current,
+        findNodesInPolygon(graph, polygon).filter(node => !hiddenGenes.has(node)),
+        selectionOperationRef.current,
+      );
+      markSelectedNodes(graph, new Set(selection), highlightedNodesRef.current);
+      setSelectedNodes(selection);
+      return selection;
+    },
+    [sigma, highlightedNodesRef],
+  );
+
   const handleMouseDown = useCallback(
     (e: MouseEvent) => {
       if (canvasRef.current) canvasRef.current.style.cursor = 'crosshair';
       setIsSelecting(true);
+      // Ctrl/Cmd extends and Alt shrinks the current selection
+      selectionOperationRef.current = e.altKey ? 'subtract' : e.ctrlKey || e.metaKey ? 'add' : 'replace';
+      selectionBaseRef.current = useStore.getState().selectedNodes.map(({ ID }) => ID);
       const mousePosition = sigma.viewportToGraph({
         x: e.offsetX,
         y: e.offsetY,
       });
+      // Polygon keeps a vertex following the cursor
+      selectionPathRef.current = selectionMode === 'polygon' ? [mousePosition, mousePosition] : [mousePosition];
 
       setSelectionBox({
         startX: mousePosition.x,
@@ -118,63 +187,100 @@ export function GraphEvents({
         endY: mousePosition.y,
       });
     },
-    [sigma],
+    [sigma, selectionMode],
   );
 
   const handleMouseMove = useCallback(
     (e: MouseEvent) => {
-      if (isSelecting && selectionBox) {
-        const mousePosition = sigma.viewportToGraph({
-          x: e.offsetX,
-          y: e.offsetY,
-        });
-        setSelectionBox({
-          ...selectionBox,
-          endX: mousePosition.x,
-          endY: mousePosition.y,
-        });
+      if (!isSelecting || !canvasRef.current) return;
+      const mousePosition = sigma.viewportToGraph({
+        x: e.offsetX,
+        y: e.offsetY,
+      });
+      if (selectionMode === 'box' && selectionBox) {
+        const box = { ...selectionBox, endX: mousePosition.x, endY: mousePosition.y };
+        setSelectionBox(box);
 
         // Draw selection rectangle
-        if (!canvasRef.current) return;
-        drawSelectionBox(sigma, canvasRef.current, {
-          ...selectionBox,
-          endX: mousePosition.x,
-          endY: mousePosition.y,
-        });
+        drawSelectionBox(sigma, canvasRef.current, box);
 
         // Find nodes within selection
-        const selectedNodes = findNodesInSelection(
-          sigma.getGraph(),
-          {
-            ...selectionBox,
-            endX: mousePosition.x,
-            endY: mousePosition.y,
-          },
-          highlightedNodesRef.current,
-        );
-        setSelectedNodes(selectedNodes);
+        previewSelection(selectionBoxToPolygon(box));
+      } else if (selectionMode === 'lasso') {
+        const path = selectionPathRef.current;
+        const last = sigma.graphToViewport(path[path.length - 1]);
+        // Skips points closer than a few pixels, keeping long lassos cheap to test against
+        if (Math.hypot(last.x - e.offsetX, last.y - e.offsetY) < LASSO_POINT_SPACING) return;
+        path.push(mousePosition);
+        drawSelectionPolygon(sigma, canvasRef.current, path);
+        previewSelection(path);
+      } else if (selectionMode === 'polygon') {
+        const path = selectionPathRef.current;
+        path[path.length - 1] = mousePosition;
+        drawSelectionPolygon(sigma, canvasRef.current, path, true);
+        previewSelection(path);
       }
     },
-    [sigma, isSelecting, selectionBox, highlightedNodesRef],
+    [sigma, isSelecting, selectionBox, selectionMode, previewSelection],
   );
 
-  const handleMouseUp = useCallback(() => {
-    setIsSelecting(false);
-    setSelectionBox(null);
+  const handleMouseUp = useCallback(
+    (cancel = false, selection = _selectedNodes) => {
+      setIsSelecting(false);
+      setSelectionBox(null);
+      selectionPathRef.current = [];
 
-    // Clear the selection rectangle
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    canvas.style.cursor = 'default';
-    const ctx = canvas.getContext('2d');
+      // Clear the selection rectangle
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.style.cursor = 'default';
+      const ctx = canvas.getContext('2d');
 
-    /* Fix for Chromium-based browsers for clearing the canvas */
-    requestAnimationFrame(() => {
-      ctx?.clearRect(0, 0, canvas.width, canvas.height);
-    });
-    // End of fix
-    if (_selectedNodes.length) handleSelectedNodes(_selectedNodes);
-  }, [handleSelectedNodes, _selectedNodes]);
+      /* Fix for Chromium-based browsers for clearing the canvas */
+      requestAnimationFrame(() => {
+        ctx?.clearRect(0, 0, canvas.width, canvas.height);
+      });
+      // End of fix
+      if (cancel) {
+        // Restores the selection the shape started from
+        markSelectedNodes(sigma.getGraph(), new Set(selectionBaseRef.current), highlightedNodesRef.current);
+        setSelectedNodes(selectionBaseRef.current);
+      } else if (selection.length || selectionOperationRef.current !== 'replace') {
+        handleSelectedNodes(selection);
+      }
+    },
+    [handleSelectedNodes, _selectedNodes, sigma, highlightedNodesRef],
+  );
+
+  /**
+   * Places a vertex of the polygon, closing it when the first vertex is clicked again
+   */
+  const placePolygonVertex = useCallback(
+    (e: MouseEvent) => {
+      const path = selectionPathRef.current;
+      const first = sigma.graphToViewport(path[0]);
+      if (path.length > 3 && Math.hypot(first.x - e.offsetX, first.y - e.offsetY) < POLYGON_CLOSE_DISTANCE) {
+        handleMouseUp();
+        return;
+      }
+      path.push(sigma.viewportToGraph({ x: e.offsetX, y: e.offsetY }));
+    },
+    [sigma, handleMouseUp],
+  );
+
+  useEffect(() => {
+    if (!isSelecting || selectionMode !== 'polygon') return;
+    const keyListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') handleMouseUp(true);
+      else if (event.key === 'Enter') {
+        // Vertex following the cursor is dropped, the polygon closes at the last placed one
+        selectionPathRef.current.pop();
+        handleMouseUp(false, previewSelection(selectionPathRef.current));
+      }
+    };
+    document.addEventListener('keydown', keyListener);
+    return () => document.removeEventListener('keydown', keyListener);
+  }, [isSelecting, selectionMode, handleMouseUp, previewSelection]);
 
   //   biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
@@ -241,16 +347,28 @@ export function GraphEvents({
       },
       /* Drag'n'Drop Program */
       downNode: e => {
-        if (isSelecting) return;
+        // Right button opens the context menu
+        if (isSelecting || (e.event.original as MouseEvent).button === 2) return;
+        if (editMode) {
+          setEdgeSource(e.node);
+          return;
+        }
+        dragHistoryRef.current = beginHistory(graph, `Move ${graph.getNodeAttribute(e.node, 'label') ?? e.node}`, {
+          nodes: [e.node],
+          attributes: ['x', 'y'],
+          keys: [],
+        });
         setDraggedNode(e.node);
       },
 
       /* Node Selection Program also starts */
       // On mouse move, if the drag mode is enabled, we change the position of the draggedNode
       mousemovebody: e => {
-        if (!isSelecting && !draggedNode) return;
+        if (!isSelecting && !draggedNode && !edgeSource) return;
         if (isSelecting) {
           handleMouseMove(e.original as MouseEvent);
+        } else if (edgeSource) {
+          if (canvasRef.current) drawEdgePreview(sigma, canvasRef.current, edgeSource, sigma.viewportToGraph(e));
         } else if (draggedNode) {
           const pos = sigma.viewportToGraph(e);
           // Get new position of node
@@ -263,11 +381,27 @@ export function GraphEvents({
         e.original.stopPropagation();
       },
       // On mouse up, we reset the autoscale and the dragging mode
+      upNode: e => {
+        if (!edgeSource || e.node === edgeSource) return;
+        eventEmitter.emit(Events.NETWORK_EDIT, {
+          action: 'add-edge',
+          source: edgeSource,
+          target: e.node,
+          score: useStore.getState().editEdgeScore,
+        } satisfies EventMessage[Events.NETWORK_EDIT]);
+      },
       mouseup: () => {
-        if (draggedNode) {
+        if (edgeSource) {
+          setEdgeSource(null);
+          requestAnimationFrame(() => context?.clearRect(0, 0, context.canvas.width, context.canvas.height));
+        } else if (draggedNode) {
+          // Clicks without moving the node are left out of the history
+          if (dragHistoryRef.current) commitHistory(graph, dragHistoryRef.current);
+          dragHistoryRef.current = null;
           setDraggedNode(null);
         } else if (isSelecting) {
-          handleMouseUp();
+          // Polygon is placed click by click, it is closed on its first vertex
+          if (selectionMode !== 'polygon') handleMouseUp();
         } else if (clickedNode) {
           clickedNodesRef?.current.delete(clickedNode);
           graph.forEachNeighbor(clickedNode, (neighbor, attr) => {
@@ -300,7 +434,11 @@ export function GraphEvents({
       },
       // Disable the autoscale at the first down interaction
       mousedown: e => {
-        if (e.original.shiftKey) handleMouseDown(e.original as MouseEvent);
+        if ((e.original as MouseEvent).button === 2) return;
+        if (isSelecting && selectionMode === 'polygon') {
+          placePolygonVertex(e.original as MouseEvent);
+          e.preventSigmaDefault();
+        } else if (e.original.shiftKey) handleMouseDown(e.original as MouseEvent);
         else {
           for (const node of _selectedNodes) {
             if (highlightedNodesRef.current.has(node)) graph.setNodeAttribute(node, 'type', 'highlight');
@@ -311,7 +449,20 @@ export function GraphEvents({
         }
         if (!sigma.getCustomBBox()) sigma.setCustomBBox(sigma.getBBox());
       },
+      clickEdge: e => {
+        if (!editMode) return;
+        const { selectedEdges } = useStore.getState();
+        useStore.setState({
+          selectedEdges: selectedEdges.includes(e.edge)
+            ? selectedEdges.filter(edge => edge !== e.edge)
+            : [...selectedEdges, e.edge],
+        });
+      },
+      clickStage: () => {
+        if (useStore.getState().selectedEdges.length) useStore.setState({ selectedEdges: [] });
+      },
       clickNode: e => {
+        if (isSelecting) return;
         const graph = sigma.getGraph();
         if (!e.event.original.shiftKey) e.event.original.stopPropagation();
         if (e.event.original.ctrlKey) {
@@ -321,31 +472,21 @@ export function GraphEvents({
           const appendedQuery = trimmedQuery ? trimmedQuery.replace(/[,\s]*$/, `, ${node},`) : `${node},`;
           useStore.setState({ nodeSearchQuery: appendedQuery });
         }
-        setClickedNode(node => {
-          if (node) {
-            clickedNodesRef?.current.delete(node);
-            graph.forEachNeighbor(node, (neighbor, attr) => {
-              clickedNodesRef?.current.delete(neighbor);
-              if (highlightedNodesRef.current.has(neighbor)) return;
-              attr.type = 'circle';
-              attr.highlighted = false;
-            });
-          }
-          clickedNodesRef?.current.add(e.node);
-          graph.setNodeAttribute(e.node, 'type', 'border');
-          graph.setNodeAttribute(e.node, 'highlighted', true);
-          if (highlightNeighborNodes) {
-            graph.forEachNeighbor(e.node, (neighbor, attr) => {
-              clickedNodesRef?.current.add(neighbor);
-              attr.type = 'border';
-              attr.highlighted = true;
-            });
-          }
-          return e.node;
-        });
+        selectNode(e.node);
       },
     });
-  }, [registerEvents, sigma, draggedNode, handleMouseUp, handleMouseDown, handleMouseMove]);
+  }, [
+    registerEvents,
+    sigma,
+    draggedNode,
+    selectionMode,
+    editMode,
+    edgeSource,
+    handleMouseUp,
+    handleMouseDown,
+    handleMouseMove,
+    placePolygonVertex,
+  ]);
 
   const highlightNeighborNodes = useStore(state => state.highlightNeighborNodes);
   const [clickedNode, setClickedNode] = useState<string | null>(null);
@@ -357,9 +498,173 @@ export function GraphEvents({
   const diseaseName = useStore(state => state.diseaseName);
   const radioOptions = useStore(state => state.radioOptions);
 
+  /**
+   * Marks the node (and neighbors when enabled) as clicked and shows its details
+   * @param selected Node to select, replacing the previously clicked one
+   */
+  const selectNode = (selected: string) => {
+    const graph = sigma.getGraph();
+    setClickedNode(node => {
+      if (node) {
+        clickedNodesRef?.current.delete(node);
+        graph.forEachNeighbor(node, (neighbor, attr) => {
+          clickedNodesRef?.current.delete(neighbor);
+          if (highlightedNodesRef.current.has(neighbor)) return;
+          attr.type = 'circle';
+          attr.highlighted = false;
+        });
+      }
+      clickedNodesRef?.current.add(selected);
+      graph.setNodeAttribute(selected, 'type', 'border');
+      graph.setNodeAttribute(selected, 'highlighted', true);
+      if (highlightNeighborNodes) {
+        graph.forEachNeighbor(selected, (neighbor, attr) => {
+          clickedNodesRef?.current.add(neighbor);
+          attr.type = 'border';
+          attr.highlighted = true;
+        });
+      }
+      return selected;
+    });
+  };
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: selectNode only reads latest state
+  useEffect(() => {
+    const focusListener = ({ node }: EventMessage[Events.FOCUS_NODE]) => {
+      if (!sigma.getGraph().hasNode(node)) return;
+      selectNode(node);
+      gotoNode(node, { duration: 300 });
+    };
+    eventEmitter.on(Events.FOCUS_NODE, focusListener);
+    return () => {
+      eventEmitter.off(Events.FOCUS_NODE, focusListener);
+    };
+  }, [sigma, gotoNode]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refs and setters are stable
+  useEffect(() => {
+    const selectionListener = (message: EventMessage[Events.SELECTION]) => {
+      const graph = sigma.getGraph();
+      const nodes = message.action === 'select' ? message.nodes.filter(node => graph.hasNode(node)) : [];
+      if (message.action === 'clear') {
+        for (const node of clickedNodesRef?.current ?? []) {
+          if (graph.hasNode(node)) graph.setNodeAttribute(node, 'highlighted', false);
+        }
+        clickedNodesRef?.current.clear();
+        setClickedNode(null);
+        // Searched genes are cleared by the search effect, along with the selection set applied through it
+        useStore.setState({ nodeSearchQuery: '', activeSelectionSet: null, highlightedPath: null });
+      }
+      markSelectedNodes(graph, new Set(nodes), highlightedNodesRef.current);
+      setSelectedNodes(nodes);
+      handleSelectedNodes(nodes);
+    };
+    eventEmitter.on(Events.SELECTION, selectionListener);
+    return () => {
+      eventEmitter.off(Events.SELECTION, selectionListener);
+    };
+  }, [sigma, handleSelectedNodes]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refs and setters are stable
+  useEffect(() => {
+    let cancelStatistics: (() => void) | undefined;
+    const networkEditListener = (message: EventMessage[Events.NETWORK_EDIT]) => {
+      const graph = sigma.getGraph();
+      if (useStore.getState().collapsedCommunities.length > 0) {
+        toast.warning('Expand the collapsed communities to edit the network', {
+          cancel: { label: 'Close', onClick() {} },
+        });
+        return;
+      }
+      let edits: NetworkEdit[] = [];
+      if (message.action === 'remove') {
+        edits = [...removeEdges(graph, message.edges), ...removeGenes(graph, message.nodes)];
+      } else if (message.action === 'add-edge') {
+        edits = addEdge(graph, message.source, message.target, message.score);
+      } else if (message.action === 'merge') {
+        edits = mergeGenes(graph, message.into, message.nodes);
+      } else {
+        // New gene is placed at the center of the view
+        const { width, height } = sigma.getDimensions();
+        edits = addGene(graph, message.gene, sigma.viewportToGraph({ x: width / 2, y: height / 2 }));
+        if (edits.length === 0) {
+          toast.info(`${message.gene.Gene_name ?? message.gene.ID} is already in the network`, {
+            cancel: { label: 'Close', onClick() {} },
+          });
+        }
+      }
+      if (edits.length === 0) return;
+
+      for (const ref of [clickedNodesRef, highlightedNodesRef, seedProximityNodesRef]) {
+        for (const node of ref?.current ?? []) if (!graph.hasNode(node)) ref?.current.delete(node);
+      }
+      setClickedNode(node => (node && graph.hasNode(node) ? node : null));
+      setSelectedNodes(nodes => nodes.filter(node => graph.hasNode(node)));
+      const addedGenes = edits.filter(({ action }) => action === 'add-gene').map(({ source }) => source);
+      // Structural edits are not undoable, neither is the cleanup of the analyses referring to the removed genes
+      withoutHistory(() =>
+        useStore.setState(state => ({
+          networkEdits: [...state.networkEdits, ...edits],
+          selectedNodes: state.selectedNodes.filter(({ ID }) => graph.hasNode(ID)),
+          selectedEdges: state.selectedEdges.filter(edge => graph.hasEdge(edge)),
+          geneNames: graph.mapNodes((node, attr) => attr.label ?? node),
+          geneNameToID: new Map([
+            ...Array.from(state.geneNameToID).filter(([, ID]) => graph.hasNode(ID)),
+            ...addedGenes.map(gene => [graph.getNodeAttribute(gene, 'label') ?? gene, gene] as const),
+          ]),
+          communityMap: Object.fromEntries(
+            Object.entries(state.communityMap).map(([id, community]) => [
+              id,
+              { ...community, genes: community.genes.filter(gene => graph.hasNode(gene)) },
+            ]),
+          ),
+          // Paths may run through the removed genes/edges or miss the added ones
+          shortestPaths: null,
+          highlightedPath: null,
+        })),
+      );
+      useStore.getState().setNetworkStatistics({
+        totalNodes: graph.order,
+        totalEdges: graph.size,
+        averageClusteringCoefficient: averageClusteringCoefficient(graph),
+      });
+      // Cancels the statistics still running, whether started on load or by an earlier edit
+      cancelStatistics = computeNetworkStatistics(graph);
+    };
+    // Selected genes/edges are removed with Delete/Backspace while editing
+    const keydownListener = (e: KeyboardEvent) => {
+      if (!useStore.getState().editMode || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const { selectedNodes, selectedEdges } = useStore.getState();
+      if (selectedNodes.length === 0 && selectedEdges.length === 0) return;
+      e.preventDefault();
+      networkEditListener({ action: 'remove', nodes: selectedNodes.map(({ ID }) => ID), edges: selectedEdges });
+    };
+    eventEmitter.on(Events.NETWORK_EDIT, networkEditListener);
+    document.addEventListener('keydown', keydownListener);
+    return () => {
+      cancelStatistics?.();
+      eventEmitter.off(Events.NETWORK_EDIT, networkEditListener);
+      document.removeEventListener('keydown', keydownListener);
+    };
+  }, [sigma]);
+
   const propertyResolve = useCallback(
     (node: string, selectedRadio: NodeColorType | NodeSizeType | undefined, selectedProperty: string | Set<string>) => {
       if (!selectedRadio || !selectedProperty) return null;
+      if (selectedRadio === 'Topology' && typeof selectedProperty === 'string') {
+        const value = getTopologyValue(sigma.getGraph().getNodeAttributes(node), selectedProperty);
+        return (
+          <div>
+            <h3 className='wrap-break-word font-bold'>{selectedProperty}</h3>
+            <p className={cn(value !== undefined ? 'italic' : '')}>
+              {typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(4) : (value ?? 'N/A')}
+            </p>
+          </div>
+        );
+      }
+      if (selectedRadio === 'Topology') return null;
       const diseaseNameOrCommon = DISEASE_DEPENDENT_PROPERTIES?.includes(selectedRadio as DiseaseDependentProperties)
         ? diseaseName
         : 'common';
@@ -393,7 +698,7 @@ export function GraphEvents({
         : null;
       return values;
     },
-    [diseaseName, universalData, radioOptions],
+    [diseaseName, universalData, radioOptions, sigma],
   );
 
   return (
@@ -12,16 +12,122 @@ import {
   type NodeColorType,
   type NodeSizeType,
 } from '@/lib/data';
+import {
+  collectFigureInput,
+  exportGeneGraph,
+  getEditedInteractions,
+  layoutFigure,
+  rasterizeFigure,
+  toCytoscapeJSON,
+  toGEXF,
+  toGraphML,
+  toPDFFigure,
+  toSVGFigure,
+} from '@/lib/graph';
 import { useStore } from '@/lib/hooks';
-import type { CommonSection, EdgeAttributes, NodeAttributes, OtherSection } from '@/lib/interface';
-import { downloadFile, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import type {
+  CommonSection,
+  EdgeAttributes,
+  FigureInput,
+  NetworkExport,
+  NetworkExportValue,
+  NodeAttributes,
+  OtherSection,
+} from '@/lib/interface';
+import { getLegendSpecs } from '@/lib/legends';
+import { createProjectArchive, PROJECT_FILE_EXTENSION } from '@/lib/project';
+import { downloadFile, type EventMessage, Events, eventEmitter, getTopologyValue } from '@/lib/utils';
 
 export function GraphExport({ highlightedNodesRef }: { highlightedNodesRef?: React.RefObject<Set<string>> }) {
   const sigma = useSigma<NodeAttributes, EdgeAttributes>();
 
+  /**
+   * Snapshot of the rendered network with visual attributes, flags and every loaded universal property
+   * @param nodeIds Nodes to be exported, edges are exported only if both ends are exported
+   */
+  const buildNetworkExport = (nodeIds: string[]): NetworkExport => {
+    const graph = sigma.getGraph();
+    const { universalData, selectedNodes, projectTitle } = useStore.getState();
+    const selectedNodeIds = new Set(selectedNodes.map(node => node.ID));
+    const nodeSet = new Set(nodeIds);
+
+    const nodes = nodeIds.map(nodeId => {
+      const attributes = graph.getNodeAttributes(nodeId);
+      const displayData = sigma.getNodeDisplayData(nodeId);
+      const properties: Record<string, NetworkExportValue> = {
+        description: attributes.description ?? '',
+        highlighted: !!highlightedNodesRef?.current.has(nodeId),
+        selected: selectedNodeIds.has(nodeId),
+      };
+      if (attributes.community) properties.community = attributes.community;
+      for (const [metric, value] of Object.entries(attributes.centrality ?? {})) {
+        properties[`centrality_${metric}`] = value;
+      }
+      for (const [section, categories] of Object.entries(universalData[nodeId] ?? {})) {
+        for (const [category, values] of Object.entries(
+          categories as Record<string, Record<string, string | number>>,
+        )) {
+          for (const [property, value] of Object.entries(values)) {
+            if (value === undefined || value === null || Number.isNaN(value)) continue;
+            // Disease dependent properties are qualified with the disease to keep them apart
+            const name =
+              section === 'common' || section === 'user'
+                ? `${category}_${property}`
+                : `${category}_${section}_${property}`;
+            properties[name] = value;
+          }
+        }
+      }
+      return {
+        id: nodeId,
+        label: attributes.label ?? nodeId,
+        x: attributes.x ?? 0,
+        y: attributes.y ?? 0,
+        color: displayData?.color ?? attributes.color,
+        size: displayData?.size ?? attributes.size,
+        attributes: properties,
+      };
+    });
+
+    const edges: NetworkExport['edges'] = [];
+    graph.forEachEdge((edge, attributes, source, target) => {
+      if (!nodeSet.has(source) || !nodeSet.has(target)) return;
+      const displayData = sigma.getEdgeDisplayData(edge);
+      const properties: Record<string, NetworkExportValue> = { score: attributes.score ?? 0 };
+      for (const [type, score] of Object.entries(attributes.typeScores ?? {})) {
+        properties[`typeScore_${type}`] = score;
+      }
+      edges.push({
+        id: edge,
+        source,
+        target,
+        color: displayData?.color ?? attributes.color,
+        size: displayData?.size ?? attributes.size,
+        attributes: { ...attributes.properties, ...properties },
+      });
+    });
+
+    return { title: projectTitle, nodes, edges };
+  };
+
+  /**
+   * Rendered nodes/edges (after reducers) along with the active legends for figure export
+   * @param includeHidden Whether hidden nodes/edges are included
+   */
+  const buildFigureInput = (includeHidden: boolean): FigureInput => {
+    const state = useStore.getState();
+    const legends = getLegendSpecs(state);
+    return collectFigureInput(
+      sigma,
+      includeHidden,
+      state.defaultLabelSize,
+      [legends.node, legends.edge].filter(legend => legend !== null),
+    );
+  };
+
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
-    eventEmitter.on(Events.EXPORT, ({ format, all, csvType }: EventMessage[Events.EXPORT]) => {
+    eventEmitter.on(Events.EXPORT, async ({ format, all, csvType, figure }: EventMessage[Events.EXPORT]) => {
       const projectTitle = useStore.getState().projectTitle;
       switch (format) {
         case 'csv': {
@@ -41,20 +147,28 @@ export function GraphExport({ highlightedNodesRef }: { highlightedNodesRef?: Rea
             radioOptions,
             universalData,
             diseaseName,
+            networkEdits,
           } = useStore.getState();
 
-          const isDatabaseOrUser = (radio: NodeColorType | NodeSizeType, property: string) =>
+          const isDatabaseOrUser = (radio: Exclude<NodeColorType | NodeSizeType, 'Topology'>, property: string) =>
             radioOptions.user[radio].includes(property)
               ? 'user'
               : DISEASE_DEPENDENT_PROPERTIES.includes(radio as DiseaseDependentProperties)
                 ? diseaseName
                 : 'common';
 
-          const nodeIds = all ? sigma.getGraph().nodes() : Array.from(highlightedNodesRef?.current ?? []);
+          const nodeIds = all
+            ? sigma.getGraph().filterNodes((_, attr) => attr.collapsedCommunity === undefined)
+            : Array.from(highlightedNodesRef?.current ?? []);
           const universalCsv = unparse(
             nodeIds.map(nodeId => {
               const universalProperties: Record<string, string | number> = {};
-              if (selectedRadioNodeColor) {
+              if (selectedRadioNodeColor === 'Topology') {
+                if (typeof selectedNodeColorProperty === 'string') {
+                  universalProperties[selectedNodeColorProperty] =
+                    getTopologyValue(graph.getNodeAttributes(nodeId), selectedNodeColorProperty) ?? '';
+                }
+              } else if (selectedRadioNodeColor) {
                 if (typeof selectedNodeColorProperty === 'string') {
                   universalProperties[selectedNodeColorProperty] = (
                     universalData[nodeId][
@@ -71,7 +185,12 @@ export function GraphExport({ highlightedNodesRef }: { highlightedNodesRef?: Rea
                 }
               }
 
-              if (selectedRadioNodeSize) {
+              if (selectedRadioNodeSize === 'Topology') {
+                if (typeof selectedNodeSizeProperty === 'string') {
+                  universalProperties[selectedNodeSizeProperty] =
+                    getTopologyValue(graph.getNodeAttributes(nodeId), selectedNodeSizeProperty) ?? '';
+                }
+              } else if (selectedRadioNodeSize) {
                 if (typeof selectedNodeSizeProperty === 'string') {
                   universalProperties[selectedNodeSizeProperty] = (
                     universalData[nodeId][
@@ -97,21 +216,33 @@ export function GraphExport({ highlightedNodesRef }: { highlightedNodesRef?: Rea
             }),
           );
           const nodeSet = new Set(nodeIds);
-          const interactionCsv = unparse(
-            graph.reduceEdges(
-              (acc, _edgeId, attributes, source, target) => {
-                if (nodeSet.has(source) && nodeSet.has(target)) {
-                  acc.push({
-                    Source: source,
-                    Target: target,
-                    Score: attributes.score ?? 0,
-                  });
-                }
-                return acc;
-              },
-              [] as { Source: string; Target: string; Score: number }[],
-            ),
+          // Manually edited interactions are marked, removed ones are listed as well
+          const editedInteractions = networkEdits.length > 0 ? getEditedInteractions(graph, networkEdits) : undefined;
+          const interactions = graph.reduceEdges(
+            (acc, edgeId, attributes, source, target) => {
+              if (nodeSet.has(source) && nodeSet.has(target)) {
+                acc.push({
+                  Source: source,
+                  Target: target,
+                  Score: attributes.score ?? 0,
+                  ...(editedInteractions && { Edit: editedInteractions.added.has(edgeId) ? 'added' : '' }),
+                  ...attributes.properties,
+                });
+              }
+              return acc;
+            },
+            [] as Array<{ Source: string; Target: string; Score: number } & Record<string, string | number>>,
           );
+          for (const edit of editedInteractions?.removed ?? []) {
+            if (!all && !(nodeSet.has(edit.source) && edit.target && nodeSet.has(edit.target))) continue;
+            interactions.push({
+              Source: edit.source,
+              Target: edit.target ?? '',
+              Score: edit.score ?? 0,
+              Edit: 'removed',
+            });
+          }
+          const interactionCsv = unparse(interactions);
           // Handle csvType
           if (csvType === 'universal') {
             downloadFile(universalCsv, `${projectTitle}-universal${all ? '' : '-selected'}.csv`);
@@ -148,7 +279,68 @@ export function GraphExport({ highlightedNodesRef }: { highlightedNodesRef?: Rea
           }
           break;
         }
+        case 'graphml':
+        case 'gexf':
+        case 'cyjs': {
+          const nodeIds = all
+            ? sigma.getGraph().filterNodes((_, attr) => attr.collapsedCommunity === undefined)
+            : Array.from(highlightedNodesRef?.current ?? []);
+          if (nodeIds.length === 0) {
+            toast.warning('No nodes selected', {
+              cancel: { label: 'Close', onClick() {} },
+            });
+            return;
+          }
+          const network = buildNetworkExport(nodeIds);
+          const fileName = `${projectTitle}${all ? '' : '-selected'}.${format}`;
+          if (format === 'graphml') downloadFile(toGraphML(network), fileName, 'application/graphml+xml');
+          else if (format === 'gexf') downloadFile(toGEXF(network), fileName, 'application/xml');
+          else downloadFile(toCytoscapeJSON(network), fileName, 'application/json');
+          break;
+        }
+        case 'svg':
+        case 'pdf': {
+          if (!figure) return;
+          const scene = layoutFigure(buildFigureInput(figure.includeHidden), figure);
+          if (format === 'svg') downloadFile(toSVGFigure(scene), `${projectTitle}.svg`, 'image/svg+xml');
+          else downloadFile(toPDFFigure(scene), `${projectTitle}.pdf`, 'application/pdf');
+          break;
+        }
+        case 'tbep': {
+          const archive = await createProjectArchive(exportGeneGraph(sigma.getGraph()));
+          const element = document.createElement('a');
+          element.href = URL.createObjectURL(new Blob([archive.slice()], { type: 'application/zip' }));
+          element.download = `${projectTitle}.${PROJECT_FILE_EXTENSION}`;
+          document.body.appendChild(element);
+          element.click();
+          URL.revokeObjectURL(element.href);
+          element.remove();
+          toast.success('Project saved', {
+            cancel: { label: 'Close', onClick() {} },
+            description: 'Open it from the Upload tab of explore page to continue the analysis',
+          });
+          break;
+        }
         default: {
+          if (figure) {
+            const scene = layoutFigure(buildFigureInput(figure.includeHidden), figure);
+            const image = await rasterizeFigure(toSVGFigure(scene), scene, figure.dpi);
+            if (!image) {
+              toast.error('Failed to export figure', {
+                cancel: { label: 'Close', onClick() {} },
+                description: 'Figure is too large for the given DPI, please try a lower DPI',
+              });
+              return;
+            }
+            const element = document.createElement('a');
+            element.href = URL.createObjectURL(image);
+            element.download = `${projectTitle}.png`;
+            document.body.appendChild(element);
+            element.click();
+            URL.revokeObjectURL(element.href);
+            element.remove();
+            return;
+          }
           downloadAsImage(sigma, {
             format,
             fileName: projectTitle,
@@ -0,0 +1,66 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { useEffect, useState } from 'react';
+import { resumeHistory, subscribeHistory, travelHistory } from '@/lib/history';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, HistoryNodeAttributes, NodeAttributes } from '@/lib/interface';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+
+export function GraphHistory() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+  const loaded = useStore(state => state.networkStatistics.totalNodes > 0);
+  const [recording, setRecording] = useState(false);
+  const [restoredNodes, setRestoredNodes] = useState<Record<string, HistoryNodeAttributes> | null>(null);
+
+  // Recording starts once the network (or project) is loaded, filtering out every node later keeps it going
+  useEffect(() => {
+    if (loaded) setRecording(true);
+  }, [loaded]);
+
+  useEffect(() => {
+    if (!recording) return;
+    return subscribeHistory();
+  }, [recording]);
+
+  useEffect(() => {
+    const historyListener = (message: EventMessage[Events.HISTORY]) => {
+      const { historyIndex } = useStore.getState();
+      const index =
+        message.action === 'undo' ? historyIndex - 1 : message.action === 'redo' ? historyIndex + 1 : message.index;
+      const nodes = travelHistory(index);
+      // Node attributes are applied after color/size analyses have reacted to the restored store
+      if (nodes) setRestoredNodes(nodes);
+    };
+    const keydownListener = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      // Text fields keep their own undo
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      historyListener({ action: e.shiftKey ? 'redo' : 'undo' });
+    };
+    eventEmitter.on(Events.HISTORY, historyListener);
+    window.addEventListener('keydown', keydownListener);
+    return () => {
+      eventEmitter.off(Events.HISTORY, historyListener);
+      window.removeEventListener('keydown', keydownListener);
+    };
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: sigma is stable
+  useEffect(() => {
+    if (!restoredNodes) return;
+    const graph = sigma.getGraph();
+    const nodes = Object.entries(restoredNodes);
+    // Running layout would move the nodes away from the restored positions
+    if (nodes.length > 0) useStore.getState().forceWorker.stop();
+    for (const [node, attributes] of nodes) {
+      if (graph.hasNode(node)) graph.mergeNodeAttributes(node, attributes);
+    }
+    resumeHistory();
+    setRestoredNodes(null);
+  }, [restoredNodes]);
+
+  return null;
+}
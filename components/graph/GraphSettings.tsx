@@ -1,8 +1,8 @@
 'use client';
 
 import { useSetSettings, useSigma } from '@react-sigma/core';
-import { useEffect, useState } from 'react';
-import { FADED_EDGE_COLOR, HIGHLIGHTED_EDGE_COLOR } from '@/lib/data';
+import { useEffect, useMemo, useState } from 'react';
+import { FADED_EDGE_COLOR, HIGHLIGHTED_EDGE_COLOR, SELECTED_EDGE_COLOR } from '@/lib/data';
 import { useStore } from '@/lib/hooks';
 import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
 import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
@@ -19,6 +19,36 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
   const selectedRadioNodeSize = useStore(state => state.selectedRadioNodeSize);
   const selectedNodeSizeProperty = useStore(state => state.selectedNodeSizeProperty);
   const highlightNeighborNodes = useStore(state => state.highlightNeighborNodes);
+  const communityMap = useStore(state => state.communityMap);
+  const collapsedCommunities = useStore(state => state.collapsedCommunities);
+  const hiddenGenes = useStore(state => state.hiddenGenes);
+  const shortestPaths = useStore(state => state.shortestPaths);
+  const highlightedPath = useStore(state => state.highlightedPath);
+  const selectionSets = useStore(state => state.selectionSets);
+  const activeSelectionSet = useStore(state => state.activeSelectionSet);
+  const selectedEdges = useStore(state => state.selectedEdges);
+
+  const collapsedGenes = useMemo(
+    () => new Set(collapsedCommunities.flatMap(id => communityMap[id]?.genes ?? [])),
+    [collapsedCommunities, communityMap],
+  );
+
+  const hiddenGeneSet = useMemo(() => new Set(hiddenGenes), [hiddenGenes]);
+
+  const pathElements = useMemo(() => {
+    const paths = highlightedPath === null ? (shortestPaths?.paths ?? []) : [shortestPaths?.paths[highlightedPath]];
+    return {
+      nodes: new Set(paths.flatMap(path => path?.nodes ?? [])),
+      edges: new Set(paths.flatMap(path => path?.edges ?? [])),
+    };
+  }, [shortestPaths, highlightedPath]);
+
+  const selectedEdgeSet = useMemo(() => new Set(selectedEdges), [selectedEdges]);
+
+  const activeSet = useMemo(() => {
+    const set = selectionSets.find(({ id }) => id === activeSelectionSet);
+    return { genes: new Set(set?.genes), color: set?.color };
+  }, [selectionSets, activeSelectionSet]);
 
   useEffect(() => {
     sigma.on('enterNode', e => setHoveredNode({ node: e.node, ctrlKey: e.event.original.ctrlKey }));
@@ -28,8 +58,9 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
   useEffect(() => {
     if (!sigma) return;
     eventEmitter.on(Events.VISIBLE_NODES, () => {
+      const { hiddenGenes } = useStore.getState();
       const visibleNodeGeneIds = sigma.getGraph().reduceNodes((acc, node, attr) => {
-        if (!attr.hidden) acc.add(node);
+        if (!attr.hidden && attr.collapsedCommunity === undefined && !hiddenGenes.includes(node)) acc.add(node);
         return acc;
       }, new Set<string>());
       eventEmitter.emit(Events.VISIBLE_NODES_RESULTS, {
@@ -37,8 +68,22 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
       } satisfies EventMessage[Events.VISIBLE_NODES_RESULTS]);
     });
 
+    eventEmitter.on(Events.NODE_CENTRALITY, () => {
+      const graph = sigma.getGraph();
+      const rows = graph
+        .filterNodes((_, attr) => attr.collapsedCommunity === undefined)
+        .map(node => {
+          const attr = graph.getNodeAttributes(node);
+          return { ID: node, geneName: attr.label ?? node, description: attr.description ?? '', ...attr.centrality };
+        });
+      eventEmitter.emit(Events.NODE_CENTRALITY_RESULTS, {
+        rows,
+      } satisfies EventMessage[Events.NODE_CENTRALITY_RESULTS]);
+    });
+
     return () => {
       eventEmitter.removeAllListeners(Events.VISIBLE_NODES);
+      eventEmitter.removeAllListeners(Events.NODE_CENTRALITY);
     };
   }, [sigma]);
 
@@ -85,6 +130,17 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
         if (!data.x) data.x = Math.random() * 1000;
         if (!data.y) data.y = Math.random() * 1000;
         if (!data.size) data.size = defaultNodeSize;
+        // Genes of collapsed communities are drawn as their community node, hiding their edges as well
+        if (collapsedGenes.has(node)) data.hidden = true;
+        // Genes hidden from the context menu stay hidden whatever the filters are
+        if (hiddenGeneSet.has(node)) data.hidden = true;
+        // Searched genes of the applied selection set are ringed with its color
+        if (activeSet.genes.has(node)) data.borderColor = activeSet.color;
+        if (pathElements.nodes.has(node)) {
+          data.highlighted = true;
+          data.forceLabel = true;
+          data.zIndex = 1;
+        }
         if (hoveredNode) {
           if (node === hoveredNode.node) {
             data.highlighted = true;
@@ -105,6 +161,19 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
         return data;
       },
       edgeReducer(edge, data) {
+        // Edges selected for removal in edit mode
+        if (selectedEdgeSet.has(edge)) {
+          data.color = SELECTED_EDGE_COLOR;
+          data.size = Math.max(data.size ?? 1, 3);
+          data.zIndex = 100;
+          return data;
+        }
+        if (pathElements.edges.has(edge)) {
+          data.color = HIGHLIGHTED_EDGE_COLOR;
+          data.size = Math.max(data.size ?? 1, 3);
+          data.zIndex = 100;
+          return data;
+        }
         if (hoveredNode) {
           if (graph.extremities(edge).includes(hoveredNode.node)) {
             data.color = HIGHLIGHTED_EDGE_COLOR;
@@ -116,7 +185,7 @@ export function GraphSettings({ clickedNodesRef }: { clickedNodesRef?: React.Ref
         return data;
       },
     });
-  }, [hoveredNode, setSettings, sigma]);
+  }, [hoveredNode, collapsedGenes, hiddenGeneSet, pathElements, activeSet, selectedEdgeSet, setSettings, sigma]);
 
   return null;
 }
@@ -1,27 +1,33 @@
 'use client';
 import { useLazyQuery } from '@apollo/client/react';
-import { useLoadGraph } from '@react-sigma/core';
+import { useLoadGraph, useSigma } from '@react-sigma/core';
 import Graph from 'graphology';
 import type { SerializedGraph } from 'graphology-types';
 import { AlertTriangleIcon } from 'lucide-react';
 import { useSearchParams } from 'next/navigation';
-import Papa from 'papaparse';
 import React from 'react';
 import { toast } from 'sonner';
-import { statisticsGenerator } from '@/lib/analytics';
 /******** only for testing with sample graph **************/
 // import { data as response } from '@/lib/data/sample-graph.json';
 import { GENE_GRAPH_QUERY, GENE_VERIFICATION_QUERY } from '@/lib/gql';
+import { guessColumnMapping, isNetworkFileFormat, parseEdgeList, parseNetworkFile } from '@/lib/graph';
 import { useStore } from '@/lib/hooks';
 import type {
+  ColumnMapping,
   EdgeAttributes,
   GeneGraphData,
   GeneGraphVariables,
   GeneVerificationData,
   GeneVerificationVariables,
   NodeAttributes,
+  ParsedNetwork,
+  ProjectArchive,
+  RadioOptions,
+  UploadedNetwork,
 } from '@/lib/interface';
-import { openDB } from '@/lib/utils';
+import { PROJECT_FILE_EXTENSION, readProjectArchive } from '@/lib/project';
+import { initRadioOptions, initUniversalData, openDB, parseUserValue, resolveUserProperty } from '@/lib/utils';
+import { computeNetworkStatistics } from '@/lib/workers';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +42,7 @@ import { Spinner } from '../ui/spinner';
 
 export function LoadGraph() {
   const searchParams = useSearchParams();
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
   const loadGraph = useLoadGraph<NodeAttributes, EdgeAttributes>();
   const graphConfig = JSON.parse(localStorage.getItem('graphConfig') || '{}');
   const [fetchData, { loading }] = useLazyQuery<GeneGraphData, GeneGraphVariables>(GENE_GRAPH_QUERY);
@@ -49,9 +56,10 @@ export function LoadGraph() {
       type: 'undirected',
     });
     const fileName = searchParams?.get('file');
+    let cancelStatistics: (() => void) | undefined;
     (async () => {
       if (fileName) {
-        const fileType = fileName.split('.').pop();
+        const fileType = fileName.split('.').pop()?.toLowerCase();
         const store = await openDB('network', 'readonly');
         if (!store) {
           toast.error('Error opening IndexedDB!', {
@@ -66,30 +74,92 @@ export function LoadGraph() {
         const req = store.get(fileName);
         req.onsuccess = async () => {
           if (abortController.signal.aborted) return;
-          const fileText = await (req.result as File).text();
+          // Older uploads were stored as plain files without any column mapping
+          const record = req.result as File | UploadedNetwork;
+          const file = record instanceof File ? record : record.file;
+          if (fileType === PROJECT_FILE_EXTENSION) {
+            let archive: ProjectArchive;
+            try {
+              archive = readProjectArchive(new Uint8Array(await file.arrayBuffer()));
+            } catch (error) {
+              console.error(error);
+              toast.error('Invalid project file!', {
+                description: 'The file is corrupted or saved by a newer version of TBEP',
+                cancel: {
+                  label: 'Close',
+                  onClick: () => window.close(),
+                },
+              });
+              return;
+            }
+            // Graph may have been closed while the file was read
+            if (abortController.signal.aborted) return;
+            // Store is restored before the graph so that analyses reacting to it run on the saved view
+            useStore.setState(archive.manifest.store);
+            // Subnetworks extracted by older versions were saved without an ID of their own
+            if (!useStore.getState().projectId) useStore.setState({ projectId: crypto.randomUUID() });
+            graph.import(archive.graph);
+            loadGraph(graph);
+            // Saved statistics are shown until the recomputed ones replace them
+            cancelStatistics = computeNetworkStatistics(sigma.getGraph());
+            return;
+          }
+          const fileText = await file.text();
+          if (abortController.signal.aborted) return;
           let fileData: Array<Record<string, string | number>>;
-          let fields: string[] = [];
-          if (fileType === 'json') {
-            fileData = JSON.parse(fileText);
-            fields = Object.entries(fileData?.[0] as object).reduce(
-              (prev, curr) => {
-                if (typeof curr[1] === 'number') prev[2] = curr[0];
-                else if (!prev[0]) prev[0] = curr[0];
-                else prev[1] = curr[0];
-                return prev;
-              },
-              [] as unknown as string[],
-            );
+          let mapping: ColumnMapping | null = record instanceof File ? null : (record.mapping ?? null);
+          // Node attributes of GraphML/GEXF keyed by gene identifier of the node
+          let nodeAttributes: Record<string, Record<string, string | number>> = {};
+          if (isNetworkFileFormat(fileType)) {
+            let network: ParsedNetwork;
+            try {
+              network = parseNetworkFile(fileText, fileType);
+            } catch (error) {
+              console.error(error);
+              toast.error(`Invalid ${fileType.toUpperCase()} file!`, {
+                description: 'Please check the file and try again',
+                cancel: {
+                  label: 'Close',
+                  onClick: () => window.close(),
+                },
+              });
+              return;
+            }
+            const nodeLabels = new Map(network.nodes.map(node => [node.id, node.label]));
+            nodeAttributes = Object.fromEntries(network.nodes.map(node => [node.label, node.attributes]));
+            const edgeAttributes = new Set(network.edges.flatMap(edge => Object.keys(edge.attributes)));
+            for (const column of ['source', 'target', 'score']) edgeAttributes.delete(column);
+            mapping = {
+              source: 'source',
+              target: 'target',
+              score: 'score',
+              edgeAttributes: Array.from(edgeAttributes),
+            };
+            fileData = network.edges.map(edge => ({
+              ...edge.attributes,
+              source: nodeLabels.get(edge.source) ?? edge.source,
+              target: nodeLabels.get(edge.target) ?? edge.target,
+              // GEXF defaults edge weight to 1.0, GraphML edges without weight are treated the same way
+              score: edge.weight ?? 1,
+            }));
           } else {
-            const parsedResult = Papa.parse<(typeof fileData)[0]>(fileText, {
-              header: true,
-              skipEmptyLines: true,
-              dynamicTyping: true,
-            });
-            fileData = parsedResult.data;
-            fields = parsedResult.meta.fields || [];
+            let fields: string[];
+            try {
+              ({ fields, rows: fileData } = parseEdgeList(fileText, fileType === 'json' ? 'json' : 'csv'));
+            } catch (error) {
+              console.error(error);
+              toast.error(`Invalid ${fileType?.toUpperCase()} file!`, {
+                description: 'Please check the file and try again',
+                cancel: {
+                  label: 'Close',
+                  onClick: () => window.close(),
+                },
+              });
+              return;
+            }
+            mapping ??= guessColumnMapping(fields, fileData);
           }
-          if (fields.length < 3) {
+          if (!mapping) {
             toast.error('There must be atleast 3 fields in csv/json!', {
               description: 'Fields more than 3 are ignored. Please check the file and try again',
               cancel: {
@@ -99,10 +169,10 @@ export function LoadGraph() {
             });
             return;
           }
-          const geneIDs = new Set<string>();
+          const geneIDs = new Set<string>(Object.keys(nodeAttributes));
           for (const gene of fileData) {
-            if (gene[fields?.[0]]) geneIDs.add(gene[fields?.[0]] as string);
-            if (gene[fields?.[1]]) geneIDs.add(gene[fields?.[1]] as string);
+            if (gene[mapping.source]) geneIDs.add(String(gene[mapping.source]));
+            if (gene[mapping.target]) geneIDs.add(String(gene[mapping.target]));
           }
           const geneIDArray = Array.from(geneIDs);
           const result = await fetchFileData({
@@ -120,7 +190,7 @@ export function LoadGraph() {
             });
             return;
           }
-          if (!result) return;
+          if (!result || abortController.signal.aborted) return;
           const geneNameToID = new Map<string, string>();
           const geneNames: string[] = [];
           for (const gene of result.data?.genes ?? []) {
@@ -142,26 +212,57 @@ export function LoadGraph() {
           };
 
           for (const gene of fileData) {
-            const source = getGeneID(gene[fields?.[0]] as string);
-            const target = getGeneID(gene[fields?.[1]] as string);
+            const source = getGeneID(String(gene[mapping.source] ?? ''));
+            const target = getGeneID(String(gene[mapping.target] ?? ''));
 
             if (!source || !target) continue;
+            const score = Number(gene[mapping.score]) || 0;
             graph.mergeEdgeWithKey(`${source}-${target}`, source, target, {
-              score: gene[fields?.[2]] as number,
-              label: gene[fields?.[2]].toString(),
+              score,
+              label: score.toString(),
+              ...(mapping.edgeAttributes.length > 0 && {
+                properties: Object.fromEntries(mapping.edgeAttributes.map(column => [column, gene[column] ?? ''])),
+              }),
             });
           }
           loadGraph(graph);
+          const { universalData, radioOptions } = useStore.getState();
+          const userProperties: RadioOptions['user'] = initRadioOptions();
+          for (const [gene, attributes] of Object.entries(nodeAttributes)) {
+            const geneID = getGeneID(gene);
+            if (!geneID || !graph.hasNode(geneID)) continue;
+            universalData[geneID] ??= initUniversalData();
+            for (const [attribute, value] of Object.entries(attributes)) {
+              // Attributes without a known property prefix are kept as generic node attributes
+              const resolved = resolveUserProperty(attribute) ?? { field: 'Attribute', property: attribute };
+              (universalData[geneID].user[resolved.field] as Record<string, string | number>)[resolved.property] =
+                parseUserValue(resolved.field, value);
+              if (!userProperties[resolved.field].includes(resolved.property)) {
+                userProperties[resolved.field].push(resolved.property);
+              }
+            }
+          }
           useStore.setState({
             geneNames,
             geneNameToID,
+            universalData,
+            radioOptions: {
+              ...radioOptions,
+              user: Object.fromEntries(
+                Object.entries(radioOptions.user).map(([field, properties]) => [
+                  field,
+                  Array.from(new Set([...properties, ...userProperties[field as keyof RadioOptions['user']]])),
+                ]),
+              ) as RadioOptions['user'],
+            },
             networkStatistics: {
+              ...useStore.getState().networkStatistics,
               totalNodes: graph.order,
               totalEdges: graph.size,
               averageClusteringCoefficient: Number.NaN,
-              ...statisticsGenerator(graph),
             },
           });
+          cancelStatistics = computeNetworkStatistics(sigma.getGraph());
         };
       } else {
         const result = await fetchData({
@@ -172,6 +273,7 @@ export function LoadGraph() {
             order: graphConfig.order,
           },
         });
+        if (abortController.signal.aborted) return;
         if (result.error) {
           console.error(result.error);
           alert('Error loading graph! Check console for errors');
@@ -228,12 +330,13 @@ export function LoadGraph() {
               geneNames: transformedData.nodes?.map(node => node.attributes?.label ?? node.key) || [],
               geneNameToID,
               networkStatistics: {
+                ...useStore.getState().networkStatistics,
                 totalNodes: graph.order,
                 totalEdges: graph.size,
                 averageClusteringCoefficient,
-                ...statisticsGenerator(graph),
               },
             });
+            cancelStatistics = computeNetworkStatistics(sigma.getGraph());
           }
         }
       }
@@ -245,6 +348,7 @@ export function LoadGraph() {
 
     return () => {
       abortController.abort();
+      cancelStatistics?.();
     };
   }, []);
 
@@ -0,0 +1,143 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { exportGeneGraph } from '@/lib/graph';
+import { beginHistory, commitHistory } from '@/lib/history';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, HistoryTransaction, NodeAttributes, ProjectSnapshot } from '@/lib/interface';
+import {
+  createProjectArchive,
+  PROJECT_STORE_KEYS,
+  pruneSavedProjects,
+  SNAPSHOT_STORE_KEYS,
+  saveProject,
+} from '@/lib/project';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+
+const AUTOSAVE_INTERVAL = 60_000;
+
+export function ProjectAutosave() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+  const savingRef = useRef(false);
+  // Whether the store or the graph changed since the last save, nothing is saved otherwise
+  const dirtyRef = useRef(true);
+  const [restoredSnapshot, setRestoredSnapshot] = useState<ProjectSnapshot | null>(null);
+  const restoreHistoryRef = useRef<HistoryTransaction | null>(null);
+
+  const autosave = async () => {
+    const graph = sigma.getGraph();
+    if (!graph.order || savingRef.current || !dirtyRef.current) return;
+    savingRef.current = true;
+    // Changes made while saving mark it dirty again
+    dirtyRef.current = false;
+    try {
+      const { projectId, projectTitle } = useStore.getState();
+      await saveProject({
+        id: projectId,
+        title: projectTitle,
+        updatedAt: Date.now(),
+        totalNodes: graph.order,
+        totalEdges: graph.size,
+        archive: await createProjectArchive(exportGeneGraph(graph)),
+      });
+      await pruneSavedProjects();
+    } catch (error) {
+      dirtyRef.current = true;
+      console.error('Autosave failed:', error);
+    } finally {
+      savingRef.current = false;
+    }
+  };
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: autosave only reads latest state
+  useEffect(() => {
+    // Opened projects replace this ID with their own while restoring
+    if (!useStore.getState().projectId) useStore.setState({ projectId: crypto.randomUUID() });
+    const markDirty = () => {
+      dirtyRef.current = true;
+    };
+    const unsubscribeStore = useStore.subscribe((state, prev) => {
+      if (PROJECT_STORE_KEYS.some(key => state[key] !== prev[key])) markDirty();
+    });
+    const graph = sigma.getGraph();
+    const graphEvents = [
+      'nodeAdded',
+      'edgeAdded',
+      'nodeDropped',
+      'edgeDropped',
+      'cleared',
+      'nodeAttributesUpdated',
+      'edgeAttributesUpdated',
+      'eachNodeAttributesUpdated',
+      'eachEdgeAttributesUpdated',
+    ] as const;
+    for (const event of graphEvents) graph.on(event, markDirty);
+    const interval = setInterval(autosave, AUTOSAVE_INTERVAL);
+    const visibilityListener = () => document.visibilityState === 'hidden' && autosave();
+    document.addEventListener('visibilitychange', visibilityListener);
+
+    const snapshotListener = (message: EventMessage[Events.SNAPSHOT]) => {
+      const graph = sigma.getGraph();
+      const state = useStore.getState();
+      if (message.action === 'create') {
+        const nodes: ProjectSnapshot['nodes'] = {};
+        graph.forEachNode((node, { x, y, color, community }) => {
+          nodes[node] = { x, y, color, community };
+        });
+        const snapshot: ProjectSnapshot = {
+          id: crypto.randomUUID(),
+          name: message.name,
+          createdAt: Date.now(),
+          nodes,
+          store: Object.fromEntries(SNAPSHOT_STORE_KEYS.map(key => [key, state[key]])) as ProjectSnapshot['store'],
+        };
+        useStore.setState({ snapshots: [...state.snapshots, snapshot] });
+        autosave();
+      } else {
+        const snapshot = state.snapshots.find(({ id }) => id === message.id);
+        if (!snapshot) return;
+        // Node attributes are applied after color/size analyses have reacted to the restored mapping
+        restoreHistoryRef.current = beginHistory(graph, `Restore snapshot "${snapshot.name}"`, {
+          keys: SNAPSHOT_STORE_KEYS,
+        });
+        useStore.setState(snapshot.store);
+        setRestoredSnapshot(snapshot);
+      }
+    };
+    eventEmitter.on(Events.SNAPSHOT, snapshotListener);
+    return () => {
+      clearInterval(interval);
+      unsubscribeStore();
+      for (const event of graphEvents) graph.off(event, markDirty);
+      document.removeEventListener('visibilitychange', visibilityListener);
+      eventEmitter.off(Events.SNAPSHOT, snapshotListener);
+    };
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: sigma is stable
+  useEffect(() => {
+    if (!restoredSnapshot) return;
+    // Running layout would move the nodes away from the restored positions
+    useStore.getState().forceWorker.stop();
+    sigma.getGraph().updateEachNodeAttributes((node, attr) => {
+      const saved = restoredSnapshot.nodes[node];
+      if (!saved) return attr;
+      // Assigned one by one as unset color/community are dropped from snapshots saved in project files
+      attr.x = saved.x;
+      attr.y = saved.y;
+      attr.color = saved.color;
+      attr.community = saved.community;
+      return attr;
+    });
+    if (restoreHistoryRef.current) commitHistory(sigma.getGraph(), restoreHistoryRef.current);
+    restoreHistoryRef.current = null;
+    toast.success(`Restored snapshot "${restoredSnapshot.name}"`, {
+      cancel: { label: 'Close', onClick() {} },
+    });
+    setRestoredSnapshot(null);
+  }, [restoredSnapshot]);
+
+  return null;
+}
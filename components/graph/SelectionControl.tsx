@@ -0,0 +1,42 @@
+'use client';
+
+import { LassoIcon, PentagonIcon, SquareDashedIcon } from 'lucide-react';
+import { useStore } from '@/lib/hooks';
+import type { SelectionMode } from '@/lib/interface';
+
+const SELECTION_MODES: Array<{ mode: SelectionMode; title: string; icon: React.ReactNode }> = [
+  { mode: 'box', title: 'Box Selection (Shift + Drag)', icon: <SquareDashedIcon /> },
+  { mode: 'lasso', title: 'Lasso Selection (Shift + Drag)', icon: <LassoIcon /> },
+  {
+    mode: 'polygon',
+    title: 'Polygon Selection (Shift + Click, then click to place vertices and the first one or Enter to close)',
+    icon: <PentagonIcon />,
+  },
+];
+
+export function SelectionControl() {
+  const selectionMode = useStore(state => state.selectionMode);
+
+  return (
+    <>
+      {SELECTION_MODES.map(({ mode, title, icon }) => (
+        <div
+          key={mode}
+          className='react-sigma-control'
+          // Active mode is shaded through the background variable of the controls
+          style={
+            selectionMode === mode ? ({ '--sigma-controls-background-color': '#e4e4e7' } as React.CSSProperties) : {}
+          }
+        >
+          <button
+            type='button'
+            onClick={() => useStore.setState({ selectionMode: mode })}
+            title={`${title}. Hold Ctrl to add to or Alt to remove from the selection`}
+          >
+            {icon}
+          </button>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useSigma } from '@react-sigma/core';
+import { fitViewportToNodes } from '@sigma/utils';
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { allShortestPaths, kShortestPaths } from '@/lib/graph';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, GenePath, NodeAttributes } from '@/lib/interface';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+
+export function ShortestPaths() {
+  const sigma = useSigma<NodeAttributes, EdgeAttributes>();
+  const shortestPaths = useStore(state => state.shortestPaths);
+  const highlightedPath = useStore(state => state.highlightedPath);
+
+  useEffect(() => {
+    const shortestPathListener = ({ genes, options }: EventMessage[Events.SHORTEST_PATH]) => {
+      const graph = sigma.getGraph();
+      const present = genes.filter(gene => graph.hasNode(gene));
+      const unknown = genes.filter(gene => !graph.hasNode(gene));
+      if (unknown.length > 0) {
+        toast.error(`${unknown.join(', ')} not found in the network`, {
+          description:
+            present.length < 2
+              ? 'At least two genes of the network are needed to find paths'
+              : 'Paths are searched between the remaining genes',
+          cancel: { label: 'Close', onClick() {} },
+        });
+        if (present.length < 2) return;
+      }
+      const paths: GenePath[] = [];
+      for (let i = 0; i < present.length; i++) {
+        for (let j = i + 1; j < present.length; j++) {
+          paths.push(
+            ...(options.k
+              ? kShortestPaths(graph, present[i], present[j], options.k, options.weighted)
+              : allShortestPaths(graph, present[i], present[j], options.weighted)),
+          );
+        }
+      }
+      if (paths.length === 0) {
+        toast.warning('No path found', {
+          description: 'The genes are not connected through the visible edges of the network',
+          cancel: { label: 'Close', onClick() {} },
+        });
+      }
+      useStore.setState({ shortestPaths: { genes: present, options, paths }, highlightedPath: null });
+    };
+    eventEmitter.on(Events.SHORTEST_PATH, shortestPathListener);
+    return () => {
+      eventEmitter.off(Events.SHORTEST_PATH, shortestPathListener);
+    };
+  }, [sigma]);
+
+  useEffect(() => {
+    if (!shortestPaths?.paths.length) return;
+    const paths = highlightedPath === null ? shortestPaths.paths : [shortestPaths.paths[highlightedPath]];
+    const nodes = Array.from(new Set(paths.flatMap(path => path?.nodes ?? []))).filter(node =>
+      sigma.getGraph().hasNode(node),
+    );
+    if (nodes.length) fitViewportToNodes(sigma, nodes, { animate: true });
+  }, [shortestPaths, highlightedPath, sigma]);
+
+  return null;
+}
@@ -17,12 +17,19 @@ import { NodeGradientProgram } from '@/lib/graph';
 import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
 import {
   ColorAnalysis,
+  CommunityCollapse,
+  EgoNetwork,
   ForceLayout,
   GraphAnalysis,
+  GraphContextMenu,
   GraphEvents,
   GraphExport,
+  GraphHistory,
   GraphSettings,
   LoadGraph,
+  ProjectAutosave,
+  SelectionControl,
+  ShortestPaths,
   SizeAnalysis,
   ZoomControl,
 } from '.';
@@ -88,7 +95,15 @@ export const SigmaContainer = React.forwardRef<
       <ColorAnalysis />
       <SizeAnalysis />
       <GraphAnalysis highlightedNodesRef={highlightedNodesRef} seedProximityNodesRef={seedProximityNodesRef} />
+      <CommunityCollapse />
+      <ShortestPaths />
+      <EgoNetwork />
+      <GraphContextMenu />
+      {/* Placed after the analyses so that restored snapshots and history are applied on top of them */}
+      <ProjectAutosave />
+      <GraphHistory />
       <ControlsContainer position='bottom-right' style={{ zIndex: 0 }}>
+        <SelectionControl />
         <ZoomControl />
         <FullScreenControl labels={{ enter: 'ENTER', exit: 'EXIT' }}>
           <MaximizeIcon />
@@ -3,9 +3,10 @@
 import { useSigma } from '@react-sigma/core';
 import { scaleLinear } from 'd3-scale';
 import { useEffect } from 'react';
+import { PROPAGATION_PROPERTY, TOPOLOGY_PROPERTIES, type TopologyProperty } from '@/lib/data';
 import { useStore } from '@/lib/hooks';
 import type { EdgeAttributes, NodeAttributes, OtherSection } from '@/lib/interface';
-import { P_VALUE_REGEX } from '@/lib/utils';
+import { getTopologyValue, P_VALUE_REGEX } from '@/lib/utils';
 
 export function SizeAnalysis() {
   const selectedRadioNodeSize = useStore(state => state.selectedRadioNodeSize);
@@ -15,6 +16,13 @@ export function SizeAnalysis() {
   const defaultNodeSize = useStore(state => state.defaultNodeSize);
   const diseaseName = useStore(state => state.diseaseName);
   const radioOptions = useStore(state => state.radioOptions);
+  const propagation = useStore(state => state.propagation);
+  // Centralities are filled by the statistics worker, topology sizes are refreshed once the metric is done
+  const topologyStatus = useStore(state =>
+    state.selectedRadioNodeSize === 'Topology' && typeof state.selectedNodeSizeProperty === 'string'
+      ? state.networkStatisticsProgress[TOPOLOGY_PROPERTIES[state.selectedNodeSizeProperty as TopologyProperty]]
+      : undefined,
+  );
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
@@ -29,7 +37,7 @@ export function SizeAnalysis() {
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
   useEffect(() => {
-    if (!selectedNodeSizeProperty || !graph || !selectedRadioNodeSize) return;
+    if (!selectedNodeSizeProperty || !graph || !selectedRadioNodeSize || selectedRadioNodeSize === 'Topology') return;
     const isUserProperty =
       typeof selectedNodeSizeProperty === 'string' &&
       radioOptions.user[selectedRadioNodeSize].includes(selectedNodeSizeProperty);
@@ -137,8 +145,52 @@ export function SizeAnalysis() {
         else attr.size = 0.5;
         return attr;
       });
+    } else if (selectedRadioNodeSize === 'Attribute' && typeof selectedNodeSizeProperty === 'string') {
+      // Textual values are left out, only numeric attributes are offered for node size
+      const minMax = Object.values(universalData).reduce(
+        (acc, cur) => {
+          const value = cur.user.Attribute?.[selectedNodeSizeProperty];
+          if (typeof value !== 'number' || Number.isNaN(value)) return acc;
+          return [Math.min(acc[0], value), Math.max(acc[1], value)];
+        },
+        [Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY],
+      );
+      const sizeScale = scaleLinear<number, number>(minMax, [3, defaultNodeSize + 10]);
+      graph.updateEachNodeAttributes((node, attr) => {
+        const val = universalData[node]?.user.Attribute?.[selectedNodeSizeProperty];
+        if (typeof val === 'number' && !Number.isNaN(val)) attr.size = sizeScale(val);
+        else attr.size = 0.5;
+        return attr;
+      });
     }
   }, [selectedNodeSizeProperty, graph, universalData, defaultNodeSize]);
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: I won't write reason
+  useEffect(() => {
+    if (!graph || selectedRadioNodeSize !== 'Topology' || typeof selectedNodeSizeProperty !== 'string') return;
+    if (
+      !TOPOLOGY_PROPERTIES[selectedNodeSizeProperty as TopologyProperty] &&
+      selectedNodeSizeProperty !== PROPAGATION_PROPERTY
+    )
+      return;
+    const topologyValue = (attr: NodeAttributes) =>
+      getTopologyValue(attr, selectedNodeSizeProperty) as number | undefined;
+    const minMax = graph.reduceNodes(
+      (acc, _node, attr) => {
+        const value = topologyValue(attr);
+        if (value === undefined || Number.isNaN(value)) return acc;
+        return [Math.min(acc[0], value), Math.max(acc[1], value)];
+      },
+      [Number.POSITIVE_INFINITY, Number.NEGATIVE_INFINITY],
+    );
+    const sizeScale = scaleLinear<number, number>(minMax, [3, defaultNodeSize + 10]);
+    graph.updateEachNodeAttributes((_node, attr) => {
+      const val = topologyValue(attr);
+      if (val !== undefined && !Number.isNaN(val)) attr.size = sizeScale(val);
+      else attr.size = 0.5;
+      return attr;
+    });
+  }, [selectedNodeSizeProperty, graph, defaultNodeSize, topologyStatus, propagation]);
+
   return null;
 }
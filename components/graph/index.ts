@@ -1,10 +1,17 @@
 export * from './ColorAnalysis';
+export * from './CommunityCollapse';
+export * from './EgoNetwork';
 export * from './ForceLayout';
 export * from './GraphAnalysis';
+export * from './GraphContextMenu';
 export * from './GraphEvents';
 export * from './GraphExport';
+export * from './GraphHistory';
 export * from './GraphSettings';
 export * from './LoadGraph';
+export * from './ProjectAutosave';
+export * from './SelectionControl';
+export * from './ShortestPaths';
 export * from './SigmaContainer';
 export * from './SizeAnalysis';
 export * from './ZoomControl';
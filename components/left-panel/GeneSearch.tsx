@@ -94,7 +94,7 @@ export function GeneSearch() {
         <button
           type='button'
           className='cursor-pointer text-xs text-zinc-500 underline'
-          onClick={() => useStore.setState({ nodeSearchQuery: geneIDs.join('\n') })}
+          onClick={() => useStore.setState({ nodeSearchQuery: geneIDs.join('\n'), activeSelectionSet: null })}
         >
           #Seed Genes
         </button>
@@ -119,7 +119,7 @@ export function GeneSearch() {
           className='min-h-20 bg-white text-xs'
           value={nodeSearchQuery}
           onChange={e => {
-            useStore.setState({ nodeSearchQuery: e.target.value });
+            useStore.setState({ nodeSearchQuery: e.target.value, activeSelectionSet: null });
             updateCursorPosition();
           }}
           onKeyDown={handleKeyDown}
@@ -0,0 +1,112 @@
+'use client';
+
+import { ChevronsUpDownIcon, Redo2Icon, Undo2Icon } from 'lucide-react';
+import { useStore } from '@/lib/hooks';
+import { cn, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { Label } from '../ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+export function HistoryList() {
+  const history = useStore(state => state.history);
+  const historyIndex = useStore(state => state.historyIndex);
+
+  const travel = (message: EventMessage[Events.HISTORY]) => eventEmitter.emit(Events.HISTORY, message);
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <Label className='font-bold'>History</Label>
+        <div className='flex items-center gap-1'>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                type='button'
+                variant='outline'
+                size='icon'
+                className='size-6'
+                disabled={historyIndex === 0}
+                onClick={() => travel({ action: 'undo' })}
+              >
+                <Undo2Icon size={15} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Undo (Ctrl + Z)</TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                type='button'
+                variant='outline'
+                size='icon'
+                className='size-6'
+                disabled={historyIndex === history.length}
+                onClick={() => travel({ action: 'redo' })}
+              >
+                <Redo2Icon size={15} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Redo (Ctrl + Shift + Z)</TooltipContent>
+          </Tooltip>
+          <CollapsibleTrigger asChild>
+            <Button type='button' variant='outline' size='icon' className='size-6'>
+              <ChevronsUpDownIcon size={15} />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+      </div>
+      <CollapsibleContent className='mt-2'>
+        {history.length > 0 ? (
+          <ol className='ml-1 max-h-48 overflow-y-auto border-l'>
+            {/* Clicking an entry undoes or redoes everything up to it */}
+            {[...history].reverse().map((entry, idx) => {
+              const index = history.length - idx;
+              return (
+                <li key={entry.id} className='relative ml-2'>
+                  <span
+                    className={cn(
+                      '-left-3 absolute top-1.5 size-2 rounded-full',
+                      index === historyIndex ? 'bg-teal-600' : 'bg-zinc-300',
+                    )}
+                  />
+                  <button
+                    type='button'
+                    className={cn(
+                      'w-full cursor-pointer rounded px-1 text-left text-xs hover:bg-zinc-100',
+                      index > historyIndex && 'text-zinc-400 line-through',
+                    )}
+                    onClick={() => travel({ action: 'goto', index })}
+                  >
+                    <p className={cn('truncate', index === historyIndex && 'font-semibold')}>{entry.label}</p>
+                    <p className='text-zinc-500'>{new Date(entry.updatedAt).toLocaleTimeString()}</p>
+                  </button>
+                </li>
+              );
+            })}
+            <li className='relative ml-2'>
+              <span
+                className={cn(
+                  '-left-3 absolute top-1.5 size-2 rounded-full',
+                  historyIndex === 0 ? 'bg-teal-600' : 'bg-zinc-300',
+                )}
+              />
+              <button
+                type='button'
+                className={cn(
+                  'w-full cursor-pointer rounded px-1 text-left text-xs italic hover:bg-zinc-100',
+                  historyIndex === 0 && 'font-semibold',
+                )}
+                onClick={() => travel({ action: 'goto', index: 0 })}
+              >
+                Initial state
+              </button>
+            </li>
+          </ol>
+        ) : (
+          <p className='text-center text-xs italic'>No changes yet</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -16,14 +16,14 @@ import type {
   OtherSection,
   RadioOptions,
 } from '@/lib/interface';
-import { envURL, genePropertyCategoryEnumToString, selectedRadioStringToEnum } from '@/lib/utils';
+import { envURL, genePropertyCategoryEnumToString, initUniversalData, selectedRadioStringToEnum } from '@/lib/utils';
 import { Export, FileSheet, MouseControlMessage } from '../app';
 import { DiseaseMapCombobox } from '../DiseaseMapCombobox';
 import { Label } from '../ui/label';
 import { ScrollArea } from '../ui/scroll-area';
 import { Spinner } from '../ui/spinner';
 import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
-import { GeneSearch, NodeColor, NodeSize } from '.';
+import { GeneSearch, HistoryList, NodeColor, NodeSize, SelectionSets, SnapshotTimeline } from '.';
 
 export function LeftSideBar() {
   const diseaseName = useStore(state => state.diseaseName);
@@ -95,24 +95,7 @@ export function LeftSideBar() {
     const universalData = useStore.getState().universalData;
     for (const gene of geneIds) {
       if (universalData[gene] === undefined) {
-        universalData[gene] = {
-          common: {
-            Custom_Color: {},
-            OT_Prioritization: {},
-            Druggability: {},
-            Pathway: {},
-            TE: {},
-          },
-          user: {
-            DEG: {},
-            OpenTargets: {},
-            Custom_Color: {},
-            Druggability: {},
-            Pathway: {},
-            TE: {},
-            OT_Prioritization: {},
-          },
-        };
+        universalData[gene] = initUniversalData();
       }
     }
   }, [geneIds]);
@@ -128,6 +111,13 @@ export function LeftSideBar() {
   async function handlePropChange(val: string | Set<string>, type: 'color' | 'size') {
     const selectedRadio = type === 'color' ? selectedRadioNodeColor : selectedRadioNodeSize;
     if (!selectedRadio) return;
+    // Topology is read from the node centralities computed locally
+    if (selectedRadio === 'Topology') {
+      useStore.setState({
+        [type === 'color' ? 'selectedNodeColorProperty' : 'selectedNodeSizeProperty']: val,
+      });
+      return;
+    }
     const ddp = DISEASE_DEPENDENT_PROPERTIES.includes(selectedRadio as DiseaseDependentProperties);
     const properties = (val instanceof Set ? Array.from(val) : [val]).reduce<string[]>((acc, property) => {
       const key = `${ddp ? `${diseaseName}_` : ''}${selectedRadio}_${property}`;
@@ -257,6 +247,9 @@ export function LeftSideBar() {
         <GeneSearch />
         <FileSheet />
       </div>
+      <SelectionSets />
+      <SnapshotTimeline />
+      <HistoryList />
     </ScrollArea>
   );
 }
@@ -1,5 +1,12 @@
 import { ChevronsUpDownIcon, InfoIcon, RefreshCcwIcon } from 'lucide-react';
-import { type NodeColorType, nodeColor, PROPERTY_LABEL_TYPE_MAPPING } from '@/lib/data';
+import {
+  COMMUNITY_PROPERTY,
+  type NodeColorType,
+  nodeColor,
+  PROPAGATION_PROPERTY,
+  PROPERTY_LABEL_TYPE_MAPPING,
+  TOPOLOGY_PROPERTIES,
+} from '@/lib/data';
 import { useStore } from '@/lib/hooks';
 import { Button } from '../ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
@@ -80,7 +87,11 @@ export function NodeColor({ onPropChange }: { onPropChange: (prop: string | Set<
           ) : (
             <Combobox
               key={radioValue}
-              data={[...radioOptions.database[radioValue], ...radioOptions.user[radioValue]]}
+              data={
+                radioValue === 'Topology'
+                  ? [...Object.keys(TOPOLOGY_PROPERTIES), COMMUNITY_PROPERTY, PROPAGATION_PROPERTY]
+                  : [...radioOptions.database[radioValue], ...radioOptions.user[radioValue]]
+              }
               className='mt-2 w-full'
               value={selectedNodeColorProperty}
               onChange={onPropChange}
@@ -1,6 +1,13 @@
 import { ChevronsUpDownIcon, InfoIcon, RefreshCcwIcon } from 'lucide-react';
-import { type NodeSizeType, nodeSize, PROPERTY_LABEL_TYPE_MAPPING } from '@/lib/data';
+import {
+  type NodeSizeType,
+  nodeSize,
+  PROPAGATION_PROPERTY,
+  PROPERTY_LABEL_TYPE_MAPPING,
+  TOPOLOGY_PROPERTIES,
+} from '@/lib/data';
 import { useStore } from '@/lib/hooks';
+import { attributeCategories } from '@/lib/utils';
 import { Button } from '../ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
 import { Combobox } from '../ui/combobox';
@@ -13,6 +20,7 @@ export function NodeSize({ onPropChange }: { onPropChange: (prop: string | Set<s
   const radioValue = useStore(state => state.selectedRadioNodeSize);
   const radioOptions = useStore(state => state.radioOptions);
   const selectedNodeSizeProperty = useStore(state => state.selectedNodeSizeProperty);
+  const universalData = useStore(state => state.universalData);
 
   return (
     <Collapsible defaultOpen className='rounded border p-2 shadow-sm'>
@@ -84,7 +92,13 @@ export function NodeSize({ onPropChange }: { onPropChange: (prop: string | Set<s
           ) : (
             <Combobox
               key={radioValue}
-              data={[...radioOptions.database[radioValue], ...radioOptions.user[radioValue]]}
+              data={
+                radioValue === 'Topology'
+                  ? [...Object.keys(TOPOLOGY_PROPERTIES), PROPAGATION_PROPERTY]
+                  : radioValue === 'Attribute'
+                    ? radioOptions.user.Attribute.filter(property => !attributeCategories(universalData, property))
+                    : [...radioOptions.database[radioValue], ...radioOptions.user[radioValue]]
+              }
               className='mt-2 w-full'
               value={selectedNodeSizeProperty}
               onChange={onPropChange}
@@ -0,0 +1,252 @@
+'use client';
+
+import { BookmarkPlusIcon, ChevronsUpDownIcon, DownloadIcon, SearchIcon, Trash2Icon } from 'lucide-react';
+import Papa from 'papaparse';
+import React from 'react';
+import { formatGMT } from '@/lib/enrichment';
+import { useStore } from '@/lib/hooks';
+import type { SelectionSet, SelectionSetOperation } from '@/lib/interface';
+import { communityColor, defaultSetName, downloadFile } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+const SET_COLORS = ['black', 'hotpink', 'orange', 'yellow', 'limegreen', 'aquamarine', 'skyblue', 'darkorchid', 'blue'];
+
+const OPERATIONS: Array<{ operation: SelectionSetOperation; label: string; symbol: string }> = [
+  { operation: 'union', label: 'Union', symbol: '∪' },
+  { operation: 'intersection', label: 'Intersection', symbol: '∩' },
+  { operation: 'difference', label: 'Difference', symbol: '−' },
+];
+
+/**
+ * Genes of the combined sets, in the order of the first set followed by the genes new to it
+ */
+function combineSets(sets: SelectionSet[], operation: SelectionSetOperation) {
+  const [first, ...rest] = sets.map(({ genes }) => new Set(genes));
+  if (operation === 'union') return Array.from(new Set(sets.flatMap(({ genes }) => genes)));
+  if (operation === 'intersection') return Array.from(first).filter(gene => rest.every(set => set.has(gene)));
+  return Array.from(first).filter(gene => rest.every(set => !set.has(gene)));
+}
+
+export function SelectionSets() {
+  const selectionSets = useStore(state => state.selectionSets);
+  const selectedNodes = useStore(state => state.selectedNodes);
+  const activeSelectionSet = useStore(state => state.activeSelectionSet);
+  const geneNameToID = useStore(state => state.geneNameToID);
+  const [name, setName] = React.useState('');
+  const [checked, setChecked] = React.useState<string[]>([]);
+
+  const idToName = React.useMemo(
+    () => new Map(Array.from(geneNameToID, ([geneName, ID]) => [ID, geneName])),
+    [geneNameToID],
+  );
+  const geneNames = (set: SelectionSet) => set.genes.map(gene => idToName.get(gene) ?? gene);
+
+  const addSet = (setName: string, genes: string[]) => {
+    const set: SelectionSet = {
+      id: crypto.randomUUID(),
+      name: setName,
+      color: communityColor(selectionSets.length),
+      genes,
+      createdAt: Date.now(),
+    };
+    useStore.setState({ selectionSets: [...selectionSets, set] });
+  };
+
+  const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    addSet(
+      name.trim() || defaultSetName(selectionSets),
+      selectedNodes.map(({ ID }) => ID),
+    );
+    setName('');
+  };
+
+  const handleCombine = (operation: SelectionSetOperation, symbol: string) => {
+    // Sets are combined in the order of the list, difference keeps the genes of the upper one
+    const sets = selectionSets.filter(({ id }) => checked.includes(id));
+    addSet(sets.map(set => set.name).join(` ${symbol} `), combineSets(sets, operation));
+    setChecked([]);
+  };
+
+  const handleApply = (set: SelectionSet) => {
+    useStore.setState({ nodeSearchQuery: geneNames(set).join('\n'), activeSelectionSet: set.id });
+  };
+
+  const updateSet = (id: string, update: Partial<SelectionSet>) => {
+    useStore.setState({ selectionSets: selectionSets.map(set => (set.id === id ? { ...set, ...update } : set)) });
+  };
+
+  const handleDelete = (id: string) => {
+    useStore.setState({
+      selectionSets: selectionSets.filter(set => set.id !== id),
+      ...(activeSelectionSet === id && { activeSelectionSet: null }),
+    });
+    setChecked(prev => prev.filter(checkedId => checkedId !== id));
+  };
+
+  const handleExport = (format: 'gmt' | 'csv') => {
+    const { projectTitle } = useStore.getState();
+    const fileName = `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}selection_sets.${format}`;
+    if (format === 'gmt') {
+      downloadFile(
+        formatGMT(selectionSets.map(set => ({ term: set.name, genes: geneNames(set) }))),
+        fileName,
+        'text/plain',
+      );
+      return;
+    }
+    const csv = Papa.unparse(
+      selectionSets.flatMap(set =>
+        set.genes.map(gene => ({ set: set.name, color: set.color, geneName: idToName.get(gene) ?? '', ID: gene })),
+      ),
+    );
+    downloadFile(csv, fileName);
+  };
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <Label className='font-bold'>Selection Sets</Label>
+        <div className='flex items-center gap-1'>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                type='button'
+                variant='outline'
+                size='icon'
+                className='size-6'
+                title='Export Selection Sets'
+                disabled={selectionSets.length === 0}
+              >
+                <DownloadIcon size={15} />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => handleExport('gmt')}>GMT</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <CollapsibleTrigger asChild>
+            <Button type='button' variant='outline' size='icon' className='size-6'>
+              <ChevronsUpDownIcon size={15} />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+      </div>
+      <CollapsibleContent className='mt-2 flex flex-col gap-2'>
+        <form onSubmit={handleSave} className='flex items-center gap-1'>
+          <Input
+            className='h-7 text-xs'
+            placeholder={defaultSetName(selectionSets)}
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                type='submit'
+                variant='outline'
+                size='icon'
+                className='size-7 shrink-0'
+                disabled={selectedNodes.length === 0}
+              >
+                <BookmarkPlusIcon size={15} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Save the selected genes ({selectedNodes.length}) as a set</TooltipContent>
+          </Tooltip>
+        </form>
+        {selectionSets.length > 0 ? (
+          <ul className='flex flex-col gap-1'>
+            {selectionSets.map(set => (
+              <li key={set.id} className='flex items-center justify-between gap-1'>
+                <div className='flex min-w-0 items-center gap-1.5'>
+                  <Checkbox
+                    checked={checked.includes(set.id)}
+                    onCheckedChange={value =>
+                      setChecked(prev => (value === true ? [...prev, set.id] : prev.filter(id => id !== set.id)))
+                    }
+                  />
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button
+                        type='button'
+                        title='Change color'
+                        className='size-3.5 shrink-0 cursor-pointer rounded-full border'
+                        style={{ backgroundColor: set.color }}
+                      />
+                    </PopoverTrigger>
+                    <PopoverContent className='flex w-36 flex-wrap gap-1' align='start'>
+                      {SET_COLORS.map(color => (
+                        <button
+                          type='button'
+                          key={color}
+                          style={{ background: color }}
+                          onClick={() => updateSet(set.id, { color })}
+                          className='size-6 cursor-pointer rounded-md hover:scale-105'
+                        />
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                  <p className={`truncate text-xs ${activeSelectionSet === set.id ? 'font-bold' : 'font-semibold'}`}>
+                    {set.name} <span className='font-normal text-zinc-500'>({set.genes.length})</span>
+                  </p>
+                </div>
+                <div className='flex shrink-0 items-center'>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type='button'
+                        variant='ghost'
+                        size='icon'
+                        className='size-6'
+                        onClick={() => handleApply(set)}
+                      >
+                        <SearchIcon size={14} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Highlight the genes through the gene search</TooltipContent>
+                  </Tooltip>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    size='icon'
+                    className='size-6'
+                    onClick={() => handleDelete(set.id)}
+                  >
+                    <Trash2Icon size={14} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className='text-center text-xs italic'>Select genes with Shift + Drag, then save them as a set</p>
+        )}
+        {checked.length > 1 && (
+          <div className='flex flex-wrap justify-center gap-1'>
+            {OPERATIONS.map(({ operation, label, symbol }) => (
+              <Button
+                key={operation}
+                type='button'
+                variant='outline'
+                size='sm'
+                className='h-6 text-xs'
+                onClick={() => handleCombine(operation, symbol)}
+              >
+                {symbol} {label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { CameraIcon, ChevronsUpDownIcon, HistoryIcon, Trash2Icon } from 'lucide-react';
+import React from 'react';
+import { useStore } from '@/lib/hooks';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+export function SnapshotTimeline() {
+  const snapshots = useStore(state => state.snapshots);
+  const [name, setName] = React.useState('');
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    eventEmitter.emit(Events.SNAPSHOT, {
+      action: 'create',
+      name: name.trim() || `Snapshot ${snapshots.length + 1}`,
+    } satisfies EventMessage[Events.SNAPSHOT]);
+    setName('');
+  };
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <Label className='font-bold'>Snapshots</Label>
+        <CollapsibleTrigger asChild>
+          <Button type='button' variant='outline' size='icon' className='size-6'>
+            <ChevronsUpDownIcon size={15} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className='mt-2 flex flex-col gap-2'>
+        <form onSubmit={handleCreate} className='flex items-center gap-1'>
+          <Input
+            className='h-7 text-xs'
+            placeholder={`Snapshot ${snapshots.length + 1}`}
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button type='submit' variant='outline' size='icon' className='size-7 shrink-0'>
+                <CameraIcon size={15} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Take snapshot of layout, filters, color/size mapping and communities</TooltipContent>
+          </Tooltip>
+        </form>
+        {snapshots.length > 0 ? (
+          <ol className='ml-1 border-l'>
+            {[...snapshots].reverse().map(snapshot => (
+              <li key={snapshot.id} className='relative mb-1 ml-2 flex items-center justify-between gap-1'>
+                <span className='-left-3 absolute top-1 size-2 rounded-full bg-teal-600' />
+                <div className='min-w-0 text-xs'>
+                  <p className='truncate font-semibold'>{snapshot.name}</p>
+                  <p className='text-zinc-500'>{new Date(snapshot.createdAt).toLocaleString()}</p>
+                </div>
+                <div className='flex shrink-0 items-center'>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type='button'
+                        variant='ghost'
+                        size='icon'
+                        className='size-6'
+                        onClick={() =>
+                          eventEmitter.emit(Events.SNAPSHOT, {
+                            action: 'restore',
+                            id: snapshot.id,
+                          } satisfies EventMessage[Events.SNAPSHOT])
+                        }
+                      >
+                        <HistoryIcon size={14} />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Roll back to this snapshot</TooltipContent>
+                  </Tooltip>
+                  <Button
+                    type='button'
+                    variant='ghost'
+                    size='icon'
+                    className='size-6'
+                    onClick={() => useStore.setState({ snapshots: snapshots.filter(({ id }) => id !== snapshot.id) })}
+                  >
+                    <Trash2Icon size={14} />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className='text-center text-xs italic'>No snapshots taken yet</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,4 +1,7 @@
 export * from './GeneSearch';
+export * from './HistoryList';
 export * from './LeftSideBar';
 export * from './NodeColor';
 export * from './NodeSize';
+export * from './SelectionSets';
+export * from './SnapshotTimeline';
@@ -0,0 +1,27 @@
+'use client';
+
+export function CategoricalLegend({
+  title,
+  items,
+}: {
+  title?: string;
+  items: Array<{ label: string; color: string }>;
+}) {
+  return (
+    <div className='w-full'>
+      {title && <p className='mb-1 text-center font-semibold'>{title}</p>}
+      {items.length > 0 ? (
+        <ul className='grid max-h-48 grid-cols-2 gap-x-2 gap-y-1 overflow-y-auto'>
+          {items.map(({ label, color }) => (
+            <li key={label} className='flex min-w-0 items-center gap-1'>
+              <span className='size-3 shrink-0 rounded-full' style={{ backgroundColor: color }} />
+              <span className='truncate'>{label}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className='text-center italic'>No categories available</p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 export * from './AssociationScoreLegend';
 export * from './BinaryLegend';
+export * from './CategoricalLegend';
 export * from './HeatMapLegend';
 export * from './PrioritizationIndicatorLegend';
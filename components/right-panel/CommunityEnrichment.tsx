@@ -0,0 +1,135 @@
+'use client';
+
+import { FlaskConicalIcon } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { overRepresentation, TOP_TERMS } from '@/lib/enrichment';
+import { useGeneSets, useStore } from '@/lib/hooks';
+import type { EventMessage, Events } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { ScrollArea } from '../ui/scroll-area';
+import { Spinner } from '../ui/spinner';
+
+export function CommunityEnrichment({
+  communities,
+}: {
+  communities: EventMessage[Events.ALGORITHM_RESULTS]['communities'];
+}) {
+  const communityEnrichment = useStore(state => state.communityEnrichment);
+  const [enriching, setEnriching] = useState<string | null>(null);
+  const loadGeneSets = useGeneSets();
+
+  const handleEnrich = async (names: string[], label: string) => {
+    setEnriching(label);
+    try {
+      const { library, geneNames } = await loadGeneSets();
+      if (Object.keys(library).length === 0) {
+        toast.error('No gene sets available', {
+          cancel: { label: 'Close', onClick() {} },
+          description: 'Upload GMT files or Pathway_ columns from the left panel to enrich with custom gene sets',
+        });
+        return;
+      }
+      const universe = Array.from(geneNames.values(), name => name.toUpperCase());
+      const enrichment = { ...useStore.getState().communityEnrichment };
+      for (const { name, genes } of communities.filter(({ name }) => names.includes(name))) {
+        enrichment[name] = overRepresentation(
+          genes.map(gene => gene.toUpperCase()),
+          library,
+          { universe },
+        );
+      }
+      useStore.setState({ communityEnrichment: enrichment });
+    } catch (error) {
+      console.error(error);
+      toast.error('Failed to run enrichment', {
+        cancel: { label: 'Close', onClick() {} },
+        description: 'Please try again later',
+      });
+    } finally {
+      setEnriching(null);
+    }
+  };
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <div className='flex items-center justify-between gap-2'>
+        <p className='text-xs'>
+          Over-representation of pathways and uploaded gene sets in every community against all the genes of the
+          network, *FDR is the Benjamini-Hochberg adjusted p-value
+        </p>
+        <Button
+          size='sm'
+          disabled={!!enriching}
+          onClick={() =>
+            handleEnrich(
+              communities.map(({ name }) => name),
+              'all',
+            )
+          }
+        >
+          {enriching === 'all' ? (
+            <Spinner size='small' className='size-3.5 text-primary-foreground' />
+          ) : (
+            <FlaskConicalIcon size={14} />
+          )}
+          Enrich All
+        </Button>
+      </div>
+      <ScrollArea className='h-[55vh]'>
+        <div className='flex flex-col gap-2 pr-2'>
+          {communities.map(({ name, color, genes }) => {
+            const results = communityEnrichment[name];
+            return (
+              <div key={name} className='rounded border p-2 text-xs'>
+                <div className='flex items-center justify-between'>
+                  <div className='inline-flex items-center gap-2 font-semibold'>
+                    <span className='size-3 rounded-full' style={{ backgroundColor: color }} />
+                    {name} ({genes.length} genes)
+                  </div>
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    className='h-6'
+                    disabled={!!enriching}
+                    onClick={() => handleEnrich([name], name)}
+                  >
+                    {enriching === name ? <Spinner size='small' className='size-3' /> : <FlaskConicalIcon size={12} />}
+                    Enrich
+                  </Button>
+                </div>
+                {results &&
+                  (results.length === 0 ? (
+                    <p className='mt-1 italic'>No overlapping terms</p>
+                  ) : (
+                    <table className='mt-1 w-full'>
+                      <thead>
+                        <tr className='text-left'>
+                          <th>Term</th>
+                          <th className='w-20 text-center'>Overlap</th>
+                          <th className='w-20 text-center'>FDR</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.slice(0, TOP_TERMS).map(({ term, genes, setSize, adjustedPValue }) => (
+                          <tr key={term} title={genes.join(', ')}>
+                            <td className='break-all'>{term}</td>
+                            <td className='text-center'>
+                              {genes.length}/{setSize}
+                            </td>
+                            <td className={`text-center ${adjustedPValue <= 0.05 ? 'font-semibold' : ''}`}>
+                              {adjustedPValue.toExponential(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
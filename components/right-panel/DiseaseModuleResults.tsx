@@ -0,0 +1,87 @@
+'use client';
+
+import { DownloadIcon } from 'lucide-react';
+import Papa from 'papaparse';
+import { useEffect, useState } from 'react';
+import { columnDiseaseModule } from '@/lib/data';
+import { useStore } from '@/lib/hooks';
+import { DIAMOND_ALGORITHM } from '@/lib/propagation';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { DataTable } from '../ui/data-table';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
+
+export function DiseaseModuleResults() {
+  const diseaseModule = useStore(state => state.diseaseModule);
+  const [showTable, setShowTable] = useState(false);
+
+  useEffect(() => {
+    const escapeListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setShowTable(false);
+    };
+    document.addEventListener('keydown', escapeListener);
+    return () => document.removeEventListener('keydown', escapeListener);
+  }, []);
+
+  if (!diseaseModule) return null;
+
+  const handleExport = () => {
+    const { projectTitle } = useStore.getState();
+    const csv = Papa.unparse(
+      diseaseModule.genes.map(({ ID, geneName, connectivity, degree, pValue }, idx) => ({
+        order: idx + 1,
+        geneName,
+        ID,
+        linksToModule: connectivity,
+        degree,
+        pValue,
+      })),
+    );
+    downloadFile(csv, `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}disease_module.csv`);
+  };
+
+  return (
+    <>
+      <hr className='mb-1' />
+      <p className='font-semibold text-sm underline'>Disease Module:</p>
+      <p>
+        <b>Algorithm:</b> {DIAMOND_ALGORITHM}
+      </p>
+      <p>
+        <b>Seeds:</b> {diseaseModule.seeds.length}, <b>Added Genes:</b> {diseaseModule.genes.length}
+      </p>
+      <div className='my-1 flex justify-center'>
+        <Button size='sm' variant='outline' onClick={() => setShowTable(true)}>
+          Show Module ({diseaseModule.seeds.length + diseaseModule.genes.length})
+        </Button>
+        <Dialog open={showTable}>
+          <DialogContent className='flex max-h-[92vh] min-h-[60vh] max-w-5xl flex-col gap-2'>
+            <DialogTitle>{DIAMOND_ALGORITHM} Disease Module</DialogTitle>
+            <DialogDescription>
+              Genes added to the module of {diseaseModule.seeds.length} seed genes in order, each being the most
+              significantly linked to the module at that step (hypergeometric p-value).
+            </DialogDescription>
+            <div className='overflow-y-scroll'>
+              <DataTable
+                data={diseaseModule.genes.map((gene, idx) => ({ ...gene, rank: idx + 1 }))}
+                columns={columnDiseaseModule}
+                filterColumnName='geneName'
+                placeholder='Search by gene name'
+              />
+            </div>
+            <DialogFooter className='w-full gap-2'>
+              <Button size='icon' variant='outline' onClick={handleExport}>
+                <DownloadIcon size={20} />
+              </Button>
+              <DialogClose asChild>
+                <Button type='button' variant='secondary' onClick={() => setShowTable(false)}>
+                  Close (Esc)
+                </Button>
+              </DialogClose>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </>
+  );
+}
@@ -1,25 +1,36 @@
 'use client';
 
 import { ChevronsUpDownIcon } from 'lucide-react';
-import { PROPERTY_TYPE_LABEL_MAPPING } from '@/lib/data';
 import { useStore } from '@/lib/hooks';
-import { P_VALUE_REGEX } from '@/lib/utils';
-import { BinaryLegend, HeatmapLegend } from '../legends';
+import type { LegendSpec } from '@/lib/interface';
+import { getLegendSpecs } from '@/lib/legends';
+import { BinaryLegend, CategoricalLegend, HeatmapLegend } from '../legends';
 import { Button } from '../ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
 
+function LegendView({ spec }: { spec: LegendSpec }) {
+  if (spec.kind === 'binary') return <BinaryLegend />;
+  if (spec.kind === 'categorical') return <CategoricalLegend title={spec.title} items={spec.items} />;
+  const { kind: _, ...props } = spec;
+  return <HeatmapLegend {...props} />;
+}
+
 export function Legend() {
   const selectedRadioNodeColor = useStore(state => state.selectedRadioNodeColor);
   const selectedNodeColorProperty = useStore(state => state.selectedNodeColorProperty);
   const showEdgeColor = useStore(state => state.showEdgeColor);
   const defaultNodeColor = useStore(state => state.defaultNodeColor);
+  const communityMap = useStore(state => state.communityMap);
+  const universalData = useStore(state => state.universalData);
 
-  const minScore =
-    typeof window !== 'undefined'
-      ? new URLSearchParams(window.location.search).has('file')
-        ? 0
-        : (Number(JSON.parse(localStorage.getItem('graphConfig') ?? '{}').minScore) ?? 0)
-      : 0;
+  const legends = getLegendSpecs({
+    selectedRadioNodeColor,
+    selectedNodeColorProperty,
+    showEdgeColor,
+    defaultNodeColor,
+    communityMap,
+    universalData,
+  });
 
   return (
     <Collapsible defaultOpen className='mb-2 rounded border p-2 text-xs shadow-sm'>
@@ -33,59 +44,15 @@ export function Legend() {
       </div>
       <CollapsibleContent className='flex flex-col items-center gap-2 p-1'>
         {selectedRadioNodeColor ? (
-          selectedRadioNodeColor === 'Pathway' ? (
-            <BinaryLegend />
-          ) : selectedRadioNodeColor === 'DEG' ? (
-            typeof selectedNodeColorProperty === 'string' && P_VALUE_REGEX.test(selectedNodeColorProperty) ? (
-              <HeatmapLegend
-                title='P-Value'
-                range={[defaultNodeColor, 'red']}
-                startLabel='Low Significance'
-                endLabel='High Significance'
-              />
-            ) : (
-              <HeatmapLegend
-                title={PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor]}
-                domain={[-1, 0, 1]}
-                range={['green', '#E2E2E2', 'red']}
-                divisions={10}
-              />
-            )
-          ) : selectedRadioNodeColor === 'Druggability' || selectedRadioNodeColor === 'OpenTargets' ? (
-            <HeatmapLegend
-              title={PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor]}
-              domain={[0, 1]}
-              range={[defaultNodeColor, 'red']}
-              divisions={10}
-            />
-          ) : selectedRadioNodeColor === 'TE' ? (
-            <HeatmapLegend
-              title={PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor]}
-              range={[defaultNodeColor, 'red']}
-              startLabel='Low'
-              endLabel='High'
-            />
-          ) : selectedRadioNodeColor === 'OT_Prioritization' ? (
-            <HeatmapLegend
-              title={PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor]}
-              domain={[-1, 0, 1]}
-              range={['red', '#F0C584', 'green']}
-              divisions={10}
-            />
+          legends.node ? (
+            <LegendView spec={legends.node} />
           ) : (
             <p className='text-center font-semibold'>No Legends Available</p>
           )
         ) : (
           <p className='text-center font-semibold'>Select Data-points on left to view legends!</p>
         )}
-        {showEdgeColor && (
-          <HeatmapLegend
-            title='Edge Color'
-            range={['yellow', 'red']}
-            domain={[minScore ?? 0, 1]}
-            divisions={(1 - (minScore ?? 0)) * 10}
-          />
-        )}
+        {legends.edge && <LegendView spec={legends.edge} />}
       </CollapsibleContent>
     </Collapsible>
   );
@@ -3,8 +3,9 @@
 import { Label } from '@radix-ui/react-label';
 import { ChevronsUpDownIcon, DownloadIcon } from 'lucide-react';
 import Papa from 'papaparse';
-import { useEffect, useState } from 'react';
+import { useEffect, useId, useState } from 'react';
 import { algorithms, columnLeidenResults } from '@/lib/data';
+import { formatTopTerms } from '@/lib/enrichment';
 import { useStore } from '@/lib/hooks';
 import { downloadFile, type EventMessage, Events, eventEmitter } from '@/lib/utils';
 import { LeidenPieChart } from '../statistics';
@@ -15,9 +16,19 @@ import { DataTable } from '../ui/data-table';
 import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Switch } from '../ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { CommunityEnrichment } from './CommunityEnrichment';
+import { DiseaseModuleResults } from './DiseaseModuleResults';
+import { PartitionComparison } from './PartitionComparison';
 import SliderWithInput from './SliderWithInput';
 
+/**
+ * Oldest runs are dropped beyond this many to keep project files small
+ */
+const MAX_PARTITION_HISTORY = 20;
+
 export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
   const handleAlgoQuery = (name: string, formData?: FormData) => {
     if (formData)
@@ -27,14 +38,25 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
       } satisfies EventMessage[Events.ALGORITHM]);
     else {
       eventEmitter.emit(Events.ALGORITHM, { name } satisfies EventMessage[Events.ALGORITHM]);
-      setAlgorithmResults(null);
+      useStore.setState({ algorithmResults: null });
     }
   };
-  const [algorithmResults, setAlgorithmResults] = useState<EventMessage[Events.ALGORITHM_RESULTS] | null>(null);
+  const algorithmResults = useStore(state => state.algorithmResults);
+  const communityMap = useStore(state => state.communityMap);
+  const collapsedCommunities = useStore(state => state.collapsedCommunities);
+  const collapsedEdgeAggregation = useStore(state => state.collapsedEdgeAggregation);
+  const collapseControlId = useId();
 
   useEffect(() => {
     eventEmitter.on(Events.ALGORITHM_RESULTS, (data: EventMessage[Events.ALGORITHM_RESULTS]) => {
-      setAlgorithmResults(data);
+      useStore.setState(state => ({
+        algorithmResults: data,
+        communityEnrichment: {},
+        partitionHistory: [
+          ...state.partitionHistory.slice(1 - MAX_PARTITION_HISTORY),
+          { ...data, id: crypto.randomUUID(), createdAt: Date.now() },
+        ],
+      }));
     });
     const escapeListener = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
@@ -49,16 +71,22 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
 
   const [showTable, setShowTable] = useState(false);
 
+  const algorithmName = algorithmResults?.algorithm ?? 'Leiden';
+
   const handleExport = (communities: EventMessage[Events.ALGORITHM_RESULTS]['communities']) => {
-    const projectTitle = useStore.getState().projectTitle;
+    const { projectTitle, communityEnrichment } = useStore.getState();
     const csv = Papa.unparse(
       communities.map(c => ({
         ...c,
         genes: c.genes.join(';'),
         numberOfGenes: c.genes.length,
+        topTerms: communityEnrichment[c.name] ? formatTopTerms(communityEnrichment[c.name]) : '',
       })),
     );
-    downloadFile(csv, `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}leiden_communities.csv`);
+    downloadFile(
+      csv,
+      `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}${algorithmName.toLowerCase().replaceAll(' ', '_')}_communities.csv`,
+    );
   };
 
   return (
@@ -86,19 +114,20 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
               {parameters.length > 0 && (
                 <PopoverContent className='w-52'>
                   <form key={name} className='flex flex-col space-y-2' action={f => handleAlgoQuery(name, f)}>
-                    {parameters.map(({ name, displayName, type, defaultValue, min, max, step }) => {
-                      if (type === 'slider') {
+                    {parameters.map(parameter => {
+                      const { name, displayName } = parameter;
+                      if (parameter.type === 'slider') {
                         return (
                           <div key={name}>
                             <Label key={name} htmlFor={name} className='font-semibold text-xs'>
                               {displayName}
                             </Label>
                             <SliderWithInput
-                              min={min}
-                              max={max}
-                              step={step}
+                              min={parameter.min}
+                              max={parameter.max}
+                              step={parameter.step}
                               id={name}
-                              defaultValue={defaultValue as number}
+                              defaultValue={parameter.defaultValue}
                             />
                           </div>
                         );
@@ -112,7 +141,7 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
                           <Label key={name} htmlFor={name} className='font-semibold text-xs'>
                             {displayName}
                           </Label>
-                          <Checkbox name={name} id={name} defaultChecked={defaultValue as boolean} />
+                          <Checkbox name={name} id={name} defaultChecked={parameter.defaultValue} />
                         </div>
                       );
                     })}
@@ -125,23 +154,59 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
             </Popover>
           ))}
         </RadioGroup>
+        <PartitionComparison />
+        {Object.keys(communityMap).length > 0 && (
+          <div className='mb-2 flex items-center justify-between gap-2'>
+            <div className='flex items-center gap-2'>
+              <Switch
+                id={collapseControlId}
+                checked={collapsedCommunities.length > 0}
+                onCheckedChange={checked =>
+                  useStore.setState({ collapsedCommunities: checked ? Object.keys(communityMap) : [] })
+                }
+              />
+              <Label htmlFor={collapseControlId} className='font-semibold text-xs'>
+                Collapse Communities
+              </Label>
+            </div>
+            <Select
+              value={collapsedEdgeAggregation}
+              onValueChange={value =>
+                useStore.setState({ collapsedEdgeAggregation: value as typeof collapsedEdgeAggregation })
+              }
+            >
+              <SelectTrigger className='h-6 w-24 text-xs' title='Score of the edges between collapsed communities'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='sum'>Sum</SelectItem>
+                <SelectItem value='average'>Average</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         {algorithmResults && (
           <>
             <hr className='mb-1' />
             <p className='font-semibold text-sm underline'>Results:</p>
             <p>
-              <b>Modularity:</b> {algorithmResults.modularity}
+              <b>Algorithm:</b> {algorithmName}
             </p>
             <p>
-              <b>Resolution:</b> {algorithmResults.resolution}
+              <b>Modularity:</b> {algorithmResults.modularity}
             </p>
+            {algorithmResults.resolution !== undefined && (
+              <p>
+                <b>Resolution:</b> {algorithmResults.resolution}
+              </p>
+            )}
             <div className='my-1 flex justify-center'>
               <Button size='sm' variant='outline' onClick={() => setShowTable(true)}>
                 Show Details ({algorithmResults.communities.length})
               </Button>
               <Dialog open={showTable}>
                 <DialogContent className='flex max-h-[92vh] min-h-[60vh] max-w-7xl flex-col gap-2'>
-                  <DialogTitle>Leiden Communities</DialogTitle>
+                  <DialogTitle>{algorithmName} Communities</DialogTitle>
                   <DialogDescription>View the identified communities and their characteristics.</DialogDescription>
                   <Tabs defaultValue='table' className='w-full'>
                     <div className='flex justify-center'>
@@ -152,6 +217,9 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
                         <TabsTrigger className='w-full' value='chart'>
                           Chart
                         </TabsTrigger>
+                        <TabsTrigger className='w-full' value='enrichment'>
+                          Enrichment
+                        </TabsTrigger>
                       </TabsList>
                     </div>
                     <TabsContent value='table' className='flex max-h-[65vh] flex-col'>
@@ -172,9 +240,11 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
                     </TabsContent>
                     <TabsContent value='chart' className='flex'>
                       <span>
-                        <p>
-                          <b>Resolution:</b> {algorithmResults.resolution}
-                        </p>
+                        {algorithmResults.resolution !== undefined && (
+                          <p>
+                            <b>Resolution:</b> {algorithmResults.resolution}
+                          </p>
+                        )}
                         <p>
                           <b>Modularity:</b> {algorithmResults.modularity}
                         </p>
@@ -182,6 +252,9 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
                       </span>
                       <LeidenPieChart data={algorithmResults.communities} />
                     </TabsContent>
+                    <TabsContent value='enrichment'>
+                      <CommunityEnrichment communities={algorithmResults.communities} />
+                    </TabsContent>
                   </Tabs>
                   <DialogFooter className='w-full gap-2'>
                     <Button
@@ -202,6 +275,7 @@ export function NetworkAnalysis({ children }: { children: React.ReactNode }) {
             </div>
           </>
         )}
+        <DiseaseModuleResults />
         <hr className='mb-1' />
         {children}
       </CollapsibleContent>
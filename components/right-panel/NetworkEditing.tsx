@@ -0,0 +1,185 @@
+'use client';
+
+import { useLazyQuery } from '@apollo/client/react';
+import { ChevronsUpDownIcon, InfoIcon, MergeIcon, PlusIcon, Trash2Icon } from 'lucide-react';
+import { useId, useState } from 'react';
+import { toast } from 'sonner';
+import { GENE_VERIFICATION_QUERY } from '@/lib/gql';
+import { useStore } from '@/lib/hooks';
+import type { GeneVerificationData, GeneVerificationVariables } from '@/lib/interface';
+import { type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+export function NetworkEditing() {
+  const editMode = useStore(state => state.editMode);
+  const editEdgeScore = useStore(state => state.editEdgeScore);
+  const selectedNodes = useStore(state => state.selectedNodes);
+  const selectedEdges = useStore(state => state.selectedEdges);
+  const networkEdits = useStore(state => state.networkEdits);
+  const [geneName, setGeneName] = useState('');
+  const [mergeInto, setMergeInto] = useState<string>();
+  const [verifyGene, { loading }] = useLazyQuery<GeneVerificationData, GeneVerificationVariables>(
+    GENE_VERIFICATION_QUERY,
+  );
+  const editModeId = useId();
+  const edgeScoreId = useId();
+
+  const edit = (message: EventMessage[Events.NETWORK_EDIT]) => eventEmitter.emit(Events.NETWORK_EDIT, message);
+
+  const handleAddGene = async () => {
+    const gene = geneName.trim();
+    if (!gene) return;
+    const result = await verifyGene({ variables: { geneIDs: [gene] } });
+    if (result.error) {
+      toast.warning("Server can't verify the gene!", {
+        description: 'Please try again after some time',
+        cancel: { label: 'Close', onClick() {} },
+      });
+      return;
+    }
+    const verified = result.data?.genes[0];
+    if (!verified) {
+      toast.error(`${gene} is not a valid gene`, {
+        description: 'Please check the gene name or Ensembl ID and try again',
+        cancel: { label: 'Close', onClick() {} },
+      });
+      return;
+    }
+    edit({ action: 'add-gene', gene: verified });
+    setGeneName('');
+  };
+
+  const keptGene = selectedNodes.some(({ ID }) => ID === mergeInto) ? mergeInto : selectedNodes[0]?.ID;
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 text-xs shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <p className='flex items-center gap-1 font-bold'>
+          Network Editing
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <InfoIcon className='shrink-0' size={12} />
+            </TooltipTrigger>
+            <TooltipContent align='end'>
+              <p className='max-w-60'>
+                In edit mode, drag from one gene to another to draw an edge, click edges to select them and press Delete
+                to remove the selected genes and edges. Edits cannot be undone.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </p>
+        <CollapsibleTrigger asChild>
+          <Button type='button' variant='outline' size='icon' className='size-6'>
+            <ChevronsUpDownIcon size={15} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className='mt-1 flex flex-col gap-2'>
+        <div className='flex items-center gap-2'>
+          <Switch
+            id={editModeId}
+            checked={editMode}
+            onCheckedChange={checked => useStore.setState({ editMode: checked, selectedEdges: [] })}
+          />
+          <Label htmlFor={editModeId} className='font-semibold text-xs'>
+            Edit Mode
+          </Label>
+        </div>
+        <div className='flex items-center space-x-2'>
+          <div className='flex w-full flex-col space-y-1'>
+            <Label htmlFor={edgeScoreId} className='font-semibold text-xs'>
+              Score of Drawn Edges
+            </Label>
+            <Slider
+              id={edgeScoreId}
+              className='w-full'
+              min={0}
+              max={1}
+              step={0.01}
+              value={[editEdgeScore]}
+              onValueChange={value => useStore.setState({ editEdgeScore: value[0] })}
+            />
+          </div>
+          <Input
+            type='number'
+            className='h-8 w-16'
+            min={0}
+            max={1}
+            step={0.01}
+            value={editEdgeScore}
+            onChange={e => useStore.setState({ editEdgeScore: Math.min(1, Math.max(0, Number(e.target.value))) })}
+          />
+        </div>
+        <form
+          className='flex items-center gap-1'
+          onSubmit={e => {
+            e.preventDefault();
+            handleAddGene();
+          }}
+        >
+          <Input
+            value={geneName}
+            placeholder='Gene name or Ensembl ID'
+            className='h-7 text-xs'
+            onChange={e => setGeneName(e.target.value)}
+          />
+          <Button type='submit' size='sm' className='h-7' disabled={loading || geneName.trim().length === 0}>
+            <PlusIcon size={15} />
+            Add
+          </Button>
+        </form>
+        <Button
+          type='button'
+          size='sm'
+          variant='destructive'
+          className='h-7'
+          disabled={selectedNodes.length === 0 && selectedEdges.length === 0}
+          onClick={() => edit({ action: 'remove', nodes: selectedNodes.map(({ ID }) => ID), edges: selectedEdges })}
+        >
+          <Trash2Icon size={15} />
+          Remove {selectedNodes.length} Genes & {selectedEdges.length} Edges
+        </Button>
+        {selectedNodes.length > 1 && (
+          <div className='flex items-center gap-1'>
+            <Select value={keptGene} onValueChange={setMergeInto}>
+              <SelectTrigger className='h-7 w-full text-xs' title='Gene kept after merging the selected genes'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedNodes.map(({ ID, Gene_Name }) => (
+                  <SelectItem key={ID} value={ID}>
+                    {Gene_Name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type='button'
+              size='sm'
+              className='h-7'
+              disabled={!keptGene}
+              onClick={() =>
+                keptGene && edit({ action: 'merge', into: keptGene, nodes: selectedNodes.map(({ ID }) => ID) })
+              }
+            >
+              <MergeIcon size={15} />
+              Merge
+            </Button>
+          </div>
+        )}
+        <p className='text-zinc-500'>
+          {networkEdits.length > 0
+            ? `${networkEdits.length} edits, included in the interaction CSV export`
+            : 'No edits yet'}
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
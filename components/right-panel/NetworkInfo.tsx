@@ -1,50 +1,183 @@
 'use client';
 
-import React, { useEffect } from 'react';
+import { NetworkIcon, Settings2Icon } from 'lucide-react';
+import React, { useEffect, useId } from 'react';
+import { toast } from 'sonner';
 import { columnGseaResults, columnSelectedNodes } from '@/lib/data';
-import { useStore } from '@/lib/hooks';
+import { overRepresentation, toGseaRows } from '@/lib/enrichment';
+import { EGO_NETWORK_HOPS } from '@/lib/graph';
+import { useGeneSets, useStore } from '@/lib/hooks';
 import type { Gsea } from '@/lib/interface';
-import { envURL } from '@/lib/utils';
+import { type EventMessage, Events, envURL, eventEmitter } from '@/lib/utils';
 import PopUpDataTable from '../PopUpDataTable';
+import { EnrichmentDotPlot, EnrichmentMap } from '../statistics';
 import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu';
+import { Label } from '../ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Textarea } from '../ui/textarea';
 
 export function NetworkInfo() {
   const totalNodes = useStore(state => state.networkStatistics.totalNodes);
   const totalEdges = useStore(state => state.networkStatistics.totalEdges);
   const selectedNodes = useStore(state => state.selectedNodes);
+  const enrichmentUniverse = useStore(state => state.enrichmentUniverse);
+  const remoteEnrichmentFallback = useStore(state => state.remoteEnrichmentFallback);
   const [showTable, setShowTable] = React.useState(false);
   const [gseaData, setGseaData] = React.useState<Array<Gsea>>([]);
   const [gseaLoading, setGseaLoading] = React.useState(false);
+  const loadGeneSets = useGeneSets();
+  const universeId = useId();
+  const remoteFallbackId = useId();
 
+  /**
+   * Over-representation analysis of the genes against the pathways and uploaded gene sets, or the remote GSEA service
+   * if the local analysis fails or finds no terms and the fallback is enabled
+   */
+  const enrich = async (genes: string[]): Promise<Gsea[]> => {
+    try {
+      const { library, geneNames } = await loadGeneSets();
+      if (Object.keys(library).length === 0) throw new Error('No gene sets available');
+      const universe = enrichmentUniverse.length
+        ? enrichmentUniverse
+        : Array.from(geneNames.values(), name => name.toUpperCase());
+      const rows = toGseaRows(
+        overRepresentation(
+          genes.map(gene => gene.toUpperCase()),
+          library,
+          { universe },
+        ),
+      );
+      if (rows.length > 0 || !remoteEnrichmentFallback) return rows;
+    } catch (error) {
+      if (!remoteEnrichmentFallback) throw error;
+      console.error(error);
+    }
+    const response = await fetch(`${envURL(process.env.NEXT_PUBLIC_PYTHON_BACKEND_URL)}/gsea`, {
+      method: 'POST',
+      body: JSON.stringify(genes),
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'force-cache',
+    });
+    if (!response.ok) throw new Error(`GSEA service responded with ${response.status}`);
+    return response.json();
+  };
+
+  useEffect(() => {
+    if (selectedNodes.length) setShowTable(true);
+  }, [selectedNodes]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: enrich only reads the listed state
   useEffect(() => {
     if (selectedNodes.length === 0) return;
+    // Results of an earlier selection finishing late are dropped
+    let stale = false;
     (async () => {
       setGseaLoading(true);
-      setShowTable(true);
-      const response = await fetch(`${envURL(process.env.NEXT_PUBLIC_PYTHON_BACKEND_URL)}/gsea`, {
-        method: 'POST',
-        body: JSON.stringify(selectedNodes.map(node => node.Gene_Name)),
-        headers: { 'Content-Type': 'application/json' },
-        cache: 'force-cache',
-      });
-      const data: Array<Gsea> = await response.json();
-      setGseaData(data);
-      setGseaLoading(false);
+      try {
+        const data = await enrich(selectedNodes.map(node => node.Gene_Name));
+        if (!stale) setGseaData(data);
+      } catch (error) {
+        console.error(error);
+        if (stale) return;
+        setGseaData([]);
+        toast.error('Failed to run GSEA analysis', {
+          cancel: { label: 'Close', onClick() {} },
+          description: remoteEnrichmentFallback
+            ? 'Gene sets and gene set service not available, upload GMT files to analyze offline'
+            : 'No gene sets available, upload GMT files or enable the remote service',
+        });
+      } finally {
+        if (!stale) setGseaLoading(false);
+      }
     })();
-  }, [selectedNodes]);
+    return () => {
+      stale = true;
+    };
+  }, [selectedNodes, enrichmentUniverse, remoteEnrichmentFallback]);
 
   return (
     <div className='mb-2 rounded border p-2 text-xs shadow-sm'>
-      <p className='mb-2 font-bold'>Network Info</p>
+      <div className='mb-2 flex items-center justify-between'>
+        <p className='font-bold'>Network Info</p>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type='button' variant='outline' size='icon' className='size-6' title='GSEA Settings'>
+              <Settings2Icon size={15} />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className='flex w-64 flex-col gap-2 text-xs'>
+            <p className='font-semibold'>GSEA Settings</p>
+            <form
+              className='flex flex-col gap-2'
+              action={formData => {
+                const genes = String(formData.get('universe') ?? '')
+                  .split(/[\s,;]+/)
+                  .filter(Boolean)
+                  .map(gene => gene.toUpperCase());
+                useStore.setState({ enrichmentUniverse: Array.from(new Set(genes)) });
+              }}
+            >
+              <Label htmlFor={universeId} className='font-semibold'>
+                Background Genes ({enrichmentUniverse.length || 'Network'})
+              </Label>
+              <Textarea
+                id={universeId}
+                name='universe'
+                className='h-24 text-xs'
+                defaultValue={enrichmentUniverse.join('\n')}
+                placeholder='Gene names separated by new lines or commas, all genes of the network if empty'
+              />
+              <p className='text-muted-foreground'>Pathway genes are known for the network genes only</p>
+              <Button type='submit' size='sm'>
+                Apply
+              </Button>
+            </form>
+            <div className='flex items-center gap-2'>
+              <Checkbox
+                id={remoteFallbackId}
+                checked={remoteEnrichmentFallback}
+                onCheckedChange={checked => useStore.setState({ remoteEnrichmentFallback: checked === true })}
+              />
+              <Label htmlFor={remoteFallbackId}>Use remote service if no terms are found locally</Label>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
       <div className='flex flex-col justify-between'>
         <div className='flex flex-col gap-1'>
           <span>Total Nodes: {totalNodes}</span>
           <span>Total Edges: {totalEdges}</span>
         </div>
         {(selectedNodes.length || null) && (
-          <Button variant='outline' size='sm' className='mt-1 font-semibold' onClick={() => setShowTable(true)}>
-            Selected Genes Details ({selectedNodes.length})
-          </Button>
+          <div className='mt-1 flex gap-1'>
+            <Button variant='outline' size='sm' className='flex-1 font-semibold' onClick={() => setShowTable(true)}>
+              Selected Genes Details ({selectedNodes.length})
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant='outline' size='icon' className='size-8' title='Extract Neighborhood'>
+                  <NetworkIcon size={15} />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align='end'>
+                {EGO_NETWORK_HOPS.map(hops => (
+                  <DropdownMenuItem
+                    key={hops}
+                    onClick={() =>
+                      eventEmitter.emit(Events.EGO_NETWORK, {
+                        genes: selectedNodes.map(({ ID }) => ID),
+                        hops,
+                      } satisfies EventMessage[Events.EGO_NETWORK])
+                    }
+                  >
+                    {hops}-hop Neighborhood in New Tab
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         )}
         <PopUpDataTable
           data={[selectedNodes, gseaData]}
@@ -55,6 +188,13 @@ export function NetworkInfo() {
           loading={[false, gseaLoading]}
           setOpen={setShowTable}
           filterColumnNames={['Gene_Name', 'Pathway']}
+          views={[
+            undefined,
+            {
+              'Dot Plot': <EnrichmentDotPlot data={gseaData} querySize={selectedNodes.length} />,
+              'Enrichment Map': <EnrichmentMap data={gseaData} />,
+            },
+          ]}
         />
       </div>
     </div>
@@ -0,0 +1,205 @@
+'use client';
+
+import { ChevronsUpDownIcon, DownloadIcon, InfoIcon } from 'lucide-react';
+import Papa from 'papaparse';
+import { useEffect, useId, useState } from 'react';
+import { columnPropagationResults, PROPAGATION_PROPERTY } from '@/lib/data';
+import { useStore } from '@/lib/hooks';
+import { downloadFile, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { DataTable } from '../ui/data-table';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
+import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Spinner } from '../ui/spinner';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+import SliderWithInput from './SliderWithInput';
+
+export function NetworkPropagation() {
+  const seedGeneIDs = useStore(state => state.graphConfig?.geneIDs) ?? [];
+  const selectedNodes = useStore(state => state.selectedNodes);
+  const propagation = useStore(state => state.propagation);
+  const propagationProgress = useStore(state => state.propagationProgress);
+  const [seedSource, setSeedSource] = useState<'seeds' | 'selection'>('seeds');
+  const [showTable, setShowTable] = useState(false);
+  const [permutations, setPermutations] = useState(0);
+  const id = useId();
+
+  useEffect(() => {
+    const escapeListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setShowTable(false);
+    };
+    document.addEventListener('keydown', escapeListener);
+    return () => document.removeEventListener('keydown', escapeListener);
+  }, []);
+
+  const seeds = seedSource === 'seeds' ? seedGeneIDs : selectedNodes.map(({ ID }) => ID);
+
+  const handleRun = (formData: FormData) => {
+    const options = {
+      restartProbability: Number(formData.get(`${id}-restartProbability`)),
+      weighted: formData.get('weighted') === 'on',
+      permutations: Number(formData.get(`${id}-permutations`)),
+    };
+    setPermutations(options.permutations);
+    eventEmitter.emit(Events.PROPAGATION, { seeds, options } satisfies EventMessage[Events.PROPAGATION]);
+  };
+
+  const handleExport = () => {
+    if (!propagation) return;
+    const { projectTitle } = useStore.getState();
+    const csv = Papa.unparse(
+      propagation.ranking.map(({ ID, geneName, score, pValue, seed }, idx) => ({
+        rank: idx + 1,
+        geneName,
+        ID,
+        score,
+        pValue: pValue ?? '',
+        seed,
+      })),
+    );
+    downloadFile(csv, `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}propagation.csv`);
+  };
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 text-xs shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <p className='flex items-center gap-1 font-bold'>
+          Network Propagation
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <InfoIcon className='shrink-0' size={12} />
+            </TooltipTrigger>
+            <TooltipContent align='end'>
+              <p className='max-w-60'>
+                Random walk with restart (personalized PageRank) from the seed genes, genes close to many seeds get
+                higher scores. P-values are the fraction of random seed sets of the same degrees scoring the gene at
+                least as high.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </p>
+        <CollapsibleTrigger asChild>
+          <Button type='button' variant='outline' size='icon' className='size-6'>
+            <ChevronsUpDownIcon size={15} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className='mt-1'>
+        <form className='flex flex-col gap-2' action={handleRun}>
+          <RadioGroup
+            value={seedSource}
+            onValueChange={value => setSeedSource(value as typeof seedSource)}
+            className='flex gap-4'
+          >
+            <div className='flex items-center gap-2'>
+              <RadioGroupItem value='seeds' id={`${id}-seeds`} />
+              <Label htmlFor={`${id}-seeds`} className='text-xs'>
+                Seed Genes ({seedGeneIDs.length})
+              </Label>
+            </div>
+            <div className='flex items-center gap-2'>
+              <RadioGroupItem value='selection' id={`${id}-selection`} />
+              <Label htmlFor={`${id}-selection`} className='text-xs'>
+                Selected Genes ({selectedNodes.length})
+              </Label>
+            </div>
+          </RadioGroup>
+          <div>
+            <Label htmlFor={`${id}-restartProbability`} className='font-semibold text-xs'>
+              Restart Probability
+            </Label>
+            <SliderWithInput min={0.05} max={0.95} step={0.05} id={`${id}-restartProbability`} defaultValue={0.5} />
+          </div>
+          <div>
+            <Label htmlFor={`${id}-permutations`} className='font-semibold text-xs'>
+              Permutations (0 to skip p-values)
+            </Label>
+            <SliderWithInput min={0} max={1000} step={50} id={`${id}-permutations`} defaultValue={100} />
+          </div>
+          <div className='flex items-center justify-between gap-2'>
+            <div className='flex items-center gap-2'>
+              <Checkbox name='weighted' id={`${id}-weighted`} defaultChecked />
+              <Label htmlFor={`${id}-weighted`} className='text-xs'>
+                Weight by edge score
+              </Label>
+            </div>
+            <Button type='submit' size='sm' disabled={seeds.length === 0 || propagationProgress !== null}>
+              {propagationProgress !== null && <Spinner size='small' className='size-3.5 text-primary-foreground' />}
+              {propagationProgress !== null && permutations > 0 ? `${propagationProgress}/${permutations}` : 'Run'}
+            </Button>
+          </div>
+        </form>
+        {propagation && (
+          <>
+            <hr className='my-1' />
+            <p className='font-semibold text-sm underline'>Results:</p>
+            <p>
+              <b>Seeds:</b> {propagation.seeds.length}, <b>Restart Probability:</b>{' '}
+              {propagation.options.restartProbability}
+            </p>
+            <div className='mt-1 flex flex-wrap justify-center gap-1'>
+              <Button size='sm' variant='outline' onClick={() => setShowTable(true)}>
+                Show Ranking ({propagation.ranking.length})
+              </Button>
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() =>
+                  useStore.setState({
+                    selectedRadioNodeColor: 'Topology',
+                    selectedNodeColorProperty: PROPAGATION_PROPERTY,
+                  })
+                }
+              >
+                Color by Score
+              </Button>
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() =>
+                  useStore.setState({
+                    selectedRadioNodeSize: 'Topology',
+                    selectedNodeSizeProperty: PROPAGATION_PROPERTY,
+                  })
+                }
+              >
+                Size by Score
+              </Button>
+            </div>
+            <Dialog open={showTable}>
+              <DialogContent className='flex max-h-[92vh] min-h-[60vh] max-w-5xl flex-col gap-2'>
+                <DialogTitle>Network Propagation Ranking</DialogTitle>
+                <DialogDescription>
+                  Genes ranked by their propagation score from {propagation.seeds.length} seed genes, seeds are in bold.
+                  {propagation.options.permutations > 0 &&
+                    ` Empirical p-values from ${propagation.options.permutations} degree preserving seed permutations.`}
+                </DialogDescription>
+                <div className='overflow-y-scroll'>
+                  <DataTable
+                    data={propagation.ranking.map((candidate, idx) => ({ ...candidate, rank: idx + 1 }))}
+                    columns={columnPropagationResults}
+                    filterColumnName='geneName'
+                    placeholder='Search by gene name'
+                  />
+                </div>
+                <DialogFooter className='w-full gap-2'>
+                  <Button size='icon' variant='outline' onClick={handleExport}>
+                    <DownloadIcon size={20} />
+                  </Button>
+                  <DialogClose asChild>
+                    <Button type='button' variant='secondary' onClick={() => setShowTable(false)}>
+                      Close (Esc)
+                    </Button>
+                  </DialogClose>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { DownloadIcon, GitCompareArrowsIcon, HighlighterIcon, Trash2Icon } from 'lucide-react';
+import Papa from 'papaparse';
+import { useMemo, useState } from 'react';
+import { Layer, Rectangle, Sankey } from 'recharts';
+import type { NodeProps } from 'recharts/types/chart/Sankey';
+import { comparePartitions } from '@/lib/communities';
+import { useStore } from '@/lib/hooks';
+import type { PartitionRun } from '@/lib/interface';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
+import { ScrollArea } from '../ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+const UNASSIGNED = 'Unassigned';
+const UNASSIGNED_COLOR = '#a1a1aa';
+
+function runLabel(run: PartitionRun, idx: number) {
+  const resolution = run.resolution === undefined ? '' : `, resolution ${run.resolution}`;
+  return `#${idx + 1} ${run.algorithm ?? 'Leiden'}${resolution} (${run.communities.length} communities)`;
+}
+
+function CommunityNode({ x, y, width, height, payload }: NodeProps) {
+  const isSource = payload.depth === 0;
+  // Data of the node is spread into its payload
+  const { color } = payload as NodeProps['payload'] & { color: string };
+  return (
+    <Layer>
+      <Rectangle x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.9} />
+      <text
+        x={isSource ? x - 4 : x + width + 4}
+        y={y + height / 2}
+        textAnchor={isSource ? 'end' : 'start'}
+        dominantBaseline='middle'
+        className='fill-foreground text-[10px]'
+      >
+        {payload.name}
+      </text>
+    </Layer>
+  );
+}
+
+export function PartitionComparison() {
+  const partitionHistory = useStore(state => state.partitionHistory);
+  const [open, setOpen] = useState(false);
+  const [firstId, setFirstId] = useState<string>();
+  const [secondId, setSecondId] = useState<string>();
+
+  const first = partitionHistory.find(({ id }) => id === firstId) ?? partitionHistory.at(-2);
+  const second = partitionHistory.find(({ id }) => id === secondId) ?? partitionHistory.at(-1);
+
+  const comparison = useMemo(
+    () => (first && second && first !== second ? comparePartitions(first, second) : null),
+    [first, second],
+  );
+
+  const sankeyData = useMemo(() => {
+    if (!first || !second || !comparison) return null;
+    const colors = (run: PartitionRun) => new Map(run.communities.map(({ name, color }) => [name, color]));
+    const [firstColors, secondColors] = [colors(first), colors(second)];
+    const nodes: Array<{ name: string; color: string }> = [];
+    const indices = [new Map<string | null, number>(), new Map<string | null, number>()];
+    const nodeIndex = (side: 0 | 1, community: string | null) => {
+      let idx = indices[side].get(community);
+      if (idx === undefined) {
+        idx = nodes.length;
+        indices[side].set(community, idx);
+        nodes.push({
+          name: community ?? UNASSIGNED,
+          color: (community && (side === 0 ? firstColors : secondColors).get(community)) || UNASSIGNED_COLOR,
+        });
+      }
+      return idx;
+    };
+    const links = comparison.overlaps.map(({ source, target, genes }) => ({
+      source: nodeIndex(0, source),
+      target: nodeIndex(1, target),
+      value: genes,
+    }));
+    return { nodes, links };
+  }, [first, second, comparison]);
+
+  const handleHighlight = () => {
+    if (!comparison) return;
+    useStore.setState({ nodeSearchQuery: comparison.switchedGenes.map(({ gene }) => gene).join('\n') });
+    setOpen(false);
+  };
+
+  const handleExport = () => {
+    if (!comparison || !first || !second) return;
+    const csv = Papa.unparse(
+      comparison.switchedGenes.map(({ gene, from, to }) => ({
+        gene,
+        [runLabel(first, partitionHistory.indexOf(first))]: from ?? UNASSIGNED,
+        [runLabel(second, partitionHistory.indexOf(second))]: to ?? UNASSIGNED,
+      })),
+    );
+    downloadFile(csv, 'switched_genes.csv');
+  };
+
+  return (
+    <>
+      <Button
+        size='sm'
+        variant='outline'
+        className='mb-2 w-full'
+        disabled={partitionHistory.length < 2}
+        onClick={() => setOpen(true)}
+      >
+        <GitCompareArrowsIcon size={14} />
+        Compare Runs ({partitionHistory.length})
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className='flex max-h-[92vh] max-w-7xl flex-col gap-2'>
+          <DialogTitle>Compare Community Runs</DialogTitle>
+          <DialogDescription>
+            Agreement between two community detection runs on this network, genes left out of a run are shown as{' '}
+            {UNASSIGNED}.
+          </DialogDescription>
+          <div className='grid grid-cols-2 gap-2'>
+            {[
+              { run: first, setId: setFirstId },
+              { run: second, setId: setSecondId },
+            ].map(({ run, setId }, side) => (
+              <Select key={side ? 'second' : 'first'} value={run?.id} onValueChange={setId}>
+                <SelectTrigger className='w-full'>
+                  <SelectValue placeholder='Select run' />
+                </SelectTrigger>
+                <SelectContent>
+                  {partitionHistory.map((partition, idx) => (
+                    <SelectItem key={partition.id} value={partition.id}>
+                      {runLabel(partition, idx)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+          {comparison && sankeyData ? (
+            <div className='grid grid-cols-[3fr_1fr] gap-4'>
+              <ChartContainer config={{}} className='h-[60vh] w-full'>
+                <Sankey
+                  data={sankeyData}
+                  node={CommunityNode}
+                  nodePadding={8}
+                  margin={{ left: 110, right: 110, top: 10, bottom: 10 }}
+                  link={{ stroke: '#94a3b8', strokeOpacity: 0.4 }}
+                >
+                  <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                </Sankey>
+              </ChartContainer>
+              <div className='flex flex-col gap-2 text-sm'>
+                <p>
+                  <b>Adjusted Rand Index:</b> {comparison.adjustedRandIndex.toFixed(4)}
+                </p>
+                <p>
+                  <b>Normalized Mutual Information:</b> {comparison.normalizedMutualInformation.toFixed(4)}
+                </p>
+                <p className='font-semibold'>Switched Genes ({comparison.switchedGenes.length})</p>
+                <ScrollArea className='h-[40vh] rounded border'>
+                  <ul className='p-1 text-xs'>
+                    {comparison.switchedGenes.map(({ gene, from, to }) => (
+                      <li key={gene}>
+                        <b>{gene}</b>: {from ?? UNASSIGNED} → {to ?? UNASSIGNED}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+                <div className='flex gap-2'>
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    disabled={comparison.switchedGenes.length === 0}
+                    onClick={handleHighlight}
+                  >
+                    <HighlighterIcon size={14} />
+                    Highlight
+                  </Button>
+                  <Button size='icon' variant='outline' className='size-8' onClick={handleExport}>
+                    <DownloadIcon size={16} />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className='py-8 text-center text-sm italic'>Select two different runs to compare</p>
+          )}
+          <DialogFooter className='w-full gap-2'>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => {
+                useStore.setState({ partitionHistory: [] });
+                setOpen(false);
+              }}
+            >
+              <Trash2Icon size={14} />
+              Clear History
+            </Button>
+            <DialogClose asChild>
+              <Button type='button' variant='secondary'>
+                Close
+              </Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
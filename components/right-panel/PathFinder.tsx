@@ -0,0 +1,339 @@
+'use client';
+
+import type { ColumnDef } from '@tanstack/react-table';
+import { ChevronsUpDownIcon, DownloadIcon, InfoIcon, PlusIcon, XIcon } from 'lucide-react';
+import Papa from 'papaparse';
+import { useEffect, useId, useMemo, useState } from 'react';
+import { columnShortestPaths } from '@/lib/data';
+import { useStore } from '@/lib/hooks';
+import type { GenePath } from '@/lib/interface';
+import { Trie } from '@/lib/trie';
+import { downloadFile, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+import { DataTable } from '../ui/data-table';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogTitle } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+import SliderWithInput from './SliderWithInput';
+
+type PathRow = GenePath & { index: number; rank: number; source: string; target: string };
+
+function GenePicker({
+  value,
+  trie,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  trie: Trie<{ key: string; value: string }>;
+  placeholder: string;
+  onChange: (value: string) => void;
+}) {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const pick = (suggestion: string) => {
+    onChange(suggestion);
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(prev => (prev < suggestions.length - 1 ? prev + 1 : prev));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(prev => (prev > 0 ? prev - 1 : prev));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(suggestions[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className='relative w-full'>
+      <Input
+        value={value}
+        placeholder={placeholder}
+        className='h-7 bg-white text-xs'
+        onChange={e => {
+          const prefix = e.target.value.trim().toUpperCase();
+          onChange(e.target.value);
+          setSelectedIndex(0);
+          setSuggestions(prefix.length === 0 ? [] : trie.search(prefix).map(s => s.key));
+        }}
+        onBlur={() => setSuggestions([])}
+        onKeyDown={handleKeyDown}
+      />
+      {suggestions.length > 0 && (
+        <ul className='absolute top-7 z-50 max-h-32 w-full overflow-auto rounded-md border border-gray-300 bg-white text-xs shadow-lg'>
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              className={`cursor-pointer px-2 py-1 hover:bg-gray-100 ${index === selectedIndex ? 'bg-gray-100' : ''}`}
+              // Picked before the input loses focus and clears the suggestions
+              onMouseDown={e => {
+                e.preventDefault();
+                pick(suggestion);
+              }}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PathFinder() {
+  const geneNameToID = useStore(state => state.geneNameToID);
+  const shortestPaths = useStore(state => state.shortestPaths);
+  const highlightedPath = useStore(state => state.highlightedPath);
+  const [genes, setGenes] = useState(['', '']);
+  const [mode, setMode] = useState<'all' | 'k'>('all');
+  const [showTable, setShowTable] = useState(false);
+  const id = useId();
+
+  const trie = useMemo(
+    () =>
+      Trie.fromArray(
+        Array.from(geneNameToID, ([key, value]) => ({ key, value })),
+        'key',
+      ),
+    [geneNameToID],
+  );
+
+  useEffect(() => {
+    const escapeListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setShowTable(false);
+    };
+    document.addEventListener('keydown', escapeListener);
+    return () => document.removeEventListener('keydown', escapeListener);
+  }, []);
+
+  const resolve = (gene: string) => trie.get(gene.trim().toUpperCase())?.value ?? gene.trim();
+  const geneIDs = Array.from(new Set(genes.filter(gene => gene.trim().length > 0).map(resolve)));
+
+  const rows = useMemo<PathRow[]>(() => {
+    let rank = 0;
+    return (shortestPaths?.paths ?? []).map((path, index, paths) => {
+      const previous = paths[index - 1];
+      // Paths of a pair are contiguous, ranks restart at every pair
+      const samePair =
+        previous?.nodes[0] === path.nodes[0] && previous?.nodes.at(-1) === path.nodes[path.nodes.length - 1];
+      rank = samePair ? rank + 1 : 1;
+      return { ...path, index, rank, source: path.labels[0], target: path.labels[path.labels.length - 1] };
+    });
+  }, [shortestPaths]);
+
+  const columns = useMemo<ColumnDef<PathRow>[]>(
+    () => [
+      ...(columnShortestPaths as ColumnDef<PathRow>[]),
+      {
+        id: 'show',
+        header: 'Highlight',
+        cell: ({ row }) => (
+          <Button
+            size='sm'
+            variant={highlightedPath === row.original.index ? 'default' : 'outline'}
+            onClick={() => {
+              useStore.setState({ highlightedPath: row.original.index });
+              setShowTable(false);
+            }}
+          >
+            Show
+          </Button>
+        ),
+        meta: { textAlign: 'center' },
+      },
+    ],
+    [highlightedPath],
+  );
+
+  const handleFind = (formData: FormData) => {
+    const options = {
+      weighted: formData.get('weighted') === 'on',
+      k: mode === 'k' ? Number(formData.get(`${id}-k`)) : undefined,
+    };
+    eventEmitter.emit(Events.SHORTEST_PATH, { genes: geneIDs, options } satisfies EventMessage[Events.SHORTEST_PATH]);
+  };
+
+  const handleExport = () => {
+    const { projectTitle } = useStore.getState();
+    const csv = Papa.unparse(
+      rows.map(({ source, target, rank, edges, distance, labels, nodes }) => ({
+        source,
+        target,
+        rank,
+        hops: edges.length,
+        distance,
+        path: labels.join(' -> '),
+        pathIDs: nodes.join(' -> '),
+      })),
+    );
+    downloadFile(csv, `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}shortest_paths.csv`);
+  };
+
+  return (
+    <Collapsible defaultOpen className='mb-2 rounded border p-2 text-xs shadow-sm'>
+      <div className='flex w-full items-center justify-between'>
+        <p className='flex items-center gap-1 font-bold'>
+          Path Finder
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <InfoIcon className='shrink-0' size={12} />
+            </TooltipTrigger>
+            <TooltipContent align='end'>
+              <p className='max-w-60'>
+                Shortest paths between every pair of the genes over the visible edges. Weighted paths use 1 - score of
+                the edges as distance, preferring stronger interactions over fewer hops.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </p>
+        <CollapsibleTrigger asChild>
+          <Button type='button' variant='outline' size='icon' className='size-6'>
+            <ChevronsUpDownIcon size={15} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className='mt-1'>
+        <form className='flex flex-col gap-2' action={handleFind}>
+          {genes.map((gene, idx) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: Pickers are only appended or removed as a whole
+            <div key={idx} className='flex items-center gap-1'>
+              <GenePicker
+                value={gene}
+                trie={trie}
+                placeholder={idx === 0 ? 'Source gene' : idx === 1 ? 'Target gene' : 'Gene'}
+                onChange={value => setGenes(prev => prev.map((g, i) => (i === idx ? value : g)))}
+              />
+              {genes.length > 2 && (
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='icon'
+                  className='size-6 shrink-0'
+                  onClick={() => setGenes(prev => prev.filter((_, i) => i !== idx))}
+                >
+                  <XIcon size={14} />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button
+            type='button'
+            variant='outline'
+            size='sm'
+            className='h-6 self-start text-xs'
+            onClick={() => setGenes(prev => [...prev, ''])}
+          >
+            <PlusIcon size={12} /> Add Gene
+          </Button>
+          <RadioGroup value={mode} onValueChange={value => setMode(value as typeof mode)} className='flex gap-4'>
+            <div className='flex items-center gap-2'>
+              <RadioGroupItem value='all' id={`${id}-all`} />
+              <Label htmlFor={`${id}-all`} className='text-xs'>
+                All Shortest
+              </Label>
+            </div>
+            <div className='flex items-center gap-2'>
+              <RadioGroupItem value='k' id={`${id}-kShortest`} />
+              <Label htmlFor={`${id}-kShortest`} className='text-xs'>
+                K Shortest
+              </Label>
+            </div>
+          </RadioGroup>
+          {mode === 'k' && (
+            <div>
+              <Label htmlFor={`${id}-k`} className='font-semibold text-xs'>
+                Paths per Pair (K)
+              </Label>
+              <SliderWithInput min={1} max={20} step={1} id={`${id}-k`} defaultValue={5} />
+            </div>
+          )}
+          <div className='flex items-center justify-between gap-2'>
+            <div className='flex items-center gap-2'>
+              <Checkbox name='weighted' id={`${id}-weighted`} />
+              <Label htmlFor={`${id}-weighted`} className='text-xs'>
+                Weight by edge score
+              </Label>
+            </div>
+            <Button type='submit' size='sm' disabled={geneIDs.length < 2}>
+              Find
+            </Button>
+          </div>
+        </form>
+        {shortestPaths && (
+          <>
+            <hr className='my-1' />
+            <p className='font-semibold text-sm underline'>Results:</p>
+            <p>
+              <b>Genes:</b> {shortestPaths.genes.length}, <b>Paths:</b> {shortestPaths.paths.length}
+              {highlightedPath !== null && (
+                <>
+                  , <b>Showing:</b> {rows[highlightedPath]?.labels.join(' → ')}
+                </>
+              )}
+            </p>
+            <div className='mt-1 flex flex-wrap justify-center gap-1'>
+              <Button
+                size='sm'
+                variant='outline'
+                disabled={shortestPaths.paths.length === 0}
+                onClick={() => setShowTable(true)}
+              >
+                Show Paths ({shortestPaths.paths.length})
+              </Button>
+              {highlightedPath !== null && (
+                <Button size='sm' variant='outline' onClick={() => useStore.setState({ highlightedPath: null })}>
+                  Show All
+                </Button>
+              )}
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() => useStore.setState({ shortestPaths: null, highlightedPath: null })}
+              >
+                Clear
+              </Button>
+            </div>
+            <Dialog open={showTable}>
+              <DialogContent className='flex max-h-[92vh] min-h-[60vh] max-w-5xl flex-col gap-2'>
+                <DialogTitle>Shortest Paths</DialogTitle>
+                <DialogDescription>
+                  {shortestPaths.options.k
+                    ? `Up to ${shortestPaths.options.k} shortest loopless paths`
+                    : 'All the shortest paths'}{' '}
+                  between every pair of {shortestPaths.genes.length} genes
+                  {shortestPaths.options.weighted ? ', distance being the sum of 1 - score of the edges.' : ' by hops.'}
+                </DialogDescription>
+                <div className='overflow-y-scroll'>
+                  <DataTable data={rows} columns={columns} filterColumnName='path' placeholder='Search by gene name' />
+                </div>
+                <DialogFooter className='w-full gap-2'>
+                  <Button size='icon' variant='outline' onClick={handleExport}>
+                    <DownloadIcon size={20} />
+                  </Button>
+                  <DialogClose asChild>
+                    <Button type='button' variant='secondary' onClick={() => setShowTable(false)}>
+                      Close (Esc)
+                    </Button>
+                  </DialogClose>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,6 +1,16 @@
 'use client';
 import { ScrollArea } from '../ui/scroll-area';
-import { Legend, NetworkAnalysis, NetworkInfo, NetworkLayout, NetworkStyle, RadialAnalysis } from '.';
+import {
+  Legend,
+  NetworkAnalysis,
+  NetworkEditing,
+  NetworkInfo,
+  NetworkLayout,
+  NetworkPropagation,
+  NetworkStyle,
+  PathFinder,
+  RadialAnalysis,
+} from '.';
 
 export function RightSideBar() {
   return (
@@ -8,10 +18,13 @@ export function RightSideBar() {
       <NetworkAnalysis>
         <RadialAnalysis />
       </NetworkAnalysis>
+      <NetworkPropagation />
+      <PathFinder />
       <NetworkInfo />
       <Legend />
       <NetworkLayout />
       <NetworkStyle />
+      <NetworkEditing />
     </ScrollArea>
   );
 }
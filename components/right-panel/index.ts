@@ -1,7 +1,13 @@
+export * from './CommunityEnrichment';
+export * from './DiseaseModuleResults';
 export * from './Legend';
 export * from './NetworkAnalysis';
+export * from './NetworkEditing';
 export * from './NetworkInfo';
 export * from './NetworkLayout';
+export * from './NetworkPropagation';
 export * from './NetworkStyle';
+export * from './PartitionComparison';
+export * from './PathFinder';
 export * from './RadialAnalysis';
 export * from './RightSideBar';
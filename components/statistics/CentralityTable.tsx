@@ -0,0 +1,163 @@
+'use client';
+
+import {
+  flexRender,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  type SortingState,
+  useReactTable,
+} from '@tanstack/react-table';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { DownloadIcon } from 'lucide-react';
+import { unparse } from 'papaparse';
+import React from 'react';
+import { columnNodeCentrality } from '@/lib/data';
+import { useStore } from '@/lib/hooks';
+import type { NodeCentralityRow } from '@/lib/interface';
+import { downloadFile, type EventMessage, Events, eventEmitter } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+const ROW_HEIGHT = 41;
+
+/**
+ * Centralities of every node read from the graph, refreshed as the statistics worker fills them
+ */
+export function CentralityTable() {
+  const progress = useStore(state => state.networkStatisticsProgress);
+  const [rows, setRows] = React.useState<NodeCentralityRow[]>([]);
+  const [sorting, setSorting] = React.useState<SortingState>([{ id: 'degree', desc: true }]);
+  const [globalFilter, setGlobalFilter] = React.useState('');
+  const parentRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    const listener = ({ rows }: EventMessage[Events.NODE_CENTRALITY_RESULTS]) => setRows(rows);
+    eventEmitter.on(Events.NODE_CENTRALITY_RESULTS, listener);
+    return () => {
+      eventEmitter.off(Events.NODE_CENTRALITY_RESULTS, listener);
+    };
+  }, []);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: every finished metric adds a column of values
+  React.useEffect(() => {
+    eventEmitter.emit(Events.NODE_CENTRALITY);
+  }, [progress]);
+
+  const table = useReactTable({
+    data: rows,
+    columns: columnNodeCentrality,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    globalFilterFn: 'includesString',
+    state: { sorting, globalFilter },
+  });
+  const tableRows = table.getRowModel().rows;
+
+  const virtualizer = useVirtualizer({
+    count: tableRows.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows[0]?.start ?? 0;
+  const paddingBottom = virtualizer.getTotalSize() - (virtualRows[virtualRows.length - 1]?.end ?? 0);
+
+  const handleDownload = () => {
+    const csv = unparse(tableRows.map(row => row.original));
+    downloadFile(csv, 'centralities.csv');
+  };
+
+  const handleFocus = (node: string) => {
+    useStore.getState().setActiveTab('Network');
+    eventEmitter.emit(Events.FOCUS_NODE, { node } satisfies EventMessage[Events.FOCUS_NODE]);
+  };
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <div className='flex items-center justify-between gap-2'>
+        <Input
+          placeholder='Filter by gene name, ENSG ID or description...'
+          value={globalFilter}
+          onChange={e => setGlobalFilter(e.target.value)}
+          className='max-w-sm'
+        />
+        <div className='flex items-center gap-2'>
+          <span className='font-semibold text-sm italic'>Rows : {tableRows.length}</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant='outline'
+                size='icon'
+                className='hover:bg-muted hover:text-muted-foreground'
+                onClick={handleDownload}
+                disabled={tableRows.length === 0}
+              >
+                <DownloadIcon className='size-5' />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Download filtered rows as CSV</TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+      <div ref={parentRef} className='h-[500px] overflow-auto rounded-md border'>
+        <table className='w-full caption-bottom text-sm'>
+          <TableHeader className='sticky top-0 z-10 bg-background'>
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => (
+                  <TableHead key={header.id}>
+                    {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && (
+              <tr>
+                <td style={{ height: paddingTop }} />
+              </tr>
+            )}
+            {virtualRows.length ? (
+              virtualRows.map(virtualRow => {
+                const row = tableRows[virtualRow.index];
+                return (
+                  <TableRow
+                    key={row.id}
+                    className='cursor-pointer'
+                    title='Click to focus on the network'
+                    onClick={() => handleFocus(row.original.ID)}
+                  >
+                    {row.getVisibleCells().map(cell => (
+                      <TableCell style={cell.column.columnDef.meta} key={cell.id}>
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columnNodeCentrality.length} className='h-24 text-center'>
+                  No results.
+                </TableCell>
+              </TableRow>
+            )}
+            {paddingBottom > 0 && (
+              <tr>
+                <td style={{ height: paddingBottom }} />
+              </tr>
+            )}
+          </TableBody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+import { DownloadIcon } from 'lucide-react';
+import { unparse } from 'papaparse';
+import { useMemo, useRef } from 'react';
+import { CartesianGrid, Cell, Scatter, ScatterChart, type TooltipContentProps, XAxis, YAxis, ZAxis } from 'recharts';
+import type { NameType, ValueType } from 'recharts/types/component/DefaultTooltipContent';
+import { toast } from 'sonner';
+import { parseGseaRows } from '@/lib/enrichment';
+import { rasterizeSVG } from '@/lib/graph';
+import { useStore } from '@/lib/hooks';
+import type { Gsea } from '@/lib/interface';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { ChartContainer, ChartTooltip } from '../ui/chart';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu';
+import { significanceColorScale } from './colorScales';
+
+const MAX_TERMS = 20;
+
+const CustomTooltip = ({ active, payload }: TooltipContentProps<ValueType, NameType>) => {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    return (
+      <div className='max-w-sm rounded-md border border-gray-200 bg-white p-2 text-xs shadow-md'>
+        <p className='font-bold text-primary'>{data.term}</p>
+        <p>Gene Ratio: {data.geneRatio.toFixed(3)}</p>
+        <p>
+          Overlap: {data.overlap}/{data.setSize}
+        </p>
+        <p>Adjusted P-value: {data.adjustedPValue.toExponential(2)}</p>
+        <p className='mt-1 break-all italic'>{data.genes.join(', ')}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export function EnrichmentDotPlot({ data, querySize }: { data: Gsea[]; querySize: number }) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const points = useMemo(
+    () =>
+      parseGseaRows(data)
+        .slice(0, MAX_TERMS)
+        .map(({ term, genes, setSize, adjustedPValue }) => ({
+          term,
+          genes,
+          setSize,
+          adjustedPValue,
+          overlap: genes.length,
+          geneRatio: querySize ? genes.length / querySize : 0,
+          logP: -Math.log10(Math.max(adjustedPValue, Number.MIN_VALUE)),
+        }))
+        // Most enriched term is drawn at the top
+        .sort((a, b) => a.geneRatio - b.geneRatio),
+    [data, querySize],
+  );
+  const colorScale = significanceColorScale(Math.max(0, ...points.map(({ logP }) => logP)));
+
+  /**
+   * Serializes the chart with a white background, as the page background is not part of the SVG
+   */
+  const serializeChart = () => {
+    const surface = chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!surface) return null;
+    const svg = surface.cloneNode(true) as SVGSVGElement;
+    const { width, height } = surface.getBoundingClientRect();
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    svg.setAttribute('font-family', 'Arial, sans-serif');
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('width', '100%');
+    background.setAttribute('height', '100%');
+    background.setAttribute('fill', 'white');
+    svg.insertBefore(background, svg.firstChild);
+    return { svg: new XMLSerializer().serializeToString(svg), width, height };
+  };
+
+  const handleExport = async (format: 'png' | 'svg' | 'csv') => {
+    const { projectTitle } = useStore.getState();
+    const fileName = `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}GSEA_dot_plot`;
+    if (format === 'csv') {
+      downloadFile(
+        unparse(
+          points.map(({ term, geneRatio, overlap, setSize, adjustedPValue, genes }) => ({
+            Term: term,
+            'Gene Ratio': geneRatio,
+            Overlap: `${overlap}/${setSize}`,
+            'Adjusted P-value': adjustedPValue,
+            Genes: genes.join(';'),
+          })),
+        ),
+        `${fileName}.csv`,
+      );
+      return;
+    }
+    const chart = serializeChart();
+    if (!chart) return;
+    if (format === 'svg') {
+      downloadFile(chart.svg, `${fileName}.svg`, 'image/svg+xml');
+      return;
+    }
+    const image = await rasterizeSVG(chart.svg, chart.width, chart.height, 300 / 72);
+    if (!image) {
+      toast.error('Failed to export dot plot', {
+        cancel: { label: 'Close', onClick() {} },
+        description: 'Please try exporting as SVG',
+      });
+      return;
+    }
+    const element = document.createElement('a');
+    element.href = URL.createObjectURL(image);
+    element.download = `${fileName}.png`;
+    document.body.appendChild(element);
+    element.click();
+    URL.revokeObjectURL(element.href);
+    element.remove();
+  };
+
+  if (points.length === 0) {
+    return <p className='py-8 text-center text-muted-foreground text-sm'>No enriched terms to plot</p>;
+  }
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <div className='flex items-center justify-between gap-2 text-xs'>
+        <p>
+          Top {points.length} terms by adjusted p-value, sized by the number of selected genes in the term. Gene ratio
+          is the fraction of the {querySize} selected genes in the term.
+        </p>
+        <div className='flex items-center gap-2'>
+          <span>FDR</span>
+          <span>1</span>
+          <span
+            className='h-2 w-20 rounded-full'
+            style={{ background: `linear-gradient(to right, ${colorScale.range().join(', ')})` }}
+          />
+          <span>{(10 ** -colorScale.domain()[1]).toExponential(0)}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size='icon' variant='outline' className='size-7' title='Export Dot Plot'>
+                <DownloadIcon size={15} />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => handleExport('png')}>PNG</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('svg')}>SVG</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+      <ChartContainer
+        ref={chartRef}
+        config={{}}
+        className='aspect-auto w-full'
+        style={{ height: Math.max(240, points.length * 24 + 60) }}
+      >
+        <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+          <CartesianGrid strokeDasharray='3 3' />
+          <XAxis
+            type='number'
+            dataKey='geneRatio'
+            name='Gene Ratio'
+            tickFormatter={value => Number(value).toFixed(2)}
+            label={{ value: 'Gene Ratio', position: 'insideBottom', offset: -10, fill: '#666' }}
+          />
+          <YAxis
+            type='category'
+            dataKey='term'
+            name='Term'
+            width={220}
+            interval={0}
+            tickFormatter={value => (value.length > 36 ? `${value.slice(0, 35)}…` : value)}
+          />
+          <ZAxis type='number' dataKey='overlap' name='Overlap' range={[40, 400]} />
+          <ChartTooltip content={CustomTooltip} />
+          <Scatter data={points}>
+            {points.map(({ term, logP }) => (
+              <Cell key={term} fill={colorScale(logP)} />
+            ))}
+          </Scatter>
+        </ScatterChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+import { SigmaContainer, useLoadGraph } from '@react-sigma/core';
+import { downloadAsImage } from '@sigma/export-image';
+import { DownloadIcon } from 'lucide-react';
+import { unparse } from 'papaparse';
+import { useEffect, useMemo, useState } from 'react';
+import type { Sigma } from 'sigma';
+import { DEFAULT_EDGE_COLOR } from '@/lib/data';
+import { buildEnrichmentMap, enrichmentMapEdges, parseGseaRows } from '@/lib/enrichment';
+import { collectFigureInput, layoutFigure, toSVGFigure } from '@/lib/graph';
+import { useStore } from '@/lib/hooks';
+import type { EdgeAttributes, EnrichedTerm, EnrichmentMapEdge, Gsea, NodeAttributes } from '@/lib/interface';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '../ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu';
+import { Label } from '../ui/label';
+import { Slider } from '../ui/slider';
+import { significanceColorScale } from './colorScales';
+
+const MAX_TERMS = 50;
+
+function EnrichmentMapGraph({ terms, edges }: { terms: EnrichedTerm[]; edges: EnrichmentMapEdge[] }) {
+  const loadGraph = useLoadGraph<NodeAttributes, EdgeAttributes>();
+
+  useEffect(() => {
+    const colorScale = significanceColorScale(
+      Math.max(0, ...terms.map(({ adjustedPValue }) => -Math.log10(Math.max(adjustedPValue, Number.MIN_VALUE)))),
+    );
+    loadGraph(
+      buildEnrichmentMap(terms, edges, ({ adjustedPValue }) =>
+        colorScale(-Math.log10(Math.max(adjustedPValue, Number.MIN_VALUE))),
+      ),
+    );
+  }, [terms, edges, loadGraph]);
+
+  return null;
+}
+
+export function EnrichmentMap({ data }: { data: Gsea[] }) {
+  const [minJaccard, setMinJaccard] = useState(0.25);
+  const [sigma, setSigma] = useState<Sigma<NodeAttributes, EdgeAttributes> | null>(null);
+  const terms = useMemo(() => parseGseaRows(data).slice(0, MAX_TERMS), [data]);
+  const edges = useMemo(() => enrichmentMapEdges(terms, minJaccard), [terms, minJaccard]);
+
+  const handleExport = (format: 'png' | 'svg' | 'csv') => {
+    const { projectTitle } = useStore.getState();
+    const fileName = `${projectTitle === 'Untitled' ? '' : `${projectTitle}_`}GSEA_enrichment_map`;
+    if (format === 'csv') {
+      downloadFile(
+        unparse(
+          edges.map(({ source, target, jaccard, genes }) => ({
+            Source: source,
+            Target: target,
+            Jaccard: jaccard,
+            'Shared Genes': genes.join(';'),
+          })),
+        ),
+        `${fileName}.csv`,
+      );
+    } else if (!sigma) {
+      return;
+    } else if (format === 'svg') {
+      const scene = layoutFigure(collectFigureInput(sigma, false, 10), {
+        pageSize: 'Fit',
+        orientation: 'portrait',
+        dpi: 300,
+        includeHidden: false,
+        showLabels: true,
+      });
+      downloadFile(toSVGFigure(scene), `${fileName}.svg`, 'image/svg+xml');
+    } else {
+      downloadAsImage(sigma, { format, fileName, backgroundColor: 'white' });
+    }
+  };
+
+  if (terms.length === 0) {
+    return <p className='py-8 text-center text-muted-foreground text-sm'>No enriched terms to map</p>;
+  }
+
+  return (
+    <div className='flex flex-col gap-2'>
+      <div className='flex items-center justify-between gap-4 text-xs'>
+        <p>
+          Top {terms.length} terms by adjusted p-value, connected when their selected genes overlap by at least the
+          Jaccard index ({edges.length} connections). Colored by adjusted p-value and sized by the number of genes.
+        </p>
+        <div className='flex shrink-0 items-center gap-2'>
+          <Label className='text-xs'>Jaccard ≥ {minJaccard.toFixed(2)}</Label>
+          <Slider
+            className='w-32'
+            min={0.05}
+            max={1}
+            step={0.05}
+            value={[minJaccard]}
+            onValueChange={([value]) => setMinJaccard(value)}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size='icon' variant='outline' className='size-7' title='Export Enrichment Map'>
+                <DownloadIcon size={15} />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => handleExport('png')}>PNG</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('svg')}>SVG</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (Connections)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+      <SigmaContainer<NodeAttributes, EdgeAttributes>
+        ref={setSigma}
+        className='h-[55vh] w-full rounded border'
+        settings={{
+          allowInvalidContainer: true,
+          defaultEdgeColor: DEFAULT_EDGE_COLOR,
+          labelSize: 10,
+          labelDensity: 0.5,
+          renderEdgeLabels: false,
+        }}
+      >
+        <EnrichmentMapGraph terms={terms} edges={edges} />
+      </SigmaContainer>
+    </div>
+  );
+}
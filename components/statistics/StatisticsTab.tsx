@@ -1,67 +1,79 @@
 'use client';
-import { DownloadIcon } from 'lucide-react';
-import { unparse } from 'papaparse';
+import { CheckIcon, XIcon } from 'lucide-react';
 import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
-import {
-  columnTop10ByBetweenness,
-  columnTop10ByCloseness,
-  columnTop10ByDegree,
-  columnTop10ByEigenvector,
-  columnTop10ByPageRank,
-} from '@/lib/data';
+import { NETWORK_METRICS } from '@/lib/analytics';
 import { useStore } from '@/lib/hooks';
-import { downloadFile } from '@/lib/utils';
-import { Button } from '../ui/button';
+import type { NetworkMetric } from '@/lib/interface';
+import { cn } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '../ui/chart';
-import { DataTable } from '../ui/data-table';
-import { Skeleton } from '../ui/skeleton';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Spinner } from '../ui/spinner';
+import { CentralityTable } from './CentralityTable';
 
-const CENTRALITY_CONFIGS = [
-  { value: 'degree', label: 'By Degree', dataKey: 'degree', data: 'top10ByDegree', columns: columnTop10ByDegree },
-  {
-    value: 'betweenness',
-    label: 'By Betweenness',
-    dataKey: 'betweenness',
-    data: 'top10ByBetweenness',
-    columns: columnTop10ByBetweenness,
-  },
-  {
-    value: 'closeness',
-    label: 'By Closeness',
-    dataKey: 'closeness',
-    data: 'top10ByCloseness',
-    columns: columnTop10ByCloseness,
-  },
-  {
-    value: 'eigenvector',
-    label: 'By Eigenvector',
-    dataKey: 'eigenvector',
-    data: 'top10ByEigenvector',
-    columns: columnTop10ByEigenvector,
-  },
-  {
-    value: 'pagerank',
-    label: 'By PageRank',
-    dataKey: 'pagerank',
-    data: 'top10ByPageRank',
-    columns: columnTop10ByPageRank,
-  },
-] as const;
+function MetricProgress({ metric, className }: { metric: NetworkMetric; className?: string }) {
+  const status = useStore(state => state.networkStatisticsProgress[metric]);
+  const label = NETWORK_METRICS.find(config => config.metric === metric)?.label;
+
+  return (
+    <div className={cn('flex items-center justify-center gap-2 text-muted-foreground text-sm', className)}>
+      {status === 'failed' ? (
+        <p className='text-red-500'>Failed to compute {label}</p>
+      ) : status === 'running' ? (
+        <>
+          <Spinner size='small' />
+          <p>Computing {label}...</p>
+        </>
+      ) : (
+        <p>{label} is queued</p>
+      )}
+    </div>
+  );
+}
 
 export function StatisticsTab() {
   const networkStatistics = useStore(state => state.networkStatistics);
-
-  const handleDownload = (name: string, data: Record<string, string>[] | null) => {
-    if (!data) return;
-    const csv = unparse(data);
-    downloadFile(csv, `${name}.csv`);
-  };
+  const progress = useStore(state => state.networkStatisticsProgress);
+  const isComputed = (metric: NetworkMetric) => progress[metric] === undefined || progress[metric] === 'done';
+  const finishedCount = NETWORK_METRICS.filter(
+    ({ metric }) => progress[metric] === 'done' || progress[metric] === 'failed',
+  ).length;
 
   return (
     <div className='mx-4 my-6 flex flex-col gap-4 pb-6'>
       <h1 className='w-full text-center font-bold text-4xl'>Network Info</h1>
+      {Object.keys(progress).length > 0 && finishedCount < NETWORK_METRICS.length && (
+        <Card className='gap-2 py-3'>
+          <CardHeader>
+            <CardTitle className='text-sm'>
+              Computing statistics ({finishedCount}/{NETWORK_METRICS.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='flex flex-col gap-2'>
+            <div className='h-2 w-full overflow-hidden rounded-full bg-muted'>
+              <div
+                className='h-full bg-primary transition-all'
+                style={{ width: `${(finishedCount / NETWORK_METRICS.length) * 100}%` }}
+              />
+            </div>
+            <div className='flex flex-wrap gap-3 text-xs'>
+              {NETWORK_METRICS.map(({ metric, label }) => (
+                <span key={metric} className='flex items-center gap-1'>
+                  {progress[metric] === 'done' ? (
+                    <CheckIcon className='size-3 text-green-600' />
+                  ) : progress[metric] === 'failed' ? (
+                    <XIcon className='size-3 text-red-500' />
+                  ) : progress[metric] === 'running' ? (
+                    <Spinner size='small' className='size-3' />
+                  ) : (
+                    <span className='size-3 rounded-full border' />
+                  )}
+                  {label}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
       <div className='grid gap-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-6'>
         <Card>
           <CardHeader>
@@ -78,21 +90,35 @@ export function StatisticsTab() {
         <Card>
           <CardHeader>
             <CardTitle>Average Degree</CardTitle>
-            <b className='text-4xl'>{networkStatistics.avgDegree.toFixed(1)}</b>
+            {isComputed('degree') ? (
+              <b className='text-4xl'>{networkStatistics.avgDegree.toFixed(1)}</b>
+            ) : (
+              <MetricProgress metric='degree' className='justify-start' />
+            )}
           </CardHeader>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Network Density</CardTitle>
-            <b className='text-4xl'>{(networkStatistics.density * 100).toFixed(1)}%</b>
+            {isComputed('density') ? (
+              <b className='text-4xl'>{(networkStatistics.density * 100).toFixed(1)}%</b>
+            ) : (
+              <MetricProgress metric='density' className='justify-start' />
+            )}
           </CardHeader>
         </Card>
         <Card>
           <CardHeader>
             <CardTitle>Network Diameter</CardTitle>
-            <b className='text-4xl'>{networkStatistics.diameter}</b>
-            {Number.POSITIVE_INFINITY === networkStatistics.diameter && (
-              <p className='text-xs'>* Since the graph is disconnected</p>
+            {isComputed('diameter') ? (
+              <>
+                <b className='text-4xl'>{networkStatistics.diameter}</b>
+                {Number.POSITIVE_INFINITY === networkStatistics.diameter && (
+                  <p className='text-xs'>* Since the graph is disconnected</p>
+                )}
+              </>
+            ) : (
+              <MetricProgress metric='diameter' className='justify-start' />
             )}
           </CardHeader>
         </Card>
@@ -133,97 +159,24 @@ export function StatisticsTab() {
               </BarChart>
             </ChartContainer>
           ) : (
-            <Skeleton className='h-[400px] w-full' />
+            <MetricProgress metric='degree' className='h-[400px] w-full' />
           )}
         </CardContent>
       </Card>
 
-      {/* Top 10 Hub Genes */}
+      {/* Centralities of every gene */}
       <Card className='pb-6'>
         <CardHeader>
-          <CardTitle>Top 10 Hub Genes</CardTitle>
-          <CardDescription>Most connected nodes in the network</CardDescription>
+          <CardTitle>Gene Centralities</CardTitle>
+          <CardDescription>
+            Degree, betweenness, closeness, eigenvector, PageRank, clustering coefficient and k-core number of every
+            gene. Click on a row to focus the gene on the network.
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue='degree'>
-            <TabsList className='mb-4 flex w-full'>
-              {CENTRALITY_CONFIGS.map(config => (
-                <TabsTrigger key={config.value} className='w-full' value={config.value}>
-                  {config.label}
-                </TabsTrigger>
-              ))}
-            </TabsList>
-            {CENTRALITY_CONFIGS.map(config => {
-              const data = networkStatistics[config.data];
-              const hasData = data && data.length > 0;
-              return (
-                <TabsContent key={config.value} value={config.value}>
-                  <Tabs defaultValue='chart'>
-                    <div className='mb-4 flex items-center justify-between'>
-                      <div className='flex flex-1 justify-end' />
-                      <div className='flex justify-center'>
-                        <TabsList>
-                          <TabsTrigger value='chart'>Chart View</TabsTrigger>
-                          <TabsTrigger value='table'>Table View</TabsTrigger>
-                        </TabsList>
-                      </div>
-                      <div className='flex flex-1 justify-end'>
-                        <Button
-                          variant='outline'
-                          size={'icon'}
-                          className='hover:bg-muted hover:text-muted-foreground'
-                          onClick={() => handleDownload(config.value, data)}
-                          disabled={!hasData}
-                        >
-                          <DownloadIcon className='size-5' />
-                        </Button>
-                      </div>
-                    </div>
-                    <TabsContent value='table'>
-                      {hasData ? (
-                        // biome-ignore lint/suspicious/noExplicitAny: Typescript error
-                        <DataTable data={data as any[]} columns={config.columns} />
-                      ) : data ? (
-                        <div className='flex justify-center text-center text-muted-foreground'>
-                          Calculation failed for large graph. Try with a smaller network.
-                        </div>
-                      ) : (
-                        <Skeleton className='h-[400px] w-full' />
-                      )}
-                    </TabsContent>
-                    <TabsContent value='chart'>
-                      {hasData ? (
-                        <ChartContainer className='safari-only-svg-fix max-h-[400px] w-full' config={{}}>
-                          <BarChart data={data}>
-                            <CartesianGrid strokeDasharray='3 3' />
-                            <XAxis dataKey='geneName' label={{ value: 'Gene', position: 'insideBottom', offset: -5 }} />
-                            <YAxis
-                              dataKey={config.dataKey}
-                              type='number'
-                              tickCount={7}
-                              label={{ value: config.label.replace('By ', ''), angle: -90, position: 'insideLeft' }}
-                            />
-                            <ChartTooltip content={<ChartTooltipContent labelKey='Gene' />} />
-                            <Bar dataKey={config.dataKey} fill='hsl(var(--primary))' />
-                          </BarChart>
-                        </ChartContainer>
-                      ) : data ? (
-                        <div className='flex items-center justify-center'>
-                          <p className='text-muted-foreground'>
-                            Calculation failed for large graph. Try with a smaller network.
-                          </p>
-                        </div>
-                      ) : (
-                        <Skeleton className='h-[400px] w-full' />
-                      )}
-                    </TabsContent>
-                  </Tabs>
-                </TabsContent>
-              );
-            })}
-          </Tabs>
-          <p className='text-muted-foreground text-xs'>
-            * If 10 nodes are not available, it means the network has less than 10 nodes.
+          <CentralityTable />
+          <p className='mt-2 text-muted-foreground text-xs'>
+            * '-' denotes that the centrality is still being computed or its calculation failed for the network.
           </p>
         </CardContent>
       </Card>
@@ -253,7 +206,7 @@ export function StatisticsTab() {
               </AreaChart>
             </ChartContainer>
           ) : (
-            <Skeleton className='h-[400px] w-full' />
+            <MetricProgress metric='edgeScore' className='h-[400px] w-full' />
           )}
         </CardContent>
       </Card>
@@ -27,3 +27,10 @@ export const prioritizationColorScale = scaleLinear<string>()
   .domain(prioritizationDomain)
   .range(prioritizationStops)
   .clamp(true);
+
+// Significance of enriched terms, from blue (insignificant) to red by -log10 of the adjusted p-value
+export const significanceColorScale = (maxLogP: number) =>
+  scaleLinear<string>()
+    .domain([0, Math.max(maxLogP, -Math.log10(0.05))])
+    .range(['#3b82f6', '#dc2626'])
+    .clamp(true);
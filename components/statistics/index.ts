@@ -1,3 +1,6 @@
+export * from './CentralityTable';
+export * from './EnrichmentDotPlot';
+export * from './EnrichmentMap';
 export * from './LeidenPieChart';
 export * from './OpenTargetsHeatmap';
 export * from './StatisticsTab';
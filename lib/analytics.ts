@@ -1,25 +1,18 @@
 import type Graph from 'graphology';
 import { betweenness, closeness, eigenvector, pagerank } from 'graphology-metrics/centrality';
 import { density, diameter } from 'graphology-metrics/graph';
-import type { EdgeAttributes, GraphStore, NodeAttributes } from './interface';
+import type { EdgeAttributes, NetworkMetric, NetworkMetricResult, NodeAttributes } from './interface';
 
-export function statisticsGenerator(
-  graph: Graph<NodeAttributes, EdgeAttributes>,
-): Omit<GraphStore['networkStatistics'], 'totalNodes' | 'totalEdges' | 'averageClusteringCoefficient'> {
+function degreeStatistics(graph: Graph<NodeAttributes, EdgeAttributes>): NetworkMetricResult {
   /**  Average Degree  **/
   const avgDegree = graph.order ? (2 * graph.size) / graph.order : 0;
 
-  /**  Degree Distribution Top 10 By Degree */
-  const nodeDegreeArr: NonNullable<GraphStore['networkStatistics']['top10ByDegree']> = [];
+  /**  Degree Distribution and Degree of every node */
+  const centrality: Record<string, number> = {};
   const degreeDistribution = Object.entries(
     Array.from(graph.nodes()).reduce<Record<number, number>>((acc, node) => {
       const degree = graph.degree(node);
-      nodeDegreeArr.push({
-        ID: node,
-        geneName: graph.getNodeAttribute(node, 'label')!,
-        description: graph.getNodeAttribute(node, 'description')!,
-        degree: degree.toString(),
-      });
+      centrality[node] = degree;
       acc[degree] = (acc[degree] || 0) + 1;
       return acc;
     }, {}),
@@ -27,68 +20,10 @@ export function statisticsGenerator(
     degree: +degree,
     count,
   }));
-  const top10ByDegree = nodeDegreeArr.sort((a, b) => +b.degree - +a.degree).slice(0, 10);
-
-  /**  Top 10 By Betweenness */
-  const betweennessCentrality = betweenness(graph, { getEdgeWeight: null });
-  const top10ByBetweenness = Object.entries(betweennessCentrality)
-    .map(([node, value]) => ({
-      ID: node,
-      geneName: graph.getNodeAttribute(node, 'label')!,
-      description: graph.getNodeAttribute(node, 'description')!,
-      betweenness: value.toFixed(3),
-    }))
-    .sort((a, b) => +b.betweenness - +a.betweenness)
-    .slice(0, 10);
-
-  /** Top 10 By Closeness */
-  const closenessCentrality = closeness(graph);
-  const top10ByCloseness = Object.entries(closenessCentrality)
-    .map(([node, value]) => ({
-      ID: node,
-      geneName: graph.getNodeAttribute(node, 'label')!,
-      description: graph.getNodeAttribute(node, 'description')!,
-      closeness: value.toFixed(3),
-    }))
-    .sort((a, b) => +b.closeness - +a.closeness)
-    .slice(0, 10);
-
-  /** Top 10 By Eigenvector */
-  let eigenvectorCentrality: Record<string, number> = {};
-  let top10ByEigenvector: Array<{ ID: string; geneName: string; description: string; eigenvector: string }> = [];
-  try {
-    eigenvectorCentrality = eigenvector(graph, { getEdgeWeight: null, tolerance: 1e-3 });
-    top10ByEigenvector = Object.entries(eigenvectorCentrality)
-      .map(([node, value]) => ({
-        ID: node,
-        geneName: graph.getNodeAttribute(node, 'label')!,
-        description: graph.getNodeAttribute(node, 'description')!,
-        eigenvector: value.toFixed(3),
-      }))
-      .sort((a, b) => +b.eigenvector - +a.eigenvector)
-      .slice(0, 10);
-  } catch (error) {
-    console.warn('Eigenvector centrality calculation failed:', error);
-  }
-
-  /** Top 10 By PageRank */
-  let pagerankCentrality: Record<string, number> = {};
-  let top10ByPageRank: Array<{ ID: string; geneName: string; description: string; pagerank: string }> = [];
-  try {
-    pagerankCentrality = pagerank(graph, { getEdgeWeight: 'score', tolerance: 1e-6, maxIterations: 100 });
-    top10ByPageRank = Object.entries(pagerankCentrality)
-      .map(([node, value]) => ({
-        ID: node,
-        geneName: graph.getNodeAttribute(node, 'label')!,
-        description: graph.getNodeAttribute(node, 'description')!,
-        pagerank: value.toFixed(3),
-      }))
-      .sort((a, b) => +b.pagerank - +a.pagerank)
-      .slice(0, 10);
-  } catch (error) {
-    console.warn('PageRank centrality calculation failed:', error);
-  }
+  return { statistics: { avgDegree, degreeDistribution }, centrality };
+}
 
+function edgeScoreStatistics(graph: Graph<NodeAttributes, EdgeAttributes>): NetworkMetricResult {
   /** Edge Interaction Score Cumulative Distribution */
   // Like score > 0.9, count 10; score > 0.8, count 20; score > 0.7, count 30; ...
   const edgeScoreDistribution = Object.entries(
@@ -104,17 +39,100 @@ export function statisticsGenerator(
       return acc;
     }, [])
     .toReversed();
+  return { statistics: { edgeScoreDistribution } };
+}
+
+/**
+ * Local clustering coefficient of every node, i.e. fraction of its neighbor pairs which are connected
+ * @param graph Graph
+ */
+function clusteringCoefficients(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  const coefficients: Record<string, number> = {};
+  graph.forEachNode(node => {
+    const neighbors = graph.neighbors(node);
+    const k = neighbors.length;
+    let links = 0;
+    for (let i = 0; i < k; i++) {
+      for (let j = i + 1; j < k; j++) {
+        if (graph.hasEdge(neighbors[i], neighbors[j])) links++;
+      }
+    }
+    coefficients[node] = k < 2 ? 0 : (2 * links) / (k * (k - 1));
+  });
+  return coefficients;
+}
+
+/**
+ * Average of the local clustering coefficients of the nodes
+ * @param graph Graph
+ */
+export function averageClusteringCoefficient(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  const coefficients = Object.values(clusteringCoefficients(graph));
+  return coefficients.length
+    ? coefficients.reduce((sum, coefficient) => sum + coefficient, 0) / coefficients.length
+    : 0;
+}
 
-  return {
-    avgDegree,
-    density: density(graph),
-    diameter: diameter(graph),
-    degreeDistribution,
-    top10ByDegree,
-    top10ByBetweenness,
-    top10ByCloseness,
-    top10ByEigenvector,
-    top10ByPageRank,
-    edgeScoreDistribution,
-  };
+/**
+ * K-core number of every node, i.e. the largest k for which the node belongs to a subgraph of minimum degree k
+ * @param graph Graph
+ */
+function corenessNumbers(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  const degrees: Record<string, number> = {};
+  const bins: Array<Set<string>> = [];
+  graph.forEachNode(node => {
+    const degree = graph.degree(node);
+    degrees[node] = degree;
+    (bins[degree] ??= new Set()).add(node);
+  });
+  // Peel nodes in order of their remaining degree
+  const coreness: Record<string, number> = {};
+  for (let k = 0; k < bins.length; k++) {
+    const bin = bins[k];
+    if (!bin) continue;
+    for (const node of bin) {
+      coreness[node] = k;
+      graph.forEachNeighbor(node, neighbor => {
+        if (neighbor in coreness || degrees[neighbor] <= k) return;
+        bins[degrees[neighbor]].delete(neighbor);
+        degrees[neighbor]--;
+        (bins[degrees[neighbor]] ??= new Set()).add(neighbor);
+      });
+    }
+  }
+  return coreness;
 }
+
+/**
+ * Metrics in the order of computation (cheaper first) along with the statistics they fill
+ */
+export const NETWORK_METRICS: Array<{
+  metric: NetworkMetric;
+  label: string;
+  compute: (graph: Graph<NodeAttributes, EdgeAttributes>) => NetworkMetricResult;
+}> = [
+  { metric: 'degree', label: 'Degree', compute: degreeStatistics },
+  { metric: 'density', label: 'Density', compute: graph => ({ statistics: { density: density(graph) } }) },
+  { metric: 'edgeScore', label: 'Edge Score', compute: edgeScoreStatistics },
+  { metric: 'clustering', label: 'Clustering', compute: graph => ({ centrality: clusteringCoefficients(graph) }) },
+  { metric: 'coreness', label: 'K-Core', compute: graph => ({ centrality: corenessNumbers(graph) }) },
+  {
+    metric: 'betweenness',
+    label: 'Betweenness',
+    compute: graph => ({ centrality: betweenness(graph, { getEdgeWeight: null }) }),
+  },
+  { metric: 'closeness', label: 'Closeness', compute: graph => ({ centrality: closeness(graph) }) },
+  {
+    metric: 'eigenvector',
+    label: 'Eigenvector',
+    compute: graph => ({ centrality: eigenvector(graph, { getEdgeWeight: null, tolerance: 1e-3 }) }),
+  },
+  {
+    metric: 'pagerank',
+    label: 'PageRank',
+    compute: graph => ({
+      centrality: pagerank(graph, { getEdgeWeight: 'score', tolerance: 1e-6, maxIterations: 100 }),
+    }),
+  },
+  { metric: 'diameter', label: 'Diameter', compute: graph => ({ statistics: { diameter: diameter(graph) } }) },
+];
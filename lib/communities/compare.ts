@@ -0,0 +1,74 @@
+import type { PartitionComparison, PartitionRun } from '../interface';
+
+const pairs = (n: number) => (n * (n - 1)) / 2;
+
+/**
+ * Community name of every gene of the run keyed by gene name
+ */
+function geneCommunities(run: PartitionRun) {
+  const communities = new Map<string, string>();
+  for (const { name, genes } of run.communities) for (const gene of genes) communities.set(gene, name);
+  return communities;
+}
+
+/**
+ * Compares the partitions of two runs over the genes assigned to a community in any of them, genes left out of a run
+ * count as singletons for the adjusted Rand index and normalized mutual information
+ * @param first Earlier run, communities of which are matched
+ * @param second Later run
+ * @returns Agreement scores, community overlaps and genes switching communities
+ */
+export function comparePartitions(first: PartitionRun, second: PartitionRun): PartitionComparison {
+  const [a, b] = [geneCommunities(first), geneCommunities(second)];
+  const genes = Array.from(new Set([...a.keys(), ...b.keys()]));
+  const n = genes.length;
+  // Singletons get a class of their own to not be counted as agreeing with each other
+  const classOf = (communities: Map<string, string>, gene: string) => communities.get(gene) ?? `\0${gene}`;
+
+  const contingency = new Map<string, number>();
+  const [rowSums, columnSums] = [new Map<string, number>(), new Map<string, number>()];
+  for (const gene of genes) {
+    const [row, column] = [classOf(a, gene), classOf(b, gene)];
+    const key = `${row}\t${column}`;
+    contingency.set(key, (contingency.get(key) ?? 0) + 1);
+    rowSums.set(row, (rowSums.get(row) ?? 0) + 1);
+    columnSums.set(column, (columnSums.get(column) ?? 0) + 1);
+  }
+
+  const index = Array.from(contingency.values()).reduce((acc, count) => acc + pairs(count), 0);
+  const rowPairs = Array.from(rowSums.values()).reduce((acc, count) => acc + pairs(count), 0);
+  const columnPairs = Array.from(columnSums.values()).reduce((acc, count) => acc + pairs(count), 0);
+  const expected = n > 1 ? (rowPairs * columnPairs) / pairs(n) : 0;
+  const maximum = (rowPairs + columnPairs) / 2;
+  const adjustedRandIndex = maximum === expected ? 1 : (index - expected) / (maximum - expected);
+
+  const entropy = (sums: Map<string, number>) =>
+    -Array.from(sums.values()).reduce((acc, count) => acc + (count / n) * Math.log(count / n), 0);
+  let mutualInformation = 0;
+  for (const [key, count] of contingency) {
+    const [row, column] = key.split('\t');
+    mutualInformation += (count / n) * Math.log((n * count) / (rowSums.get(row)! * columnSums.get(column)!));
+  }
+  const [rowEntropy, columnEntropy] = [entropy(rowSums), entropy(columnSums)];
+  const normalizedMutualInformation =
+    rowEntropy + columnEntropy === 0 ? 1 : (2 * mutualInformation) / (rowEntropy + columnEntropy);
+
+  const overlapCounts = new Map<string, { source: string | null; target: string | null; genes: number }>();
+  for (const gene of genes) {
+    const [source, target] = [a.get(gene) ?? null, b.get(gene) ?? null];
+    const key = `${source}\t${target}`;
+    const overlap = overlapCounts.get(key) ?? { source, target, genes: 0 };
+    overlap.genes++;
+    overlapCounts.set(key, overlap);
+  }
+  const overlaps = Array.from(overlapCounts.values()).sort((x, y) => y.genes - x.genes);
+
+  // Communities of the first run are matched to the community of the second run they share most genes with
+  const matches = new Map<string | null, string | null>();
+  for (const { source, target } of overlaps) if (source !== null && !matches.has(source)) matches.set(source, target);
+  const switchedGenes = genes
+    .map(gene => ({ gene, from: a.get(gene) ?? null, to: b.get(gene) ?? null }))
+    .filter(({ from, to }) => from === null || matches.get(from) !== to);
+
+  return { adjustedRandIndex, normalizedMutualInformation, overlaps, switchedGenes };
+}
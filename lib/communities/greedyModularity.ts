@@ -0,0 +1,74 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, LeidenOptions, NodeAttributes } from '../interface';
+import { MinHeap, resolveMerges, toPartition, toWeightedCompactGraph } from './utils';
+
+/**
+ * Greedy modularity maximization (Clauset, Newman & Moore, 2004), starting from singletons the pair of adjacent
+ * communities with the largest modularity gain is merged until no merge improves modularity
+ * @param graph Undirected graph
+ * @param options Resolution and whether interaction scores are used as edge weights
+ * @returns Community of every node and the modularity of the partition
+ */
+export function greedyModularity(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  { resolution, weighted }: LeidenOptions,
+): CommunityPartition {
+  const { nodes, g } = toWeightedCompactGraph(graph, weighted);
+  const n = nodes.length;
+  const adjacency = Array.from({ length: n }, (_, v) => {
+    const neighbors = new Map<number, number>();
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) neighbors.set(g.neighbors[idx], g.weights[idx]);
+    return neighbors;
+  });
+  const communityWeights = Float64Array.from(g.strengths);
+  const parents = Int32Array.from({ length: n }, (_, v) => v);
+  // Incremented on every merge so that queued gains of the community become stale
+  const versions = new Int32Array(n);
+  const gain = (i: number, j: number) =>
+    2 *
+    (adjacency[i].get(j)! / g.totalWeight -
+      (resolution * communityWeights[i] * communityWeights[j]) / g.totalWeight ** 2);
+
+  let pairs = 0;
+  let queue = new MinHeap<[number, number, number, number]>();
+  const enqueueAll = () => {
+    queue = new MinHeap();
+    for (let i = 0; i < n; i++) {
+      if (parents[i] !== i) continue;
+      for (const j of adjacency[i].keys()) if (i < j) queue.push(-gain(i, j), [i, j, versions[i], versions[j]]);
+    }
+  };
+  for (const neighbors of adjacency) pairs += neighbors.size / 2;
+  enqueueAll();
+
+  while (queue.size > 0) {
+    const {
+      priority,
+      value: [i, j, versionI, versionJ],
+    } = queue.pop()!;
+    if (parents[i] !== i || parents[j] !== j || versions[i] !== versionI || versions[j] !== versionJ) continue;
+    if (-priority <= 0) break;
+
+    // Smaller community is merged into the larger one to move fewer neighbors
+    const [from, into] = adjacency[i].size < adjacency[j].size ? [i, j] : [j, i];
+    for (const [k, weight] of adjacency[from]) {
+      adjacency[k].delete(from);
+      if (k === into) continue;
+      const merged = (adjacency[into].get(k) ?? 0) + weight;
+      if (!adjacency[into].has(k)) pairs++;
+      adjacency[into].set(k, merged);
+      adjacency[k].set(into, merged);
+    }
+    pairs -= adjacency[from].size;
+    adjacency[from].clear();
+    communityWeights[into] += communityWeights[from];
+    parents[from] = into;
+    versions[into]++;
+
+    // Stale gains are dropped once they outnumber the current ones
+    if (queue.size > 4 * pairs + 1024) enqueueAll();
+    else for (const k of adjacency[into].keys()) queue.push(-gain(into, k), [into, k, versions[into], versions[k]]);
+  }
+
+  return toPartition(nodes, g, resolveMerges(parents), resolution);
+}
@@ -0,0 +1,7 @@
+export * from './compare';
+export * from './greedyModularity';
+export * from './infomap';
+export * from './labelPropagation';
+export * from './leiden';
+export * from './registry';
+export * from './walktrap';
@@ -0,0 +1,172 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, NodeAttributes } from '../interface';
+import {
+  aggregateGraph,
+  type CompactGraph,
+  createRandom,
+  renumber,
+  SEED,
+  shuffledRange,
+  toPartition,
+  toWeightedCompactGraph,
+} from './utils';
+
+const MAX_LEVELS = 100;
+const MAX_PASSES = 20;
+const EPSILON = 1e-10;
+
+export interface InfomapOptions {
+  /**
+   * Number of runs with different node orders, the partition with the shortest description length is kept
+   */
+  trials: number;
+  /**
+   * Whether interaction scores are used as edge weights
+   */
+  weighted: boolean;
+}
+
+const plogp = (p: number) => (p > 0 ? p * Math.log2(p) : 0);
+
+/**
+ * Description length of the random walk with the two level map equation, without the constant node entropy term
+ * @param g Compact graph
+ * @param membership Community of every node, numbered consecutively from 0
+ */
+function codelength(g: CompactGraph, membership: Int32Array) {
+  const [exitFlows, flows] = [new Float64Array(membership.length), new Float64Array(membership.length)];
+  for (let v = 0; v < membership.length; v++) {
+    flows[membership[v]] += g.strengths[v] / g.totalWeight;
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      if (membership[g.neighbors[idx]] !== membership[v]) exitFlows[membership[v]] += g.weights[idx] / g.totalWeight;
+    }
+  }
+  let [totalExit, length] = [0, 0];
+  for (let c = 0; c < membership.length; c++) {
+    totalExit += exitFlows[c];
+    length += plogp(exitFlows[c] + flows[c]) - 2 * plogp(exitFlows[c]);
+  }
+  return length + plogp(totalExit);
+}
+
+/**
+ * Moves nodes to the neighboring module shortening the description length the most until no move shortens it
+ * @returns Whether any node was moved
+ */
+function moveNodes(g: CompactGraph, membership: Int32Array, random: () => number) {
+  const n = membership.length;
+  // Exit flow of the node itself, i.e. flow along its edges to other nodes
+  const nodeExits = new Float64Array(n);
+  const [exitFlows, flows] = [new Float64Array(n), new Float64Array(n)];
+  for (let v = 0; v < n; v++) {
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) nodeExits[v] += g.weights[idx] / g.totalWeight;
+    exitFlows[v] = nodeExits[v];
+    flows[v] = g.strengths[v] / g.totalWeight;
+  }
+  let totalExit = exitFlows.reduce((acc, q) => acc + q, 0);
+  const moduleLength = (exit: number, flow: number) => plogp(exit + flow) - 2 * plogp(exit);
+
+  const linkFlows = new Float64Array(n);
+  // Stamped with a counter of the visits, as nodes are visited again in the later passes
+  const stamps = new Int32Array(n).fill(-1);
+  let visit = 0;
+  const candidates: number[] = [];
+  let moved = false;
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let movedInPass = false;
+    for (const v of shuffledRange(n, random)) {
+      const current = membership[v];
+      candidates.length = 0;
+      const stamp = ++visit;
+      stamps[current] = stamp;
+      linkFlows[current] = 0;
+      for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+        const c = membership[g.neighbors[idx]];
+        if (stamps[c] !== stamp) {
+          stamps[c] = stamp;
+          linkFlows[c] = 0;
+          if (c !== current) candidates.push(c);
+        }
+        linkFlows[c] += g.weights[idx] / g.totalWeight;
+      }
+
+      const [flow, exit] = [g.strengths[v] / g.totalWeight, nodeExits[v]];
+      const oldExit = exitFlows[current] - exit + 2 * linkFlows[current];
+      const oldFlow = flows[current] - flow;
+      let [best, bestDelta] = [current, -EPSILON];
+      for (const c of candidates) {
+        const newExit = exitFlows[c] + exit - 2 * linkFlows[c];
+        const newTotal = totalExit - exitFlows[current] - exitFlows[c] + oldExit + newExit;
+        const delta =
+          plogp(newTotal) -
+          plogp(totalExit) +
+          moduleLength(oldExit, oldFlow) +
+          moduleLength(newExit, flows[c] + flow) -
+          moduleLength(exitFlows[current], flows[current]) -
+          moduleLength(exitFlows[c], flows[c]);
+        if (delta < bestDelta) [best, bestDelta] = [c, delta];
+      }
+      if (best === current) continue;
+
+      const newExit = exitFlows[best] + exit - 2 * linkFlows[best];
+      totalExit += oldExit + newExit - exitFlows[current] - exitFlows[best];
+      [exitFlows[current], flows[current]] = [oldExit, oldFlow];
+      [exitFlows[best], flows[best]] = [newExit, flows[best] + flow];
+      membership[v] = best;
+      movedInPass = moved = true;
+    }
+    if (!movedInPass) break;
+  }
+  return moved;
+}
+
+/**
+ * Finds modules by moving nodes and aggregating the modules into nodes until no node moves
+ * @returns Module of every node of `original`
+ */
+function optimize(original: CompactGraph, random: () => number) {
+  let g = original;
+  let membership = Int32Array.from({ length: g.strengths.length }, (_, v) => v);
+  // Node of the current level every original node is part of
+  const levelNodes = Int32Array.from({ length: g.strengths.length }, (_, v) => v);
+  for (let level = 0; level < MAX_LEVELS; level++) {
+    if (!moveNodes(g, membership, random)) break;
+    const count = renumber(membership);
+    for (let i = 0; i < levelNodes.length; i++) levelNodes[i] = membership[levelNodes[i]];
+    g = aggregateGraph(g, membership, count);
+    membership = Int32Array.from({ length: count }, (_, v) => v);
+  }
+  return levelNodes;
+}
+
+/**
+ * Infomap (Rosvall & Bergstrom, 2008), modules minimize the two level map equation, i.e. the description length of
+ * a random walk on the network
+ * @param graph Undirected graph
+ * @param options Number of trials and whether interaction scores are used as edge weights
+ * @returns Community of every node and the modularity of the partition
+ */
+export function infomap(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  { trials, weighted }: InfomapOptions,
+): CommunityPartition {
+  const { nodes, g } = toWeightedCompactGraph(graph, weighted);
+  if (g.totalWeight === 0)
+    return toPartition(
+      nodes,
+      g,
+      Int32Array.from(nodes, (_, v) => v),
+    );
+
+  const random = createRandom(SEED);
+  // Everything in one module, which the modules have to beat
+  let best = new Int32Array(nodes.length);
+  let bestLength = codelength(g, best);
+  for (let trial = 0; trial < Math.max(1, Math.round(trials)); trial++) {
+    const membership = optimize(g, random);
+    renumber(membership);
+    const length = codelength(g, membership);
+    if (length < bestLength - EPSILON) [best, bestLength] = [membership, length];
+  }
+  return toPartition(nodes, g, best);
+}
@@ -0,0 +1,64 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, NodeAttributes } from '../interface';
+import { createRandom, SEED, shuffledRange, toPartition, toWeightedCompactGraph } from './utils';
+
+export interface LabelPropagationOptions {
+  /**
+   * Maximum number of passes over all the nodes
+   */
+  maxIterations: number;
+  /**
+   * Whether interaction scores are used as edge weights
+   */
+  weighted: boolean;
+}
+
+/**
+ * Asynchronous label propagation (Raghavan et al., 2007), every node repeatedly takes the label carrying the largest
+ * weight among its neighbors until no label changes
+ * @param graph Undirected graph
+ * @param options Maximum number of passes and whether interaction scores are used as edge weights
+ * @returns Community of every node and the modularity of the partition
+ */
+export function labelPropagation(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  { maxIterations, weighted }: LabelPropagationOptions,
+): CommunityPartition {
+  const { nodes, g } = toWeightedCompactGraph(graph, weighted);
+  const n = nodes.length;
+  const random = createRandom(SEED);
+  const labels = Int32Array.from({ length: n }, (_, v) => v);
+  const labelWeights = new Float64Array(n);
+  // Stamped with a counter of the visits, as nodes are visited again in the later iterations
+  const stamps = new Int32Array(n).fill(-1);
+  let visit = 0;
+  const candidates: number[] = [];
+  const ties: number[] = [];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (const v of shuffledRange(n, random)) {
+      candidates.length = 0;
+      const stamp = ++visit;
+      for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+        const label = labels[g.neighbors[idx]];
+        if (stamps[label] !== stamp) {
+          stamps[label] = stamp;
+          labelWeights[label] = 0;
+          candidates.push(label);
+        }
+        labelWeights[label] += g.weights[idx];
+      }
+      if (candidates.length === 0) continue;
+      // Ties are broken randomly, keeping the current label if it is among the best to reach convergence
+      const maxWeight = candidates.reduce((max, label) => Math.max(max, labelWeights[label]), 0);
+      ties.length = 0;
+      for (const label of candidates) if (labelWeights[label] === maxWeight) ties.push(label);
+      if (ties.includes(labels[v])) continue;
+      labels[v] = ties[Math.floor(random() * ties.length)];
+      changed = true;
+    }
+    if (!changed) break;
+  }
+  return toPartition(nodes, g, labels);
+}
@@ -0,0 +1,215 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, LeidenOptions, NodeAttributes } from '../interface';
+import {
+  aggregateGraph,
+  type CompactGraph,
+  createRandom,
+  renumber,
+  SEED,
+  shuffledRange,
+  toPartition,
+  toWeightedCompactGraph,
+} from './utils';
+
+/**
+ * Randomness of the refinement phase, lower values make merges closer to greedy
+ */
+const THETA = 0.01;
+const MAX_LEVELS = 100;
+
+/**
+ * Moves nodes to the neighboring community with the largest modularity gain, revisiting only the neighbors of moved nodes
+ */
+function moveNodesFast(g: CompactGraph, membership: Int32Array, resolution: number, random: () => number) {
+  const n = membership.length;
+  const communityWeights = new Float64Array(n);
+  const communitySizes = new Int32Array(n);
+  for (let v = 0; v < n; v++) {
+    communityWeights[membership[v]] += g.strengths[v];
+    communitySizes[membership[v]]++;
+  }
+  const emptyCommunities: number[] = [];
+  for (let c = n - 1; c >= 0; c--) if (communitySizes[c] === 0) emptyCommunities.push(c);
+
+  const queue = shuffledRange(n, random);
+  const inQueue = new Uint8Array(n).fill(1);
+  let [head, queued] = [0, n];
+  const neighborWeights = new Float64Array(n);
+  // Stamped with a counter of the visits, as moved nodes queue their neighbors to be visited again
+  const stamps = new Int32Array(n).fill(-1);
+  let visit = 0;
+  const neighborCommunities: number[] = [];
+
+  while (queued > 0) {
+    const v = queue[head];
+    head = (head + 1) % n;
+    queued--;
+    inQueue[v] = 0;
+
+    const current = membership[v];
+    const strength = g.strengths[v];
+    neighborCommunities.length = 0;
+    const stamp = ++visit;
+    stamps[current] = stamp;
+    neighborWeights[current] = 0;
+    neighborCommunities.push(current);
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      const c = membership[g.neighbors[idx]];
+      if (stamps[c] !== stamp) {
+        stamps[c] = stamp;
+        neighborWeights[c] = 0;
+        neighborCommunities.push(c);
+      }
+      neighborWeights[c] += g.weights[idx];
+    }
+
+    communityWeights[current] -= strength;
+    if (--communitySizes[current] === 0) emptyCommunities.push(current);
+
+    let [best, bestGain] = [
+      current,
+      neighborWeights[current] - (resolution * strength * communityWeights[current]) / g.totalWeight,
+    ];
+    for (const c of neighborCommunities) {
+      const gain = neighborWeights[c] - (resolution * strength * communityWeights[c]) / g.totalWeight;
+      if (gain > bestGain) [best, bestGain] = [c, gain];
+    }
+    // Being alone is better than any neighboring community
+    if (bestGain < 0) best = emptyCommunities.pop()!;
+    else if (communitySizes[best] === 0) emptyCommunities.pop();
+
+    communityWeights[best] += strength;
+    communitySizes[best]++;
+    membership[v] = best;
+    if (best === current) continue;
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      const u = g.neighbors[idx];
+      if (inQueue[u] || membership[u] === best) continue;
+      queue[(head + queued) % n] = u;
+      queued++;
+      inQueue[u] = 1;
+    }
+  }
+}
+
+/**
+ * Splits every community into well connected sub-communities by merging singletons within the community
+ * @returns Refined membership, every refined community lies within a single community of `membership`
+ */
+function refinePartition(g: CompactGraph, membership: Int32Array, resolution: number, random: () => number) {
+  const n = membership.length;
+  const refined = Int32Array.from({ length: n }, (_, v) => v);
+  const refinedWeights = Float64Array.from(g.strengths);
+  const refinedSizes = new Int32Array(n).fill(1);
+  const communityWeights = new Float64Array(n);
+  // Weight of the edges from the refined community to the rest of its community
+  const externalWeights = new Float64Array(n);
+  for (let v = 0; v < n; v++) {
+    communityWeights[membership[v]] += g.strengths[v];
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      if (membership[g.neighbors[idx]] === membership[v]) externalWeights[v] += g.weights[idx];
+    }
+  }
+
+  const neighborWeights = new Float64Array(n);
+  const stamps = new Int32Array(n).fill(-1);
+  const candidates: number[] = [];
+  for (const v of shuffledRange(n, random)) {
+    if (refinedSizes[refined[v]] !== 1) continue;
+    const community = membership[v];
+    const strength = g.strengths[v];
+    const communityWeight = communityWeights[community];
+    if (externalWeights[v] < (resolution * strength * (communityWeight - strength)) / g.totalWeight) continue;
+
+    candidates.length = 0;
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      const u = g.neighbors[idx];
+      if (membership[u] !== community) continue;
+      const c = refined[u];
+      if (stamps[c] !== v) {
+        stamps[c] = v;
+        neighborWeights[c] = 0;
+        candidates.push(c);
+      }
+      neighborWeights[c] += g.weights[idx];
+    }
+
+    // Only well connected refined communities with non-negative gain are merged into, chosen randomly favoring gain
+    const gains: Array<[number, number]> = [];
+    let maxGain = 0;
+    for (const c of candidates) {
+      const weight = refinedWeights[c];
+      if (externalWeights[c] < (resolution * weight * (communityWeight - weight)) / g.totalWeight) continue;
+      const gain = neighborWeights[c] - (resolution * strength * weight) / g.totalWeight;
+      if (gain < 0) continue;
+      gains.push([c, gain]);
+      maxGain = Math.max(maxGain, gain);
+    }
+    if (gains.length === 0) continue;
+    const total = gains.reduce((acc, [, gain]) => acc + Math.exp((gain - maxGain) / THETA), 0);
+    let pick = random() * total;
+    let [target] = gains[gains.length - 1];
+    for (const [c, gain] of gains) {
+      pick -= Math.exp((gain - maxGain) / THETA);
+      if (pick <= 0) {
+        target = c;
+        break;
+      }
+    }
+
+    refinedSizes[refined[v]] = 0;
+    refined[v] = target;
+    refinedSizes[target]++;
+    refinedWeights[target] += strength;
+    externalWeights[target] += externalWeights[v] - 2 * neighborWeights[target];
+  }
+  return refined;
+}
+
+/**
+ * Leiden community detection (Traag et al., 2019) maximizing modularity with resolution
+ * @param graph Undirected graph
+ * @param options Resolution and whether interaction scores are used as edge weights
+ * @returns Community of every node and the modularity of the partition
+ */
+export function leiden(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  { resolution, weighted }: LeidenOptions,
+): CommunityPartition {
+  const { nodes, g: original } = toWeightedCompactGraph(graph, weighted);
+  if (original.totalWeight === 0)
+    return toPartition(
+      nodes,
+      original,
+      Int32Array.from(nodes, (_, v) => v),
+    );
+
+  const random = createRandom(SEED);
+  let g = original;
+  let membership = Int32Array.from({ length: nodes.length }, (_, v) => v);
+  // Node of the current level every original node is part of
+  const levelNodes = Int32Array.from({ length: nodes.length }, (_, v) => v);
+  for (let level = 0; level < MAX_LEVELS; level++) {
+    moveNodesFast(g, membership, resolution, random);
+    const count = renumber(membership);
+    if (count === membership.length) break;
+
+    let refined = refinePartition(g, membership, resolution, random);
+    let refinedCount = renumber(refined);
+    // Nothing merged in refinement, aggregate the communities themselves to make progress
+    if (refinedCount === membership.length) [refined, refinedCount] = [membership, count];
+
+    const nextMembership = new Int32Array(refinedCount);
+    for (let v = 0; v < membership.length; v++) nextMembership[refined[v]] = membership[v];
+    for (let i = 0; i < levelNodes.length; i++) levelNodes[i] = refined[levelNodes[i]];
+    g = aggregateGraph(g, refined, refinedCount);
+    membership = nextMembership;
+  }
+
+  return toPartition(
+    nodes,
+    original,
+    levelNodes.map(node => membership[node]),
+    resolution,
+  );
+}
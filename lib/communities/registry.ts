@@ -0,0 +1,107 @@
+import type { AlgorithmParameter, CommunityAlgorithm, CommunityAlgorithmOptions } from '../interface';
+import { greedyModularity } from './greedyModularity';
+import { infomap } from './infomap';
+import { labelPropagation } from './labelPropagation';
+import { leiden } from './leiden';
+import { walktrap } from './walktrap';
+
+const RESOLUTION_PARAMETER: AlgorithmParameter = {
+  type: 'slider',
+  displayName: 'Resolution',
+  name: 'resolution',
+  defaultValue: 1.0,
+  min: 0.1,
+  max: 3,
+  step: 0.1,
+};
+
+/**
+ * Communities smaller than this are left uncolored, applied after detection
+ */
+const MIN_COMMUNITY_SIZE_PARAMETER: AlgorithmParameter = {
+  type: 'slider',
+  displayName: 'Minimum Community Size',
+  name: 'minCommunitySize',
+  defaultValue: 4,
+  min: 1,
+  max: 50,
+  step: 1,
+};
+
+const WEIGHTED_PARAMETER: AlgorithmParameter = {
+  type: 'checkbox',
+  displayName: 'Weighted',
+  name: 'weighted',
+  defaultValue: true,
+};
+
+/**
+ * Community detection algorithms run in the community worker, in the order listed in network analysis
+ */
+export const COMMUNITY_ALGORITHMS: CommunityAlgorithm[] = [
+  {
+    name: 'Leiden',
+    parameters: [RESOLUTION_PARAMETER, MIN_COMMUNITY_SIZE_PARAMETER, WEIGHTED_PARAMETER],
+    detect: (graph, { resolution, weighted }) => leiden(graph, { resolution: +resolution, weighted: !!weighted }),
+  },
+  {
+    name: 'Infomap',
+    parameters: [
+      { type: 'slider', displayName: 'Trials', name: 'trials', defaultValue: 1, min: 1, max: 10, step: 1 },
+      MIN_COMMUNITY_SIZE_PARAMETER,
+      WEIGHTED_PARAMETER,
+    ],
+    detect: (graph, { trials, weighted }) => infomap(graph, { trials: +trials, weighted: !!weighted }),
+  },
+  {
+    name: 'Label Propagation',
+    parameters: [
+      {
+        type: 'slider',
+        displayName: 'Max Iterations',
+        name: 'maxIterations',
+        defaultValue: 100,
+        min: 10,
+        max: 500,
+        step: 10,
+      },
+      MIN_COMMUNITY_SIZE_PARAMETER,
+      WEIGHTED_PARAMETER,
+    ],
+    detect: (graph, { maxIterations, weighted }) =>
+      labelPropagation(graph, { maxIterations: +maxIterations, weighted: !!weighted }),
+  },
+  {
+    name: 'Walktrap',
+    parameters: [
+      { type: 'slider', displayName: 'Steps', name: 'steps', defaultValue: 4, min: 2, max: 10, step: 1 },
+      MIN_COMMUNITY_SIZE_PARAMETER,
+      WEIGHTED_PARAMETER,
+    ],
+    detect: (graph, { steps, weighted }) => walktrap(graph, { steps: +steps, weighted: !!weighted }),
+  },
+  {
+    name: 'Greedy Modularity',
+    parameters: [RESOLUTION_PARAMETER, MIN_COMMUNITY_SIZE_PARAMETER, WEIGHTED_PARAMETER],
+    detect: (graph, { resolution, weighted }) =>
+      greedyModularity(graph, { resolution: +resolution, weighted: !!weighted }),
+  },
+];
+
+/**
+ * Converts the submitted form values of an algorithm to options, unchecked checkboxes are absent from the form
+ * @param algorithm Algorithm the values are for
+ * @param values Form values keyed by parameter name
+ * @returns Options keyed by parameter name
+ */
+export function parseAlgorithmOptions(
+  algorithm: Pick<CommunityAlgorithm, 'parameters'>,
+  values: Record<string, string> = {},
+): CommunityAlgorithmOptions {
+  return Object.fromEntries(
+    algorithm.parameters.map(({ name, type, defaultValue }) => [
+      name,
+      type === 'checkbox' ? name in values : Number(values[name] ?? defaultValue),
+    ]),
+  );
+}
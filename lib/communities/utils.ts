@@ -0,0 +1,222 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, NodeAttributes } from '../interface';
+
+/**
+ * Fixed seed so that the same network and parameters always give the same communities
+ */
+export const SEED = 42;
+
+/**
+ * Weighted undirected graph with nodes as indices and neighbors in compressed sparse row form (self loops excluded)
+ */
+export interface CompactGraph {
+  /**
+   * Start of the neighbors of every node in `neighbors`/`weights`, with total count at the end
+   */
+  offsets: Int32Array;
+  neighbors: Int32Array;
+  weights: Float64Array;
+  /**
+   * Total weight of the edges incident to the node, including the ones merged inside an aggregated node
+   */
+  strengths: Float64Array;
+  /**
+   * Twice the total edge weight
+   */
+  totalWeight: number;
+}
+
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffledRange(n: number, random: () => number) {
+  const order = Int32Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+export function toCompactGraph(adjacency: Array<Map<number, number>>, strengths: Float64Array): CompactGraph {
+  const offsets = new Int32Array(adjacency.length + 1);
+  adjacency.forEach((neighbors, v) => {
+    offsets[v + 1] = offsets[v] + neighbors.size;
+  });
+  const neighbors = new Int32Array(offsets[adjacency.length]);
+  const weights = new Float64Array(offsets[adjacency.length]);
+  adjacency.forEach((adjacent, v) => {
+    let idx = offsets[v];
+    for (const [u, weight] of adjacent) {
+      neighbors[idx] = u;
+      weights[idx++] = weight;
+    }
+  });
+  return { offsets, neighbors, weights, strengths, totalWeight: strengths.reduce((acc, k) => acc + k, 0) };
+}
+
+/**
+ * Renumbers the communities to be consecutive from 0
+ * @returns Number of communities
+ */
+export function renumber(membership: Int32Array) {
+  const ids = new Map<number, number>();
+  for (let v = 0; v < membership.length; v++) {
+    let id = ids.get(membership[v]);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(membership[v], id);
+    }
+    membership[v] = id;
+  }
+  return ids.size;
+}
+
+/**
+ * Collapses every community into a node, edges between communities are summed up
+ */
+export function aggregateGraph(g: CompactGraph, membership: Int32Array, count: number): CompactGraph {
+  const adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  const strengths = new Float64Array(count);
+  for (let v = 0; v < membership.length; v++) {
+    const cv = membership[v];
+    strengths[cv] += g.strengths[v];
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      const cu = membership[g.neighbors[idx]];
+      if (cu !== cv) adjacency[cv].set(cu, (adjacency[cv].get(cu) ?? 0) + g.weights[idx]);
+    }
+  }
+  return toCompactGraph(adjacency, strengths);
+}
+
+/**
+ * Converts the graph to a compact graph, parallel edges are summed up and non-positive weights dropped
+ * @param graph Undirected graph
+ * @param weighted Whether interaction scores are used as edge weights
+ * @returns Node IDs in the order of their indices along with the compact graph
+ */
+export function toWeightedCompactGraph(graph: Graph<NodeAttributes, EdgeAttributes>, weighted: boolean) {
+  const nodes = graph.nodes();
+  const index = new Map(nodes.map((node, idx) => [node, idx]));
+  const adjacency = nodes.map(() => new Map<number, number>());
+  const strengths = new Float64Array(nodes.length);
+  graph.forEachEdge((_edge, attr, source, target) => {
+    const [s, t] = [index.get(source)!, index.get(target)!];
+    const weight = weighted ? (attr.score ?? 0) : 1;
+    if (s === t || weight <= 0) return;
+    adjacency[s].set(t, (adjacency[s].get(t) ?? 0) + weight);
+    adjacency[t].set(s, (adjacency[t].get(s) ?? 0) + weight);
+    strengths[s] += weight;
+    strengths[t] += weight;
+  });
+  return { nodes, g: toCompactGraph(adjacency, strengths) };
+}
+
+/**
+ * Modularity of the partition, `membership` must be numbered consecutively from 0
+ * @param g Compact graph
+ * @param membership Community of every node
+ * @param resolution Resolution of the modularity
+ */
+export function modularity(g: CompactGraph, membership: Int32Array, resolution = 1) {
+  if (g.totalWeight === 0) return 0;
+  const communityWeights = new Float64Array(membership.length);
+  let internalWeight = 0;
+  for (let v = 0; v < membership.length; v++) {
+    communityWeights[membership[v]] += g.strengths[v];
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+      if (membership[g.neighbors[idx]] === membership[v]) internalWeight += g.weights[idx];
+    }
+  }
+  return (
+    internalWeight / g.totalWeight -
+    (resolution * communityWeights.reduce((acc, weight) => acc + weight * weight, 0)) / g.totalWeight ** 2
+  );
+}
+
+/**
+ * Builds the partition of the graph from the community of every node
+ * @param nodes Node IDs in the order of their indices
+ * @param g Compact graph the membership refers to
+ * @param membership Community of every node, renumbered in place
+ * @param resolution Resolution of the modularity
+ */
+export function toPartition(
+  nodes: string[],
+  g: CompactGraph,
+  membership: Int32Array,
+  resolution = 1,
+): CommunityPartition {
+  renumber(membership);
+  return {
+    communities: Object.fromEntries(nodes.map((node, v) => [node, membership[v]])),
+    modularity: modularity(g, membership, resolution),
+  };
+}
+
+/**
+ * Resolves the community of every node from the merges of a hierarchical clustering
+ * @param parents Community every node or community was merged into, itself for the ones never merged
+ * @returns Root community of every node
+ */
+export function resolveMerges(parents: Int32Array) {
+  const find = (v: number): number => {
+    while (parents[v] !== v) {
+      parents[v] = parents[parents[v]];
+      v = parents[v];
+    }
+    return v;
+  };
+  return parents.map((_, v) => find(v));
+}
+
+/**
+ * Binary heap popping the item with the smallest priority first
+ */
+export class MinHeap<T> {
+  private items: Array<{ priority: number; value: T }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(priority: number, value: T) {
+    const items = this.items;
+    items.push({ priority, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const [left, right] = [2 * i + 1, 2 * i + 2];
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
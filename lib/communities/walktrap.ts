@@ -0,0 +1,152 @@
+import type Graph from 'graphology';
+import type { CommunityPartition, EdgeAttributes, NodeAttributes } from '../interface';
+import { type CompactGraph, MinHeap, resolveMerges, toPartition, toWeightedCompactGraph } from './utils';
+
+export interface WalktrapOptions {
+  /**
+   * Length of the random walks, longer walks give larger communities
+   */
+  steps: number;
+  /**
+   * Whether interaction scores are used as edge weights
+   */
+  weighted: boolean;
+}
+
+/**
+ * Sparse probability vector of a random walk, entries scaled by the inverse square root of the node strength so that
+ * the walktrap distance is the euclidean distance
+ */
+interface WalkVector {
+  indices: Int32Array;
+  values: Float64Array;
+}
+
+/**
+ * Probabilities of reaching every node in `steps` steps of a random walk from `source`, the walk stays at a node with
+ * the weight of its loop
+ */
+function walkVector(g: CompactGraph, loops: Float64Array, source: number, steps: number): WalkVector {
+  let probabilities = new Map([[source, 1]]);
+  for (let step = 0; step < steps; step++) {
+    const next = new Map<number, number>();
+    for (const [v, probability] of probabilities) {
+      const share = probability / (g.strengths[v] + loops[v]);
+      next.set(v, (next.get(v) ?? 0) + share * loops[v]);
+      for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) {
+        const u = g.neighbors[idx];
+        next.set(u, (next.get(u) ?? 0) + share * g.weights[idx]);
+      }
+    }
+    probabilities = next;
+  }
+  const indices = Int32Array.from(probabilities.keys()).sort();
+  return {
+    indices,
+    values: Float64Array.from(indices, v => probabilities.get(v)! / Math.sqrt(g.strengths[v] + loops[v])),
+  };
+}
+
+function squaredDistance(a: WalkVector, b: WalkVector) {
+  let [i, j, distance] = [0, 0, 0];
+  while (i < a.indices.length || j < b.indices.length) {
+    if (j >= b.indices.length || (i < a.indices.length && a.indices[i] < b.indices[j])) distance += a.values[i++] ** 2;
+    else if (i >= a.indices.length || b.indices[j] < a.indices[i]) distance += b.values[j++] ** 2;
+    else distance += (a.values[i++] - b.values[j++]) ** 2;
+  }
+  return distance;
+}
+
+/**
+ * Weighted average of two walk vectors
+ */
+function mergeVectors(a: WalkVector, sizeA: number, b: WalkVector, sizeB: number): WalkVector {
+  const [indices, values]: [number[], number[]] = [[], []];
+  const [wa, wb] = [sizeA / (sizeA + sizeB), sizeB / (sizeA + sizeB)];
+  let [i, j] = [0, 0];
+  while (i < a.indices.length || j < b.indices.length) {
+    if (j >= b.indices.length || (i < a.indices.length && a.indices[i] < b.indices[j])) {
+      indices.push(a.indices[i]);
+      values.push(wa * a.values[i++]);
+    } else if (i >= a.indices.length || b.indices[j] < a.indices[i]) {
+      indices.push(b.indices[j]);
+      values.push(wb * b.values[j++]);
+    } else {
+      indices.push(a.indices[i]);
+      values.push(wa * a.values[i++] + wb * b.values[j++]);
+    }
+  }
+  return { indices: Int32Array.from(indices), values: Float64Array.from(values) };
+}
+
+/**
+ * Walktrap (Pons & Latapy, 2005), adjacent communities whose short random walks look alike are merged one pair at a
+ * time, the partition with the largest modularity along the way is returned
+ * @param graph Undirected graph
+ * @param options Length of the random walks and whether interaction scores are used as edge weights
+ * @returns Community of every node and the modularity of the partition
+ */
+export function walktrap(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  { steps, weighted }: WalktrapOptions,
+): CommunityPartition {
+  const { nodes, g } = toWeightedCompactGraph(graph, weighted);
+  const n = nodes.length;
+  // Every node gets a loop weighing as much as its average edge
+  const loops = Float64Array.from({ length: n }, (_, v) => {
+    const degree = g.offsets[v + 1] - g.offsets[v];
+    return degree ? g.strengths[v] / degree : 1;
+  });
+  const vectors: Array<WalkVector | null> = Array.from({ length: n }, (_, v) =>
+    walkVector(g, loops, v, Math.round(steps)),
+  );
+  const sizes = new Int32Array(n).fill(1);
+  const adjacency = Array.from({ length: n }, (_, v) => {
+    const neighbors = new Map<number, number>();
+    for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) neighbors.set(g.neighbors[idx], g.weights[idx]);
+    return neighbors;
+  });
+  const communityWeights = Float64Array.from(g.strengths);
+  const versions = new Int32Array(n);
+  const deltaSigma = (i: number, j: number) =>
+    ((sizes[i] * sizes[j]) / (sizes[i] + sizes[j]) / n) * squaredDistance(vectors[i]!, vectors[j]!);
+
+  const queue = new MinHeap<[number, number, number, number]>();
+  for (let i = 0; i < n; i++) {
+    for (const j of adjacency[i].keys()) if (i < j) queue.push(deltaSigma(i, j), [i, j, 0, 0]);
+  }
+
+  const merges: Array<[number, number]> = [];
+  let modularity = g.totalWeight ? -communityWeights.reduce((acc, k) => acc + k * k, 0) / g.totalWeight ** 2 : 0;
+  let [bestModularity, bestStep] = [modularity, 0];
+  while (queue.size > 0) {
+    const {
+      value: [i, j, versionI, versionJ],
+    } = queue.pop()!;
+    if (!vectors[i] || !vectors[j] || versions[i] !== versionI || versions[j] !== versionJ) continue;
+
+    modularity +=
+      2 * (adjacency[i].get(j)! / g.totalWeight - (communityWeights[i] * communityWeights[j]) / g.totalWeight ** 2);
+    const [from, into] = adjacency[i].size < adjacency[j].size ? [i, j] : [j, i];
+    vectors[into] = mergeVectors(vectors[into]!, sizes[into], vectors[from]!, sizes[from]);
+    vectors[from] = null;
+    for (const [k, weight] of adjacency[from]) {
+      adjacency[k].delete(from);
+      if (k === into) continue;
+      const merged = (adjacency[into].get(k) ?? 0) + weight;
+      adjacency[into].set(k, merged);
+      adjacency[k].set(into, merged);
+    }
+    adjacency[from].clear();
+    sizes[into] += sizes[from];
+    communityWeights[into] += communityWeights[from];
+    versions[into]++;
+    merges.push([from, into]);
+    if (modularity > bestModularity) [bestModularity, bestStep] = [modularity, merges.length];
+    for (const k of adjacency[into].keys()) queue.push(deltaSigma(into, k), [into, k, versions[into], versions[k]]);
+  }
+
+  const parents = Int32Array.from({ length: n }, (_, v) => v);
+  for (const [from, into] of merges.slice(0, bestStep)) parents[from] = into;
+  return toPartition(nodes, g, resolveMerges(parents));
+}
@@ -1,36 +1,16 @@
-export const algorithms = [
+import { COMMUNITY_ALGORITHMS } from '../communities';
+import type { AlgorithmParameter } from '../interface';
+import { DIAMOND_ALGORITHM, DIAMOND_PARAMETERS } from '../propagation';
+
+export const algorithms: Array<{ name: string; parameters: AlgorithmParameter[] }> = [
   {
     name: 'None',
     parameters: [],
   },
+  ...COMMUNITY_ALGORITHMS.map(({ name, parameters }) => ({ name, parameters })),
   {
-    name: 'Leiden',
-    parameters: [
-      {
-        type: 'slider',
-        displayName: 'Resolution',
-        name: 'resolution',
-        defaultValue: 1.0,
-        min: 0.1,
-        max: 3,
-        step: 0.1,
-      },
-      {
-        type: 'slider',
-        displayName: 'Minimum Community Size',
-        name: 'minCommunitySize',
-        defaultValue: 4,
-        min: 1,
-        max: 50,
-        step: 1,
-      },
-      {
-        type: 'checkbox',
-        displayName: 'Weighted',
-        name: 'weighted',
-        defaultValue: true,
-      },
-    ],
+    name: DIAMOND_ALGORITHM,
+    parameters: DIAMOND_PARAMETERS,
   },
 ];
 
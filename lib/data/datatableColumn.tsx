@@ -1,7 +1,14 @@
 import type { CellContext, Column, ColumnDef } from '@tanstack/react-table';
 import { ArrowUpDownIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import type { Gsea, SelectedNodeProperty } from '@/lib/interface';
+import type {
+  DiseaseModuleGene,
+  GenePath,
+  Gsea,
+  NodeCentralityRow,
+  PropagationCandidate,
+  SelectedNodeProperty,
+} from '@/lib/interface';
 
 function headerHelper<TData>(columnName: string) {
   return ({ column }: { column: Column<TData> }) => {
@@ -110,91 +117,114 @@ export const columnGseaResults: ColumnDef<Gsea>[] = [
   },
 ];
 
-export const columnTop10ByDegree: ColumnDef<Record<string, string>>[] = [
+export const columnPropagationResults: ColumnDef<PropagationCandidate & { rank: number }>[] = [
   {
-    accessorKey: 'ID',
-    header: headerHelper('ENSG ID'),
+    accessorKey: 'rank',
+    header: headerHelper('Rank'),
+    meta: { textAlign: 'center', width: '5rem' },
   },
   {
     accessorKey: 'geneName',
     header: headerHelper('Gene Name'),
+    cell: ({ row }) => (
+      <span className={row.original.seed ? 'font-semibold' : ''}>
+        {row.original.geneName}
+        {row.original.seed && ' (seed)'}
+      </span>
+    ),
   },
-  {
-    accessorKey: 'description',
-    header: headerHelper('Description'),
-  },
-  {
-    accessorKey: 'degree',
-    header: headerHelper('Degree'),
-    sortingFn: (a, b) => Number(a.original.Degree) - Number(b.original.Degree),
-    meta: { textAlign: 'center' },
-  },
-];
-
-export const columnTop10ByBetweenness: ColumnDef<Record<string, string>>[] = [
   {
     accessorKey: 'ID',
     header: headerHelper('ENSG ID'),
   },
   {
-    accessorKey: 'geneName',
-    header: headerHelper('Gene Name'),
-  },
-  {
-    accessorKey: 'description',
-    header: headerHelper('Description'),
+    accessorKey: 'score',
+    header: headerHelper('Score'),
+    cell: ({ row }) => row.original.score.toExponential(3),
+    sortDescFirst: true,
+    meta: { textAlign: 'center' },
   },
   {
-    accessorKey: 'betweenness',
-    header: headerHelper('Betweenness'),
-    sortingFn: (a, b) => Number(a.original.Betweenness) - Number(b.original.Betweenness),
+    accessorKey: 'pValue',
+    header: headerHelper('Empirical P-Value'),
+    cell: ({ row }) => row.original.pValue?.toFixed(4) ?? '-',
+    sortUndefined: 'last',
     meta: { textAlign: 'center' },
   },
 ];
 
-export const columnTop10ByCloseness: ColumnDef<Record<string, string>>[] = [
+export const columnDiseaseModule: ColumnDef<DiseaseModuleGene & { rank: number }>[] = [
   {
-    accessorKey: 'ID',
-    header: headerHelper('ENSG ID'),
+    accessorKey: 'rank',
+    header: headerHelper('Order'),
+    meta: { textAlign: 'center', width: '5rem' },
   },
   {
     accessorKey: 'geneName',
     header: headerHelper('Gene Name'),
+    cell: ({ row }) => <span className='font-semibold'>{row.original.geneName}</span>,
   },
   {
-    accessorKey: 'description',
-    header: headerHelper('Description'),
+    accessorKey: 'ID',
+    header: headerHelper('ENSG ID'),
   },
   {
-    accessorKey: 'closeness',
-    header: headerHelper('Closeness'),
-    sortingFn: (a, b) => Number(a.original.Closeness) - Number(b.original.Closeness),
+    accessorKey: 'connectivity',
+    header: headerHelper('Links to Module'),
+    cell: ({ row }) => `${row.original.connectivity}/${row.original.degree}`,
+    meta: { textAlign: 'center' },
+  },
+  {
+    accessorKey: 'pValue',
+    header: headerHelper('P-Value'),
+    cell: ({ row }) => row.original.pValue.toExponential(2),
     meta: { textAlign: 'center' },
   },
 ];
 
-export const columnTop10ByEigenvector: ColumnDef<Record<string, string>>[] = [
+export const columnShortestPaths: ColumnDef<GenePath & { rank: number; source: string; target: string }>[] = [
   {
-    accessorKey: 'ID',
-    header: headerHelper('ENSG ID'),
+    accessorKey: 'source',
+    header: headerHelper('Source'),
+    cell: ({ row }) => <span className='font-semibold'>{row.original.source}</span>,
   },
   {
-    accessorKey: 'geneName',
-    header: headerHelper('Gene Name'),
+    accessorKey: 'target',
+    header: headerHelper('Target'),
+    cell: ({ row }) => <span className='font-semibold'>{row.original.target}</span>,
   },
   {
-    accessorKey: 'description',
-    header: headerHelper('Description'),
+    accessorKey: 'rank',
+    header: headerHelper('Rank'),
+    meta: { textAlign: 'center', width: '5rem' },
+  },
+  {
+    id: 'hops',
+    accessorFn: row => row.edges.length,
+    header: headerHelper('Hops'),
+    meta: { textAlign: 'center' },
   },
   {
-    accessorKey: 'eigenvector',
-    header: headerHelper('Eigenvector'),
-    sortingFn: (a, b) => Number(a.original.Eigenvector) - Number(b.original.Eigenvector),
+    accessorKey: 'distance',
+    header: headerHelper('Distance'),
+    cell: ({ row }) =>
+      Number.isInteger(row.original.distance) ? row.original.distance : row.original.distance.toFixed(4),
     meta: { textAlign: 'center' },
   },
+  {
+    id: 'path',
+    accessorFn: row => row.labels.join(' → '),
+    header: headerHelper('Path'),
+    meta: { wordBreak: 'break-word' },
+  },
 ];
 
-export const columnTop10ByPageRank: ColumnDef<Record<string, string>>[] = [
+const formatCentrality = ({ getValue }: CellContext<NodeCentralityRow, number | undefined>) => {
+  const value = getValue();
+  return value === undefined ? '-' : Number.isInteger(value) ? value : value.toFixed(4);
+};
+
+export const columnNodeCentrality: ColumnDef<NodeCentralityRow, string | number | undefined>[] = [
   {
     accessorKey: 'ID',
     header: headerHelper('ENSG ID'),
@@ -202,17 +232,32 @@ export const columnTop10ByPageRank: ColumnDef<Record<string, string>>[] = [
   {
     accessorKey: 'geneName',
     header: headerHelper('Gene Name'),
+    cell: ({ getValue }) => <span className='font-semibold'>{getValue()}</span>,
   },
   {
     accessorKey: 'description',
     header: headerHelper('Description'),
+    meta: { wordBreak: 'break-word' },
   },
-  {
-    accessorKey: 'pagerank',
-    header: headerHelper('PageRank'),
-    sortingFn: (a, b) => Number(a.original.PageRank) - Number(b.original.PageRank),
+  ...(
+    [
+      ['degree', 'Degree'],
+      ['betweenness', 'Betweenness'],
+      ['closeness', 'Closeness'],
+      ['eigenvector', 'Eigenvector'],
+      ['pagerank', 'PageRank'],
+      ['clustering', 'Clustering'],
+      ['coreness', 'K-Core'],
+    ] as const
+  ).map<ColumnDef<NodeCentralityRow, string | number | undefined>>(([key, label]) => ({
+    accessorKey: key,
+    header: headerHelper(label),
+    cell: formatCentrality as ColumnDef<NodeCentralityRow, string | number | undefined>['cell'],
+    sortDescFirst: true,
+    sortUndefined: 'last',
+    enableGlobalFilter: false,
     meta: { textAlign: 'center' },
-  },
+  })),
 ];
 
 const prioritizationKeys = [
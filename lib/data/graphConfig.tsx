@@ -1,3 +1,5 @@
+import type { NodeCentralityMetric } from '../interface';
+
 export const PROPERTY_LABEL_TYPE_MAPPING = {
   'Differential Expression': 'DEG',
   'Target Disease Association': 'OpenTargets',
@@ -6,6 +8,8 @@ export const PROPERTY_LABEL_TYPE_MAPPING = {
   Druggability: 'Druggability',
   'Tissue Specificity': 'TE',
   Custom: 'Custom_Color',
+  'Node Attributes': 'Attribute',
+  'Network Topology': 'Topology',
 } as const;
 
 export const PROPERTY_TYPE_LABEL_MAPPING = {
@@ -16,8 +20,34 @@ export const PROPERTY_TYPE_LABEL_MAPPING = {
   Druggability: 'Druggability',
   TE: 'Tissue Specificity',
   Custom_Color: 'Custom',
+  Attribute: 'Node Attributes',
+  Topology: 'Network Topology',
 } as const;
 
+/**
+ * Network topology properties mapped to the node centrality they are read from
+ */
+export const TOPOLOGY_PROPERTIES = {
+  Degree: 'degree',
+  Betweenness: 'betweenness',
+  Closeness: 'closeness',
+  Eigenvector: 'eigenvector',
+  PageRank: 'pagerank',
+  'K-Core': 'coreness',
+} as const satisfies Record<string, NodeCentralityMetric>;
+
+export type TopologyProperty = keyof typeof TOPOLOGY_PROPERTIES;
+
+/**
+ * Topology property coloring nodes by their community, available once communities are detected
+ */
+export const COMMUNITY_PROPERTY = 'Community';
+
+/**
+ * Topology property coloring/sizing nodes by their score in the last network propagation run
+ */
+export const PROPAGATION_PROPERTY = 'Propagation Score';
+
 export const DISEASE_DEPENDENT_PROPERTIES = ['DEG', 'OpenTargets'] as const;
 export const DISEASE_INDEPENDENT_PROPERTIES = [
   'Pathway',
@@ -25,6 +55,7 @@ export const DISEASE_INDEPENDENT_PROPERTIES = [
   'TE',
   'Custom_Color',
   'OT_Prioritization',
+  'Attribute',
 ] as const;
 
 export type DiseaseDependentProperties = (typeof DISEASE_DEPENDENT_PROPERTIES)[number];
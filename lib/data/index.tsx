@@ -17,6 +17,24 @@ export const DEFAULT_EDGE_COLOR = 'rgba(197, 197, 197, 1)';
 
 export const HIGHLIGHTED_EDGE_COLOR = 'rgb(255, 0, 0)';
 export const FADED_EDGE_COLOR = 'rgb(204, 204, 204)';
+export const SELECTED_EDGE_COLOR = 'rgb(37, 99, 235)';
+
+/**
+ * External resources a gene can be looked up on from its context menu
+ */
+export const GENE_EXTERNAL_LINKS: Array<{ name: string; url: (ID: string, geneName: string) => string }> = [
+  { name: 'Ensembl', url: ID => `https://www.ensembl.org/Homo_sapiens/Gene/Summary?g=${ID}` },
+  { name: 'GeneCards', url: (_, geneName) => `https://www.genecards.org/cgi-bin/carddisp.pl?gene=${geneName}` },
+  { name: 'Open Targets', url: ID => `https://platform.opentargets.org/target/${ID}` },
+  {
+    name: 'UniProt',
+    url: (_, geneName) => `https://www.uniprot.org/uniprotkb?query=gene_exact:${geneName}+AND+organism_id:9606`,
+  },
+  {
+    name: 'NCBI Gene',
+    url: (_, geneName) => `https://www.ncbi.nlm.nih.gov/gene/?term=${geneName}[sym]+AND+human[orgn]`,
+  },
+];
 
 export const LLM_MODELS = [
   {
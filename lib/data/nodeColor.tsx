@@ -91,6 +91,26 @@ export const nodeColor = [
       </>
     ),
   },
+  {
+    label: 'Node Attributes',
+    tooltipContent: (
+      <>
+        Node attributes of uploaded GraphML/GEXF networks, numeric ones are colored from low to high and textual ones by
+        their value <br />
+        <b>Column Prefix:</b> <i>Attribute</i>
+      </>
+    ),
+  },
+  {
+    label: 'Network Topology',
+    tooltipContent: (
+      <>
+        Topology of the gene in the network like degree, betweenness and k-core number or its community <br />
+        <b>Note:</b> Values are filled in as network statistics are computed (progress in Statistics tab). Community
+        requires a community detection algorithm to be run first.
+      </>
+    ),
+  },
 ] as const;
 
 export type NodeColorType = {
@@ -65,6 +65,24 @@ export const nodeSize = [
       </>
     ),
   },
+  {
+    label: 'Node Attributes',
+    tooltipContent: (
+      <>
+        Numeric node attributes of uploaded GraphML/GEXF networks <br />
+        <b>Column Prefix:</b> <i>Attribute</i>
+      </>
+    ),
+  },
+  {
+    label: 'Network Topology',
+    tooltipContent: (
+      <>
+        Topology of the gene in the network like degree, betweenness and k-core number <br />
+        <b>Note:</b> Values are filled in as network statistics are computed (progress in Statistics tab).
+      </>
+    ),
+  },
 ] as const;
 
 export type NodeSizeType = {
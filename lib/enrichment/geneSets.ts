@@ -0,0 +1,31 @@
+import type { GeneSetLibrary, GraphStore } from '../interface';
+
+/**
+ * Gene sets of the pathways loaded in the universal data (database and uploaded `Pathway_` columns) along with the
+ * uploaded GMT gene sets
+ * @param state Universal data, radio options and uploaded gene sets of the store
+ * @param geneNames Gene name of every gene of the network keyed by gene ID
+ * @returns Gene sets keyed by term name
+ */
+export function collectGeneSets(
+  { universalData, radioOptions, userGeneSets }: Pick<GraphStore, 'universalData' | 'radioOptions' | 'userGeneSets'>,
+  geneNames: Map<string, string>,
+): GeneSetLibrary {
+  const library: Record<string, Set<string>> = {};
+  const pathways = [
+    ...radioOptions.database.Pathway.map(({ name }) => ({ name, section: 'common' as const })),
+    ...radioOptions.user.Pathway.map(name => ({ name, section: 'user' as const })),
+  ];
+  for (const [gene, name] of geneNames) {
+    const data = universalData[gene];
+    if (!data) continue;
+    for (const { name: pathway, section } of pathways) {
+      if (+data[section].Pathway[pathway]) (library[pathway] ??= new Set()).add(name.toUpperCase());
+    }
+  }
+  for (const [term, genes] of Object.entries(userGeneSets)) {
+    const geneSet = (library[term] ??= new Set());
+    for (const gene of genes) geneSet.add(gene);
+  }
+  return Object.fromEntries(Object.entries(library).map(([term, genes]) => [term, Array.from(genes)]));
+}
@@ -0,0 +1,28 @@
+import type { GeneSetLibrary } from '../interface';
+
+/**
+ * Parses a GMT file, every line has the term name, a description and the genes of the term separated by tabs
+ * @param text Content of the file
+ * @returns Gene sets keyed by term name with upper cased gene names
+ */
+export function parseGMT(text: string): GeneSetLibrary {
+  const library: GeneSetLibrary = {};
+  for (const line of text.split(/\r?\n/)) {
+    const [term, _description, ...genes] = line.split('\t').map(value => value.trim());
+    if (!term || genes.length === 0) continue;
+    const geneSet = new Set(library[term]);
+    // Genes may carry a weight as `GENE,1.0`
+    for (const gene of genes) if (gene) geneSet.add(gene.split(',')[0].toUpperCase());
+    library[term] = Array.from(geneSet);
+  }
+  return library;
+}
+
+/**
+ * Writes gene sets as a GMT file, the inverse of `parseGMT`
+ * @param terms Gene sets in the order of the lines, terms sharing a name are kept as separate lines
+ * @returns Content of the file
+ */
+export function formatGMT(terms: Array<{ term: string; description?: string; genes: string[] }>) {
+  return terms.map(({ term, description, genes }) => [term, description ?? term, ...genes].join('\t')).join('\n');
+}
@@ -0,0 +1,4 @@
+export * from './geneSets';
+export * from './gmt';
+export * from './map';
+export * from './ora';
@@ -0,0 +1,100 @@
+import { forceCollide, forceLink, forceManyBody, forceSimulation, type SimulationNodeDatum } from 'd3-force';
+import Graph from 'graphology';
+import type { EdgeAttributes, EnrichedTerm, EnrichmentMapEdge, Gsea, NodeAttributes } from '../interface';
+
+/**
+ * Parses the rows of the GSEA table, from the local engine or the remote service
+ * @param rows Rows of the GSEA table
+ * @returns Terms ordered by adjusted p-value
+ */
+export function parseGseaRows(rows: Gsea[]): EnrichedTerm[] {
+  return rows
+    .map(row => {
+      const [overlap, setSize] = String(row.Overlap).split('/').map(Number);
+      const genes = String(row.Genes ?? '')
+        .split(/[;,]\s*/)
+        .filter(Boolean);
+      return {
+        term: row.Pathway,
+        genes,
+        setSize: setSize || overlap || genes.length,
+        adjustedPValue: Number(row['Adjusted P-value']),
+      };
+    })
+    .filter(({ adjustedPValue }) => !Number.isNaN(adjustedPValue))
+    .sort((a, b) => a.adjustedPValue - b.adjustedPValue);
+}
+
+/**
+ * Connects the terms sharing enough of their query genes
+ * @param terms Enriched terms
+ * @param minJaccard Minimum Jaccard index of the genes of two terms to connect them
+ * @returns Edges between the terms
+ */
+export function enrichmentMapEdges(terms: EnrichedTerm[], minJaccard: number): EnrichmentMapEdge[] {
+  const geneSets = terms.map(({ genes }) => new Set(genes));
+  const edges: EnrichmentMapEdge[] = [];
+  for (let i = 0; i < terms.length; i++) {
+    for (let j = i + 1; j < terms.length; j++) {
+      const genes = terms[i].genes.filter(gene => geneSets[j].has(gene));
+      const union = geneSets[i].size + geneSets[j].size - genes.length;
+      const jaccard = union ? genes.length / union : 0;
+      if (genes.length > 0 && jaccard >= minJaccard) {
+        edges.push({ source: terms[i].term, target: terms[j].term, jaccard, genes });
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Graph of the enrichment map with terms laid out by a static force simulation, nodes are sized by the number of
+ * query genes of the term and edges by the Jaccard index
+ * @param terms Enriched terms
+ * @param edges Edges between the terms
+ * @param color Color of the node of a term
+ */
+export function buildEnrichmentMap(
+  terms: EnrichedTerm[],
+  edges: EnrichmentMapEdge[],
+  color: (term: EnrichedTerm) => string,
+) {
+  const graph = new Graph<NodeAttributes, EdgeAttributes>({ type: 'undirected' });
+  const maxGenes = Math.max(1, ...terms.map(({ genes }) => genes.length));
+  const nodes: Array<SimulationNodeDatum & { id: string; size: number }> = terms.map(({ term, genes }) => ({
+    id: term,
+    size: 4 + 12 * Math.sqrt(genes.length / maxGenes),
+  }));
+  forceSimulation(nodes)
+    .force(
+      'link',
+      forceLink<(typeof nodes)[number], { source: string; target: string; jaccard: number }>(
+        edges.map(({ source, target, jaccard }) => ({ source, target, jaccard })),
+      )
+        .id(({ id }) => id)
+        .strength(({ jaccard }) => jaccard),
+    )
+    .force('charge', forceManyBody().strength(-150))
+    .force(
+      'collide',
+      forceCollide<(typeof nodes)[number]>(({ size }) => size * 2),
+    )
+    .stop()
+    .tick(300);
+  for (const [idx, term] of terms.entries()) {
+    const { x = 0, y = 0, size } = nodes[idx];
+    graph.mergeNode(term.term, {
+      x,
+      y,
+      size,
+      label: term.term,
+      color: color(term),
+      description: `${term.genes.length} genes, FDR ${term.adjustedPValue.toExponential(2)}`,
+    });
+  }
+  for (const { source, target, jaccard } of edges) {
+    if (source === target) continue;
+    graph.mergeEdge(source, target, { score: jaccard, size: 1 + 5 * jaccard });
+  }
+  return graph;
+}
@@ -0,0 +1,130 @@
+import type { EnrichmentOptions, EnrichmentResult, GeneSetLibrary, Gsea } from '../interface';
+
+const DEFAULT_MIN_SET_SIZE = 3;
+const DEFAULT_MAX_SET_SIZE = 2000;
+
+/**
+ * Number of terms listed per gene list, e.g. for every community
+ */
+export const TOP_TERMS = 5;
+
+/**
+ * Natural logarithm of `i!` for every `i` up to `n`
+ */
+export function logFactorials(n: number) {
+  const logFactorial = new Float64Array(n + 1);
+  for (let i = 2; i <= n; i++) logFactorial[i] = logFactorial[i - 1] + Math.log(i);
+  return logFactorial;
+}
+
+/**
+ * Probability of drawing at least `k` genes of a set of `K` genes when drawing `n` of `N` genes without replacement
+ * @param k Overlap of the query with the set
+ * @param N Number of genes in the universe
+ * @param K Number of genes of the set in the universe
+ * @param n Number of query genes in the universe
+ * @param logFactorial Log factorials up to `N`, shared by the tests on the same universe
+ * @returns Upper tail p-value of the hypergeometric distribution
+ */
+export function hypergeometricTest(k: number, N: number, K: number, n: number, logFactorial = logFactorials(N)) {
+  const logChoose = (a: number, b: number) => logFactorial[a] - logFactorial[b] - logFactorial[a - b];
+  const denominator = logChoose(N, n);
+  let pValue = 0;
+  for (let i = Math.max(k, n - (N - K)); i <= Math.min(K, n); i++) {
+    pValue += Math.exp(logChoose(K, i) + logChoose(N - K, n - i) - denominator);
+  }
+  return Math.min(pValue, 1);
+}
+
+/**
+ * Benjamini-Hochberg adjustment controlling the false discovery rate
+ * @param pValues P-values of all the tested hypotheses
+ * @returns Adjusted p-values in the same order
+ */
+export function benjaminiHochberg(pValues: number[]) {
+  const order = pValues.map((_, idx) => idx).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(pValues.length);
+  let minimum = 1;
+  for (let rank = order.length - 1; rank >= 0; rank--) {
+    const idx = order[rank];
+    minimum = Math.min(minimum, (pValues[idx] * order.length) / (rank + 1));
+    adjusted[idx] = minimum;
+  }
+  return adjusted;
+}
+
+/**
+ * Over-representation analysis of the query genes in every term of the library against the universe, testing with the
+ * hypergeometric distribution and correcting over all the tested terms with Benjamini-Hochberg
+ * @param query Genes of interest, genes outside the universe are ignored
+ * @param library Gene sets to test
+ * @param options Universe and size bounds of the tested sets
+ * @returns Terms overlapping the query, most significant first
+ */
+export function overRepresentation(
+  query: string[],
+  library: GeneSetLibrary,
+  { universe, minSetSize = DEFAULT_MIN_SET_SIZE, maxSetSize = DEFAULT_MAX_SET_SIZE }: EnrichmentOptions,
+): EnrichmentResult[] {
+  const universeSet = new Set(universe);
+  const querySet = new Set(query.filter(gene => universeSet.has(gene)));
+  const [N, n] = [universeSet.size, querySet.size];
+  if (n === 0) return [];
+  const logFactorial = logFactorials(N);
+
+  const tested: Array<Omit<EnrichmentResult, 'adjustedPValue'>> = [];
+  for (const [term, genes] of Object.entries(library)) {
+    const setGenes = new Set(genes.filter(gene => universeSet.has(gene)));
+    const K = setGenes.size;
+    if (K < minSetSize || K > maxSetSize) continue;
+    const overlap = Array.from(setGenes).filter(gene => querySet.has(gene));
+    const k = overlap.length;
+    const pValue = hypergeometricTest(k, N, K, n, logFactorial);
+    // Haldane correction keeps the odds ratio finite when a cell of the contingency table is empty
+    let [a, b, c, d] = [k, n - k, K - k, N - K - n + k];
+    if (a * b * c * d === 0) [a, b, c, d] = [a + 0.5, b + 0.5, c + 0.5, d + 0.5];
+    const oddsRatio = (a * d) / (b * c);
+    tested.push({
+      term,
+      genes: overlap,
+      setSize: K,
+      querySize: n,
+      pValue,
+      oddsRatio,
+      combinedScore: oddsRatio * -Math.log(Math.max(pValue, Number.MIN_VALUE)),
+    });
+  }
+
+  const adjusted = benjaminiHochberg(tested.map(({ pValue }) => pValue));
+  return tested
+    .map((result, idx) => ({ ...result, adjustedPValue: adjusted[idx] }))
+    .filter(({ genes }) => genes.length > 0)
+    .sort((a, b) => a.pValue - b.pValue || b.genes.length - a.genes.length);
+}
+
+/**
+ * Most significant terms along with their FDR, as exported in the communities CSV
+ * @param results Enrichment results of a gene list
+ */
+export function formatTopTerms(results: EnrichmentResult[]) {
+  return results
+    .slice(0, TOP_TERMS)
+    .map(({ term, adjustedPValue }) => `${term} (FDR ${adjustedPValue.toExponential(2)})`)
+    .join('; ');
+}
+
+/**
+ * Converts enrichment results into the rows of the GSEA table, as returned by the remote GSEA service
+ * @param results Enrichment results of a gene list
+ */
+export function toGseaRows(results: EnrichmentResult[]): Gsea[] {
+  return results.map(({ term, genes, setSize, pValue, adjustedPValue, oddsRatio, combinedScore }) => ({
+    Pathway: term,
+    Overlap: `${genes.length}/${setSize}`,
+    'P-value': pValue.toExponential(4),
+    'Adjusted P-value': adjustedPValue.toExponential(4),
+    'Odds Ratio': oddsRatio.toFixed(4),
+    'Combined Score': combinedScore.toFixed(4),
+    Genes: genes.join(';'),
+  }));
+}
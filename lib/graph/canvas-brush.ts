@@ -1,7 +1,7 @@
 import type AbstractGraph from 'graphology-types';
 import type { Sigma } from 'sigma';
 import type { EdgeAttributes, NodeAttributes } from '@/lib/interface';
-import type { SelectionBox } from '@/lib/interface/graph';
+import type { SelectionBox, SelectionOperation, SelectionPoint } from '@/lib/interface/graph';
 
 /**
  * Draw selection box on the canvas
@@ -45,36 +45,154 @@ export function drawSelectionBox(
 }
 
 /**
- * Find nodes present in the selection box
- * @param {AbstractGraph} graph graphology graph instance
+ * Draw lasso/polygon selection on the canvas
+ * @param {Sigma} sigma instance of sigma from useSigma hook (same as sigma from sigma.js)
+ * @param {HTMLCanvasElement} canvas canvas element (sigma-mouse layer) where polygon needs to be drawn
+ * @param {SelectionPoint[]} points Vertices of the polygon in graph coordinates
+ * @param {boolean} showVertices Whether the placed vertices are marked, for polygon being placed vertex by vertex
+ * @returns null
+ */
+export function drawSelectionPolygon(
+  sigma: Sigma<NodeAttributes, EdgeAttributes>,
+  canvas: HTMLCanvasElement,
+  points: SelectionPoint[],
+  showVertices = false,
+) {
+  const ctx = canvas.getContext('2d');
+
+  if (ctx === null) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  sigma.refresh();
+  if (points.length === 0) return;
+
+  const viewportPoints = points.map(point => sigma.graphToViewport(point));
+  ctx.beginPath();
+  ctx.moveTo(viewportPoints[0].x, viewportPoints[0].y);
+  for (const point of viewportPoints.slice(1)) ctx.lineTo(point.x, point.y);
+  ctx.closePath();
+  ctx.fillStyle = 'rgba(229,229,229,0.5)';
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(113,113,122,0.8)';
+  ctx.setLineDash([4, 4]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  if (!showVertices) return;
+  ctx.fillStyle = 'rgba(113,113,122,0.8)';
+  // Last point follows the cursor, it is not placed yet
+  for (const point of viewportPoints.slice(0, -1)) {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 3, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+}
+
+/**
+ * Draw the edge being drawn in edit mode, from the source node to the cursor
+ * @param {Sigma} sigma instance of sigma from useSigma hook (same as sigma from sigma.js)
+ * @param {HTMLCanvasElement} canvas canvas element (sigma-mouse layer) where edge needs to be drawn
+ * @param {string} source Key of the source node
+ * @param {SelectionPoint} target Position of the cursor in graph coordinates
+ * @returns null
+ */
+export function drawEdgePreview(
+  sigma: Sigma<NodeAttributes, EdgeAttributes>,
+  canvas: HTMLCanvasElement,
+  source: string,
+  target: SelectionPoint,
+) {
+  const ctx = canvas.getContext('2d');
+
+  if (ctx === null) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  const { x = 0, y = 0 } = sigma.getGraph().getNodeAttributes(source);
+  const start = sigma.graphToViewport({ x, y });
+  const end = sigma.graphToViewport(target);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.strokeStyle = 'rgba(113,113,122,0.8)';
+  ctx.setLineDash([4, 4]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+/**
+ * Corners of the selection box as a polygon
  * @param {SelectionBox} box SelectionBox coordinates
- * @returns Array of node keys present in the selection box
+ * @returns Vertices of the rectangle in graph coordinates
  */
-export function findNodesInSelection(
+export function selectionBoxToPolygon(box: SelectionBox): SelectionPoint[] {
+  return [
+    { x: box.startX, y: box.startY },
+    { x: box.endX, y: box.startY },
+    { x: box.endX, y: box.endY },
+    { x: box.startX, y: box.endY },
+  ];
+}
+
+/**
+ * Find visible nodes present in the polygon (even-odd rule, so self-crossing lassos work as well)
+ * @param {AbstractGraph} graph graphology graph instance
+ * @param {SelectionPoint[]} polygon Vertices of the polygon in graph coordinates
+ * @returns Array of node keys present in the polygon
+ */
+export function findNodesInPolygon(
   graph: AbstractGraph<NodeAttributes, EdgeAttributes>,
-  box: SelectionBox,
-  highlightedNodes: Set<string>,
+  polygon: SelectionPoint[],
 ): string[] {
-  const selectedNodes: string[] = [];
+  if (polygon.length < 3) return [];
+  const xs = polygon.map(point => point.x);
+  const ys = polygon.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return graph.filterNodes((_, { x, y, hidden }) => {
+    if (hidden || x === undefined || y === undefined) return false;
+    if (x < minX || x > maxX || y < minY || y > maxY) return false;
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [a, b] = [polygon[i], polygon[j]];
+      if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+  });
+}
+
+/**
+ * Combines the nodes inside the drawn shape with the current selection
+ * @param {Iterable<string>} current Currently selected node keys
+ * @param {string[]} inside Node keys inside the drawn shape
+ * @param {SelectionOperation} operation Whether the shape replaces, extends or shrinks the selection
+ * @returns Array of selected node keys
+ */
+export function combineSelection(current: Iterable<string>, inside: string[], operation: SelectionOperation) {
+  if (operation === 'replace') return inside;
+  const selection = new Set(current);
+  for (const node of inside) {
+    if (operation === 'add') selection.add(node);
+    else selection.delete(node);
+  }
+  return Array.from(selection);
+}
+
+/**
+ * Marks the selected nodes with a border, resetting the others unless highlighted by the gene search
+ * @param {AbstractGraph} graph graphology graph instance
+ * @param {Set<string>} selectedNodes Selected node keys
+ * @param {Set<string>} highlightedNodes Node keys highlighted by the gene search
+ */
+export function markSelectedNodes(
+  graph: AbstractGraph<NodeAttributes, EdgeAttributes>,
+  selectedNodes: Set<string>,
+  highlightedNodes: Set<string>,
+) {
   graph.forEachNode(node => {
-    const nodePosition = graph.getNodeAttributes(node);
-    if (
-      nodePosition.x &&
-      nodePosition.y &&
-      nodePosition.x >= Math.min(box.startX, box.endX) &&
-      nodePosition.x <= Math.max(box.startX, box.endX) &&
-      nodePosition.y >= Math.min(box.startY, box.endY) &&
-      nodePosition.y <= Math.max(box.startY, box.endY)
-    ) {
-      if (!graph.getNodeAttribute(node, 'hidden')) {
-        graph.setNodeAttribute(node, 'type', 'border');
-        selectedNodes.push(node);
-      }
+    if (selectedNodes.has(node)) {
+      graph.setNodeAttribute(node, 'type', 'border');
     } else {
       if (highlightedNodes.has(node)) return;
       graph.removeNodeAttribute(node, 'type');
       graph.removeNodeAttribute(node, 'borderColor');
     }
   });
-  return selectedNodes;
 }
@@ -0,0 +1,99 @@
+import type Graph from 'graphology';
+import type { EdgeAttributes, GraphStore, NodeAttributes } from '@/lib/interface';
+
+/**
+ * Key of the node standing for a collapsed community
+ * @param id ID of the community in `communityMap`
+ */
+export const communityNodeKey = (id: string) => `community:${id}`;
+
+/**
+ * Removes the nodes of collapsed communities along with their aggregated edges
+ * @param graph Graph of the network
+ * @returns Positions of the removed nodes keyed by community ID
+ */
+export function expandCommunities(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  const positions = new Map<string, { x?: number; y?: number }>();
+  for (const node of graph.filterNodes((_, attr) => attr.collapsedCommunity !== undefined)) {
+    const { collapsedCommunity, x, y } = graph.getNodeAttributes(node);
+    positions.set(collapsedCommunity!, { x, y });
+    graph.dropNode(node);
+  }
+  return positions;
+}
+
+/**
+ * Collapses every given community into a single node placed at the centroid of its genes (or where it was left),
+ * edges between different communities/genes are merged into one edge scored by the sum or average of their scores
+ * @param graph Graph of the network, having no collapsed communities
+ * @param communityMap Communities of the last community detection run
+ * @param collapsed IDs of the communities to collapse
+ * @param aggregation How scores of merged edges are combined
+ * @param nodeSize Default node size, scaled by the number of genes of the community
+ * @param positions Positions of the community nodes from the previous collapse
+ */
+export function collapseCommunities(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  communityMap: GraphStore['communityMap'],
+  collapsed: string[],
+  aggregation: GraphStore['collapsedEdgeAggregation'],
+  nodeSize: number,
+  positions = new Map<string, { x?: number; y?: number }>(),
+) {
+  const representative = new Map<string, string>();
+  for (const id of collapsed) {
+    const community = communityMap[id];
+    const genes = community?.genes.filter(gene => graph.hasNode(gene));
+    if (!genes?.length) continue;
+    const key = communityNodeKey(id);
+    let [x, y, maxDegree, centralGene] = [0, 0, -1, genes[0]];
+    for (const gene of genes) {
+      const attr = graph.getNodeAttributes(gene);
+      x += attr.x ?? 0;
+      y += attr.y ?? 0;
+      const degree = graph.degree(gene);
+      if (degree > maxDegree) [maxDegree, centralGene] = [degree, gene];
+      representative.set(gene, key);
+    }
+    graph.addNode(key, {
+      x: positions.get(id)?.x ?? x / genes.length,
+      y: positions.get(id)?.y ?? y / genes.length,
+      size: nodeSize * (1 + Math.sqrt(genes.length) / 2),
+      color: community.color,
+      label: graph.getNodeAttribute(centralGene, 'label') ?? centralGene,
+      description: `${community.name} (${genes.length} genes)`,
+      forceLabel: true,
+      collapsedCommunity: id,
+    });
+  }
+
+  const merged = new Map<string, { source: string; target: string; score: number; count: number }>();
+  graph.forEachEdge((_edge, attr, source, target) => {
+    if (attr.hidden) return;
+    const [from, to] = [representative.get(source) ?? source, representative.get(target) ?? target];
+    if (from === to || (from === source && to === target)) return;
+    const key = from < to ? `${from}\t${to}` : `${to}\t${from}`;
+    const edge = merged.get(key) ?? { source: from, target: to, score: 0, count: 0 };
+    edge.score += attr.score ?? 0;
+    edge.count++;
+    merged.set(key, edge);
+  });
+  for (const { source, target, score, count } of merged.values()) {
+    graph.addEdge(source, target, {
+      score: aggregation === 'sum' ? score : score / count,
+      size: Math.min(1 + Math.log2(count), 6),
+      collapsedEdges: count,
+    });
+  }
+}
+
+/**
+ * Serializes the graph without the nodes/edges of collapsed communities, for saving and analyses on genes
+ * @param graph Graph of the network
+ */
+export function exportGeneGraph(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  const serialized = graph.export();
+  serialized.nodes = serialized.nodes.filter(({ attributes }) => attributes?.collapsedCommunity === undefined);
+  serialized.edges = serialized.edges.filter(({ attributes }) => attributes?.collapsedEdges === undefined);
+  return serialized;
+}
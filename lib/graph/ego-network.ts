@@ -0,0 +1,55 @@
+import type Graph from 'graphology';
+import type { SerializedGraph } from 'graphology-types';
+import type { EdgeAttributes, NodeAttributes } from '../interface';
+import { exportGeneGraph } from './community-collapse';
+
+/**
+ * Hop counts offered for neighborhood extraction
+ */
+export const EGO_NETWORK_HOPS = [1, 2, 3] as const;
+
+/**
+ * Genes within the given number of hops from the centers over the visible edges, collapsed communities count as
+ * their genes
+ * @param graph Graph of the network
+ * @param centers IDs of the genes the neighborhood is grown from
+ * @param hops Number of hops
+ * @returns IDs of the genes in the neighborhood along with the centers
+ */
+export function egoNetworkNodes(graph: Graph<NodeAttributes, EdgeAttributes>, centers: string[], hops: number) {
+  const visited = new Set(centers.filter(center => graph.hasNode(center)));
+  let frontier = Array.from(visited);
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      graph.forEachEdge(node, (_, attr, source, target, sourceAttr, targetAttr) => {
+        const [neighbor, neighborAttr] = source === node ? [target, targetAttr] : [source, sourceAttr];
+        if (attr.hidden || attr.collapsedEdges !== undefined || neighborAttr.collapsedCommunity !== undefined) return;
+        if (neighborAttr.hidden || visited.has(neighbor)) return;
+        visited.add(neighbor);
+        next.push(neighbor);
+      });
+    }
+    frontier = next;
+  }
+  return visited;
+}
+
+/**
+ * Subnetwork induced by the neighborhood of the genes, keeping the positions and attributes of the nodes
+ * @param graph Graph of the network
+ * @param centers IDs of the genes the neighborhood is grown from
+ * @param hops Number of hops
+ * @returns Serialized subnetwork without collapsed community nodes
+ */
+export function extractEgoNetwork(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  centers: string[],
+  hops: number,
+): SerializedGraph<NodeAttributes, EdgeAttributes> {
+  const nodes = egoNetworkNodes(graph, centers, hops);
+  const serialized = exportGeneGraph(graph);
+  serialized.nodes = serialized.nodes.filter(({ key }) => nodes.has(key));
+  serialized.edges = serialized.edges.filter(({ source, target }) => nodes.has(source) && nodes.has(target));
+  return serialized;
+}
@@ -0,0 +1,535 @@
+import { scaleLinear } from 'd3-scale';
+import type { Sigma } from 'sigma';
+import type { NodeDisplayData } from 'sigma/types';
+import type {
+  EdgeAttributes,
+  FigureExportOptions,
+  FigureInput,
+  FigurePageSize,
+  FigureScene,
+  LegendSpec,
+  NodeAttributes,
+} from '@/lib/interface';
+
+/**
+ * Portrait page sizes in points (1/72 inch)
+ */
+export const FIGURE_PAGE_SIZES: Record<Exclude<FigurePageSize, 'Fit'>, [number, number]> = {
+  A4: [595.28, 841.89],
+  A3: [841.89, 1190.55],
+  Letter: [612, 792],
+};
+
+const MARGIN = 36;
+const TITLE_SIZE = 16;
+const LEGEND_WIDTH = 180;
+const LEGEND_HEIGHT = 50;
+const LEGEND_GAP = 24;
+const LEGEND_ITEM_HEIGHT = 14;
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+/**
+ * Fraction of the radius covered by the border of `border` (border program in SigmaContainer) and `highlight` nodes
+ */
+const BORDER_RATIO = { border: 0.4, highlight: 0.1 } as const;
+
+/**
+ * Lay out the network along with its title and legends on the page
+ * @param input Rendered network collected from sigma
+ * @param options Export options
+ * @returns Figure in page coordinates
+ */
+export function layoutFigure(input: FigureInput, options: FigureExportOptions): FigureScene {
+  let [width, height] =
+    options.pageSize === 'Fit'
+      ? [input.viewport.width + 2 * MARGIN, input.viewport.height + 2 * MARGIN]
+      : FIGURE_PAGE_SIZES[options.pageSize];
+  if (options.pageSize !== 'Fit' && options.orientation === 'landscape') [width, height] = [height, width];
+
+  const title = options.title?.trim()
+    ? { text: options.title.trim(), x: width / 2, y: MARGIN + TITLE_SIZE, size: TITLE_SIZE }
+    : undefined;
+  const top = MARGIN + (title ? TITLE_SIZE * 2 : 0);
+  const legendsPerRow = Math.max(1, Math.floor((width - 2 * MARGIN + LEGEND_GAP) / (LEGEND_WIDTH + LEGEND_GAP)));
+  // Rows are as tall as their tallest legend
+  const rowOffsets = [0];
+  input.legends.forEach((spec, idx) => {
+    const row = Math.floor(idx / legendsPerRow);
+    rowOffsets[row + 1] = Math.max(rowOffsets[row + 1] ?? 0, rowOffsets[row] + legendHeight(spec) + LEGEND_GAP);
+  });
+  const bottom = height - MARGIN - rowOffsets[rowOffsets.length - 1];
+  const legends = input.legends.map((spec, idx) => ({
+    spec,
+    x: MARGIN + (idx % legendsPerRow) * (LEGEND_WIDTH + LEGEND_GAP),
+    y: bottom + LEGEND_GAP + rowOffsets[Math.floor(idx / legendsPerRow)],
+    width: LEGEND_WIDTH,
+  }));
+
+  const area = { x: MARGIN, y: top, width: width - 2 * MARGIN, height: Math.max(bottom - top, 0) };
+  // Node/label sizes are in screen pixels relative to the canvas, scale them along with the canvas
+  const sizeRatio =
+    Math.min(area.width, area.height) / Math.max(Math.min(input.viewport.width, input.viewport.height), 1);
+  const padding = Math.max(0, ...input.nodes.map(node => node.size)) * sizeRatio;
+
+  let [minX, maxX, minY, maxY] = [Infinity, -Infinity, Infinity, -Infinity];
+  for (const { x, y } of input.nodes) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  const scale = Math.min(
+    (area.width - 2 * padding) / Math.max(maxX - minX, 1e-9),
+    (area.height - 2 * padding) / Math.max(maxY - minY, 1e-9),
+  );
+  const offsetX = area.x + (area.width - (maxX - minX) * scale) / 2;
+  const offsetY = area.y + (area.height - (maxY - minY) * scale) / 2;
+  // y-axis of sigma points upwards while the page's points downwards
+  const project = (x: number, y: number) => ({ x: offsetX + (x - minX) * scale, y: offsetY + (maxY - y) * scale });
+
+  const nodes = input.nodes.map(node => ({
+    ...project(node.x, node.y),
+    radius: node.size * sizeRatio,
+    color: node.color,
+    type: node.type,
+    borderColor: node.borderColor,
+  }));
+  const edges = input.edges.map(edge => ({
+    x1: nodes[edge.source].x,
+    y1: nodes[edge.source].y,
+    x2: nodes[edge.target].x,
+    y2: nodes[edge.target].y,
+    width: edge.size * sizeRatio,
+    color: edge.color,
+  }));
+  const labels = options.showLabels
+    ? input.nodes.flatMap((node, idx) =>
+        node.label
+          ? [
+              {
+                text: node.label,
+                x: nodes[idx].x + nodes[idx].radius + 3 * sizeRatio,
+                y: nodes[idx].y + (input.labelSize * sizeRatio) / 3,
+                size: input.labelSize * sizeRatio,
+              },
+            ]
+          : [],
+      )
+    : [];
+
+  return { width, height, title, nodes, edges, labels, legends };
+}
+
+/**
+ * Height of the legend box, categorical legends grow with their categories laid out in two columns
+ */
+function legendHeight(spec: LegendSpec) {
+  return spec.kind === 'categorical' ? 16 + Math.ceil(spec.items.length / 2) * LEGEND_ITEM_HEIGHT : LEGEND_HEIGHT;
+}
+
+/**
+ * Position of the swatch of a category relative to the legend box
+ */
+function categoryPosition(idx: number, width: number) {
+  return { x: (idx % 2) * (width / 2) + 5, y: 16 + Math.floor(idx / 2) * LEGEND_ITEM_HEIGHT + 5 };
+}
+
+/**
+ * Color stops of a heatmap legend
+ */
+function heatmapStops(spec: Extract<LegendSpec, { kind: 'heatmap' }>) {
+  const domain = spec.domain ?? [0, 1];
+  const colorScale = scaleLinear<string>(domain, spec.range);
+  const count = Math.max(2, Math.round(spec.divisions ?? 10) + 1);
+  return Array.from({ length: count }, (_, idx) => {
+    const offset = idx / (count - 1);
+    return { offset, color: colorScale(domain[0] + offset * (domain.at(-1)! - domain[0])) };
+  });
+}
+
+/**
+ * Labels of a legend along with their position relative to the legend box
+ */
+function legendTexts(spec: LegendSpec, width: number) {
+  const texts: Array<{
+    text: string;
+    x: number;
+    y: number;
+    size: number;
+    anchor: 'start' | 'middle' | 'end';
+    bold?: boolean;
+  }> = [];
+  if (spec.kind === 'binary') {
+    texts.push(
+      { text: 'Present', x: 20, y: 14, size: 10, anchor: 'start' },
+      { text: 'Not Present', x: 20, y: 34, size: 10, anchor: 'start' },
+    );
+    return { texts, ticks: [] as number[] };
+  }
+  texts.push({ text: spec.title, x: width / 2, y: 9, size: 11, anchor: 'middle', bold: true });
+  if (spec.kind === 'categorical') {
+    spec.items.forEach(({ label }, idx) => {
+      const { x, y } = categoryPosition(idx, width);
+      texts.push({ text: label, x: x + 9, y: y + 3, size: 9, anchor: 'start' });
+    });
+    return { texts, ticks: [] as number[] };
+  }
+  const ticks: number[] = [];
+  if (spec.startLabel && spec.endLabel) {
+    texts.push(
+      { text: spec.startLabel, x: 0, y: 40, size: 9, anchor: 'start' },
+      { text: spec.endLabel, x: width, y: 40, size: 9, anchor: 'end' },
+    );
+  } else {
+    const domain = spec.domain ?? [0, 1];
+    const divisions = Math.max(1, Math.round(spec.divisions ?? 10));
+    for (let i = 0; i <= divisions; i++) {
+      const value = domain[0] + (i / divisions) * (domain.at(-1)! - domain[0]);
+      ticks.push((i / divisions) * width);
+      texts.push({ text: value.toFixed(1), x: (i / divisions) * width, y: 36, size: 7, anchor: 'middle' });
+    }
+  }
+  return { texts, ticks };
+}
+
+function escapeXML(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize figure into SVG
+ * @param scene Figure laid out on the page
+ * @returns SVG document
+ */
+export function toSVGFigure(scene: FigureScene) {
+  const defs: string[] = [];
+  const gradientIds = new Map<string, string>();
+  const radialGradient = (color: string) => {
+    if (!gradientIds.has(color)) {
+      const id = `node-gradient-${gradientIds.size}`;
+      gradientIds.set(color, id);
+      defs.push(
+        `<radialGradient id="${id}"><stop offset="0" stop-color="#ffffff"/><stop offset="1" stop-color="${escapeXML(color)}"/></radialGradient>`,
+      );
+    }
+    return gradientIds.get(color);
+  };
+
+  const body: string[] = [`<rect width="${scene.width}" height="${scene.height}" fill="#ffffff"/>`, '<g id="edges">'];
+  for (const edge of scene.edges) {
+    body.push(
+      `<line x1="${edge.x1}" y1="${edge.y1}" x2="${edge.x2}" y2="${edge.y2}" stroke="${escapeXML(edge.color)}" stroke-width="${edge.width}"/>`,
+    );
+  }
+  body.push('</g>', '<g id="nodes">');
+  for (const node of scene.nodes) {
+    if (node.type === 'border' || node.type === 'highlight') {
+      body.push(
+        `<circle cx="${node.x}" cy="${node.y}" r="${node.radius}" fill="${escapeXML(node.borderColor ?? '#000000')}"/>`,
+        `<circle cx="${node.x}" cy="${node.y}" r="${node.radius * (1 - BORDER_RATIO[node.type])}" fill="${escapeXML(node.color)}"/>`,
+      );
+    } else {
+      const fill = node.type === 'normal' ? escapeXML(node.color) : `url(#${radialGradient(node.color)})`;
+      body.push(`<circle cx="${node.x}" cy="${node.y}" r="${node.radius}" fill="${fill}"/>`);
+    }
+  }
+  body.push('</g>', `<g id="labels" font-family="${FONT_FAMILY}" fill="#000000">`);
+  for (const label of scene.labels) {
+    body.push(`<text x="${label.x}" y="${label.y}" font-size="${label.size}">${escapeXML(label.text)}</text>`);
+  }
+  body.push('</g>');
+  if (scene.title) {
+    body.push(
+      `<text x="${scene.title.x}" y="${scene.title.y}" font-family="${FONT_FAMILY}" font-size="${scene.title.size}" font-weight="bold" text-anchor="middle">${escapeXML(scene.title.text)}</text>`,
+    );
+  }
+
+  scene.legends.forEach(({ spec, x, y, width }, idx) => {
+    body.push(`<g transform="translate(${x} ${y})" font-family="${FONT_FAMILY}">`);
+    if (spec.kind === 'binary') {
+      body.push(
+        `<circle cx="8" cy="10" r="5" fill="${escapeXML(spec.presentColor)}"/>`,
+        `<circle cx="8" cy="30" r="5" fill="${escapeXML(spec.absentColor)}"/>`,
+      );
+    } else if (spec.kind === 'categorical') {
+      spec.items.forEach(({ color }, i) => {
+        const { x, y } = categoryPosition(i, width);
+        body.push(`<circle cx="${x}" cy="${y}" r="4" fill="${escapeXML(color)}"/>`);
+      });
+    } else {
+      const id = `legend-gradient-${idx}`;
+      defs.push(
+        `<linearGradient id="${id}">${heatmapStops(spec)
+          .map(stop => `<stop offset="${stop.offset}" stop-color="${escapeXML(stop.color)}"/>`)
+          .join('')}</linearGradient>`,
+      );
+      body.push(`<rect x="0" y="12" width="${width}" height="16" fill="url(#${id})"/>`);
+    }
+    const { texts, ticks } = legendTexts(spec, width);
+    for (const tick of ticks) body.push(`<line x1="${tick}" y1="28" x2="${tick}" y2="31" stroke="#000000"/>`);
+    for (const text of texts) {
+      body.push(
+        `<text x="${text.x}" y="${text.y}" font-size="${text.size}" text-anchor="${text.anchor}"${text.bold ? ' font-weight="bold"' : ''}>${escapeXML(text.text)}</text>`,
+      );
+    }
+    body.push('</g>');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}pt" height="${scene.height}pt" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Resolves any CSS color (named, hex, rgb) to its RGB components in [0, 1]
+ */
+function toRGB(color: string): [number, number, number] {
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  if (!colorContext) return [0, 0, 0];
+  colorContext.fillStyle = '#000000';
+  colorContext.fillStyle = color;
+  const resolved = String(colorContext.fillStyle);
+  const hex = resolved.match(/^#([0-9a-f]{6})$/i)?.[1];
+  const components = hex
+    ? [0, 2, 4].map(i => Number.parseInt(hex.slice(i, i + 2), 16))
+    : (resolved
+        .match(/\d+(\.\d+)?/g)
+        ?.slice(0, 3)
+        .map(Number) ?? [0, 0, 0]);
+  return components.map(c => c / 255) as [number, number, number];
+}
+
+const num = (value: number) => (Math.round(value * 1000) / 1000).toString();
+
+/**
+ * PDF literal string, non-ASCII characters are replaced as standard fonts only cover Latin-1
+ */
+const pdfString = (text: string) =>
+  `(${text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')})`;
+
+/**
+ * Approximate width of Helvetica text as standard fonts are not embedded
+ */
+const textWidth = (text: string, size: number) => text.length * size * 0.52;
+
+/**
+ * Path of a circle with four bezier curves
+ */
+function circlePath(x: number, y: number, r: number) {
+  const k = 0.5523 * r;
+  return [
+    `${num(x + r)} ${num(y)} m`,
+    `${num(x + r)} ${num(y + k)} ${num(x + k)} ${num(y + r)} ${num(x)} ${num(y + r)} c`,
+    `${num(x - k)} ${num(y + r)} ${num(x - r)} ${num(y + k)} ${num(x - r)} ${num(y)} c`,
+    `${num(x - r)} ${num(y - k)} ${num(x - k)} ${num(y - r)} ${num(x)} ${num(y - r)} c`,
+    `${num(x + k)} ${num(y - r)} ${num(x + r)} ${num(y - k)} ${num(x + r)} ${num(y)} c`,
+  ].join('\n');
+}
+
+/**
+ * Serialize figure into a single page PDF, gradients are drawn as PDF shadings to keep the figure vector
+ * @param scene Figure laid out on the page
+ * @returns PDF document (ASCII only)
+ */
+export function toPDFFigure(scene: FigureScene) {
+  const shadings: string[] = [];
+  const radialShadings = new Map<string, string>();
+  const rgb = (color: string) => toRGB(color).map(num).join(' ');
+  const fill = (color: string) => `${rgb(color)} rg`;
+  const text = (value: string, x: number, y: number, size: number, font = '/F1', anchor = 'start') => {
+    const shift = anchor === 'end' ? textWidth(value, size) : anchor === 'middle' ? textWidth(value, size) / 2 : 0;
+    // Text matrix flips the text back as the page is drawn in a flipped coordinate system
+    return `BT ${font} ${num(size)} Tf 1 0 0 -1 ${num(x - shift)} ${num(y)} Tm ${pdfString(value)} Tj ET`;
+  };
+
+  const content: string[] = [
+    `1 0 0 -1 0 ${num(scene.height)} cm`,
+    '1 1 1 rg',
+    `0 0 ${num(scene.width)} ${num(scene.height)} re f`,
+  ];
+  for (const edge of scene.edges) {
+    content.push(
+      `${rgb(edge.color)} RG ${num(edge.width)} w ${num(edge.x1)} ${num(edge.y1)} m ${num(edge.x2)} ${num(edge.y2)} l S`,
+    );
+  }
+  for (const node of scene.nodes) {
+    if (node.type === 'border' || node.type === 'highlight') {
+      content.push(
+        fill(node.borderColor ?? '#000000'),
+        circlePath(node.x, node.y, node.radius),
+        'f',
+        fill(node.color),
+        circlePath(node.x, node.y, node.radius * (1 - BORDER_RATIO[node.type])),
+        'f',
+      );
+    } else if (node.type === 'normal') {
+      content.push(fill(node.color), circlePath(node.x, node.y, node.radius), 'f');
+    } else {
+      if (!radialShadings.has(node.color)) {
+        radialShadings.set(node.color, `/Sh${shadings.length}`);
+        shadings.push(
+          `<< /ShadingType 3 /ColorSpace /DeviceRGB /Coords [0 0 0 0 0 1] /Function << /FunctionType 2 /Domain [0 1] /C0 [1 1 1] /C1 [${rgb(node.color)}] /N 1 >> >>`,
+        );
+      }
+      // Shading is defined on unit circle, scale it to the node
+      content.push(
+        `q ${num(node.radius)} 0 0 ${num(node.radius)} ${num(node.x)} ${num(node.y)} cm`,
+        circlePath(0, 0, 1),
+        `W n ${radialShadings.get(node.color)} sh Q`,
+      );
+    }
+  }
+  content.push('0 0 0 rg');
+  for (const label of scene.labels) content.push(text(label.text, label.x, label.y, label.size));
+  if (scene.title) {
+    content.push(text(scene.title.text, scene.title.x, scene.title.y, scene.title.size, '/F2', 'middle'));
+  }
+
+  for (const { spec, x, y, width } of scene.legends) {
+    content.push(`q 1 0 0 1 ${num(x)} ${num(y)} cm`);
+    if (spec.kind === 'binary') {
+      content.push(
+        fill(spec.presentColor),
+        circlePath(8, 10, 5),
+        'f',
+        fill(spec.absentColor),
+        circlePath(8, 30, 5),
+        'f',
+      );
+    } else if (spec.kind === 'categorical') {
+      spec.items.forEach(({ color }, idx) => {
+        const position = categoryPosition(idx, width);
+        content.push(fill(color), circlePath(position.x, position.y, 4), 'f');
+      });
+    } else {
+      const stops = heatmapStops(spec);
+      const functions = stops
+        .slice(1)
+        .map(
+          (stop, idx) =>
+            `<< /FunctionType 2 /Domain [0 1] /C0 [${rgb(stops[idx].color)}] /C1 [${rgb(stop.color)}] /N 1 >>`,
+        );
+      const bounds = stops.slice(1, -1).map(stop => num(stop.offset));
+      const encode = stops.slice(1).flatMap(() => ['0', '1']);
+      const name = `/Sh${shadings.length}`;
+      shadings.push(
+        `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [0 0 ${num(width)} 0] /Extend [true true] /Function << /FunctionType 3 /Domain [0 1] /Functions [${functions.join(' ')}] /Bounds [${bounds.join(' ')}] /Encode [${encode.join(' ')}] >> >>`,
+      );
+      content.push(`q 0 12 ${num(width)} 16 re W n ${name} sh Q`);
+    }
+    const { texts, ticks } = legendTexts(spec, width);
+    content.push('0 0 0 RG 0.5 w', ...ticks.map(tick => `${num(tick)} 28 m ${num(tick)} 31 l S`), '0 0 0 rg');
+    for (const t of texts) content.push(text(t.text, t.x, t.y, t.size, t.bold ? '/F2' : '/F1', t.anchor));
+    content.push('Q');
+  }
+
+  const stream = content.join('\n');
+  const shadingRefs = shadings.map((_, idx) => `/Sh${idx} ${7 + idx} 0 R`).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(scene.width)} ${num(scene.height)}] /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> /Shading << ${shadingRefs} >> >> >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold >>',
+    ...shadings,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, idx) => {
+    const offset = pdf.length;
+    pdf += `${idx + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return pdf;
+}
+
+/**
+ * Rasterize an SVG image into PNG
+ * @param svg SVG image
+ * @param width Width of the image in points
+ * @param height Height of the image in points
+ * @param ratio Pixels per point
+ * @returns PNG image
+ */
+export async function rasterizeSVG(svg: string, width: number, height: number, ratio: number) {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Rasterize the SVG figure into PNG, used where vector output is not accepted
+ * @param svg SVG figure
+ * @param scene Figure laid out on the page
+ * @param dpi Resolution of the image
+ * @returns PNG image
+ */
+export function rasterizeFigure(svg: string, scene: FigureScene, dpi: number) {
+  return rasterizeSVG(svg, scene.width, scene.height, dpi / 72);
+}
+
+/**
+ * Rendered nodes/edges of sigma (after reducers) for figure export
+ * @param sigma Sigma instance rendering the network
+ * @param includeHidden Whether hidden nodes/edges are included
+ * @param labelSize Label size in screen pixels
+ * @param legends Active legends
+ */
+export function collectFigureInput(
+  sigma: Sigma<NodeAttributes, EdgeAttributes>,
+  includeHidden: boolean,
+  labelSize: number,
+  legends: LegendSpec[] = [],
+): FigureInput {
+  const graph = sigma.getGraph();
+  const nodes: Array<FigureInput['nodes'][number] & { key: string; zIndex: number }> = [];
+  graph.forEachNode(node => {
+    const data = sigma.getNodeDisplayData(node) as (NodeDisplayData & NodeAttributes) | undefined;
+    if (!data || (data.hidden && !includeHidden)) return;
+    nodes.push({
+      key: node,
+      x: graph.getNodeAttribute(node, 'x') ?? 0,
+      y: graph.getNodeAttribute(node, 'y') ?? 0,
+      size: data.size,
+      color: data.color,
+      type: data.type ?? 'circle',
+      borderColor: data.borderColor,
+      label: data.label ?? undefined,
+      zIndex: data.zIndex ?? 0,
+    });
+  });
+  // Nodes with higher z-index are drawn on top
+  nodes.sort((a, b) => a.zIndex - b.zIndex);
+  const indices = new Map(nodes.map((node, idx) => [node.key, idx]));
+  const edges: FigureInput['edges'] = [];
+  graph.forEachEdge((edge, _, source, target) => {
+    const data = sigma.getEdgeDisplayData(edge);
+    if (!data || (data.hidden && !includeHidden) || !indices.has(source) || !indices.has(target)) return;
+    edges.push({ source: indices.get(source)!, target: indices.get(target)!, size: data.size, color: data.color });
+  });
+  return { nodes, edges, labelSize, viewport: sigma.getDimensions(), legends };
+}
@@ -1,4 +1,11 @@
 import NodeGradientProgram from './NodeGradientProgram';
 
 export * from './canvas-brush';
+export * from './community-collapse';
+export * from './ego-network';
+export * from './figure-export';
+export * from './network-edit';
+export * from './network-exporters';
+export * from './network-parsers';
+export * from './shortest-paths';
 export { NodeGradientProgram };
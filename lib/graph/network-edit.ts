@@ -0,0 +1,146 @@
+import type Graph from 'graphology';
+import type { EdgeAttributes, Gene, NetworkEdit, NodeAttributes } from '@/lib/interface';
+
+type EditableGraph = Graph<NodeAttributes, EdgeAttributes>;
+
+/**
+ * Whether the node is a gene of the network, nodes of collapsed communities are not editable
+ */
+function isGene(graph: EditableGraph, node: string) {
+  return graph.hasNode(node) && graph.getNodeAttribute(node, 'collapsedCommunity') === undefined;
+}
+
+function distinctGenes(graph: EditableGraph, nodes: string[]) {
+  return Array.from(new Set(nodes)).filter(node => isGene(graph, node));
+}
+
+function removeEdgeEdit(graph: EditableGraph, edge: string, createdAt: number): NetworkEdit {
+  const [source, target] = graph.extremities(edge);
+  return { action: 'remove-edge', source, target, score: graph.getEdgeAttribute(edge, 'score'), createdAt };
+}
+
+/**
+ * Removes the genes along with their edges
+ * @param graph Graph of the network
+ * @param nodes IDs of the genes to remove
+ * @returns Edits made, removed edges first
+ */
+export function removeGenes(graph: EditableGraph, nodes: string[]) {
+  const createdAt = Date.now();
+  const genes = distinctGenes(graph, nodes);
+  const edges = new Set(genes.flatMap(node => graph.edges(node)));
+  const edits = Array.from(edges, edge => removeEdgeEdit(graph, edge, createdAt));
+  for (const node of genes) {
+    edits.push({ action: 'remove-gene', source: node, createdAt });
+    graph.dropNode(node);
+  }
+  return edits;
+}
+
+/**
+ * Removes the edges, aggregated edges of collapsed communities are left as is
+ * @param graph Graph of the network
+ * @param edges Keys of the edges to remove
+ * @returns Edits made
+ */
+export function removeEdges(graph: EditableGraph, edges: string[]) {
+  const createdAt = Date.now();
+  const edits: NetworkEdit[] = [];
+  for (const edge of new Set(edges)) {
+    if (!graph.hasEdge(edge) || graph.getEdgeAttribute(edge, 'collapsedEdges') !== undefined) continue;
+    edits.push(removeEdgeEdit(graph, edge, createdAt));
+    graph.dropEdge(edge);
+  }
+  return edits;
+}
+
+/**
+ * Adds an edge between the genes, rescoring the edge if they are already connected
+ * @param graph Graph of the network
+ * @param source ID of the source gene
+ * @param target ID of the target gene
+ * @param score Score of the edge
+ * @returns Edits made, none if the genes are the same or missing
+ */
+export function addEdge(graph: EditableGraph, source: string, target: string, score: number): NetworkEdit[] {
+  if (source === target || !isGene(graph, source) || !isGene(graph, target)) return [];
+  const edge = graph.edge(source, target);
+  if (edge) graph.mergeEdgeAttributes(edge, { score, label: score.toString() });
+  else graph.addEdgeWithKey(`${source}-${target}`, source, target, { score, label: score.toString() });
+  return [{ action: 'add-edge', source, target, score, createdAt: Date.now() }];
+}
+
+/**
+ * Adds a verified gene to the network
+ * @param graph Graph of the network
+ * @param gene Gene from the verification query
+ * @param position Position of the node in graph coordinates
+ * @returns Edits made, none if the gene is already in the network
+ */
+export function addGene(
+  graph: EditableGraph,
+  gene: Pick<Gene, 'ID' | 'Gene_name' | 'Description'>,
+  position: { x: number; y: number },
+): NetworkEdit[] {
+  if (graph.hasNode(gene.ID)) return [];
+  graph.addNode(gene.ID, { label: gene.Gene_name, ID: gene.ID, description: gene.Description, ...position });
+  return [{ action: 'add-gene', source: gene.ID, createdAt: Date.now() }];
+}
+
+/**
+ * Merges duplicate genes into one, edges of the duplicates are moved to the kept gene which keeps the highest
+ * score when both are connected to the same gene
+ * @param graph Graph of the network
+ * @param into ID of the kept gene
+ * @param duplicates IDs of the genes merged into it
+ * @returns Edits made, every moved edge is recorded as removed from the duplicate and added to the kept gene
+ */
+export function mergeGenes(graph: EditableGraph, into: string, duplicates: string[]) {
+  const createdAt = Date.now();
+  const edits: NetworkEdit[] = [];
+  if (!isGene(graph, into)) return edits;
+  for (const duplicate of distinctGenes(graph, duplicates)) {
+    if (duplicate === into) continue;
+    graph.forEachEdge(duplicate, (edge, attr, source, target) => {
+      const neighbor = source === duplicate ? target : source;
+      edits.push(removeEdgeEdit(graph, edge, createdAt));
+      if (neighbor === into || !isGene(graph, neighbor)) return;
+      const existing = graph.edge(into, neighbor);
+      const score = Math.max(attr.score ?? 0, existing ? (graph.getEdgeAttribute(existing, 'score') ?? 0) : 0);
+      if (existing) graph.mergeEdgeAttributes(existing, { score, label: score.toString() });
+      else
+        graph.addEdgeWithKey(`${into}-${neighbor}`, into, neighbor, {
+          score,
+          label: score.toString(),
+          typeScores: attr.typeScores,
+          properties: attr.properties,
+        });
+      edits.push({ action: 'add-edge', source: into, target: neighbor, score, createdAt });
+    });
+    edits.push({ action: 'merge-genes', source: into, target: duplicate, createdAt });
+    graph.dropNode(duplicate);
+  }
+  return edits;
+}
+
+/**
+ * Interactions changed by the edits as of the current graph, edges added and later removed (or the other way
+ * round) are reported in their latest state only
+ * @param graph Graph of the network
+ * @param edits Edits made to the network
+ * @returns Keys of the added edges and the removed edges with their last known score
+ */
+export function getEditedInteractions(graph: EditableGraph, edits: NetworkEdit[]) {
+  const added = new Set<string>();
+  const removed = new Map<string, NetworkEdit>();
+  for (const edit of edits) {
+    if (edit.target === undefined || (edit.action !== 'add-edge' && edit.action !== 'remove-edge')) continue;
+    const pair = [edit.source, edit.target].sort().join('-');
+    const edge = graph.hasNode(edit.source) && graph.hasNode(edit.target) && graph.edge(edit.source, edit.target);
+    if (edit.action === 'add-edge' && edge) {
+      added.add(edge);
+      removed.delete(pair);
+    } else if (edit.action === 'remove-edge' && !edge) removed.set(pair, edit);
+  }
+  return { added, removed: Array.from(removed.values()) };
+}
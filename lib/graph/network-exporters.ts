@@ -0,0 +1,206 @@
+import type { NetworkExport, NetworkExportValue } from '@/lib/interface';
+
+type AttributeType = 'boolean' | 'double' | 'string';
+
+function escapeXML(value: NetworkExportValue) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Collects the attribute names of the elements along with their type, mixed types fall back to string
+ * @param elements Nodes/edges of the network
+ * @returns Attribute names mapped to their type
+ */
+function collectAttributeTypes(elements: Array<{ attributes: Record<string, NetworkExportValue> }>) {
+  const types = new Map<string, AttributeType>();
+  for (const { attributes } of elements) {
+    for (const [name, value] of Object.entries(attributes)) {
+      const type: AttributeType =
+        typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'double' : 'string';
+      const existing = types.get(name);
+      types.set(name, existing && existing !== type ? 'string' : type);
+    }
+  }
+  return types;
+}
+
+/**
+ * Converts hex/rgb(a) color to its RGB components
+ * @param color Color string
+ * @returns RGB components or null if the color can't be parsed
+ */
+function toRGB(color?: string): [number, number, number] | null {
+  if (!color) return null;
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})([0-9a-f]{2})?$/i)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? [...hex].map(c => c + c).join('') : hex;
+    return [0, 2, 4].map(i => Number.parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i);
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null;
+}
+
+/**
+ * Serialize network into GraphML (readable by Cytoscape, Gephi, NetworkX etc.)
+ * @param network Network snapshot
+ * @returns GraphML document
+ */
+export function toGraphML(network: NetworkExport) {
+  const nodeTypes = new Map<string, AttributeType>([
+    ['label', 'string'],
+    ['x', 'double'],
+    ['y', 'double'],
+    ['color', 'string'],
+    ['size', 'double'],
+    ...collectAttributeTypes(network.nodes),
+  ]);
+  const edgeTypes = new Map<string, AttributeType>([
+    ['color', 'string'],
+    ['size', 'double'],
+    ...collectAttributeTypes(network.edges),
+  ]);
+  const nodeKeys = new Map(Array.from(nodeTypes.keys(), (name, idx) => [name, `n${idx}`]));
+  const edgeKeys = new Map(Array.from(edgeTypes.keys(), (name, idx) => [name, `e${idx}`]));
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">'];
+  for (const [name, type] of nodeTypes) {
+    lines.push(`  <key id="${nodeKeys.get(name)}" for="node" attr.name="${escapeXML(name)}" attr.type="${type}"/>`);
+  }
+  for (const [name, type] of edgeTypes) {
+    lines.push(`  <key id="${edgeKeys.get(name)}" for="edge" attr.name="${escapeXML(name)}" attr.type="${type}"/>`);
+  }
+  lines.push(`  <graph id="${escapeXML(network.title)}" edgedefault="undirected">`);
+
+  const data = (keys: Map<string, string>, values: Record<string, NetworkExportValue | undefined>) =>
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `      <data key="${keys.get(name)}">${escapeXML(value!)}</data>`);
+
+  for (const { id, label, x, y, color, size, attributes } of network.nodes) {
+    lines.push(
+      `    <node id="${escapeXML(id)}">`,
+      ...data(nodeKeys, { label, x, y, color, size, ...attributes }),
+      '    </node>',
+    );
+  }
+  for (const { id, source, target, color, size, attributes } of network.edges) {
+    lines.push(
+      `    <edge id="${escapeXML(id)}" source="${escapeXML(source)}" target="${escapeXML(target)}">`,
+      ...data(edgeKeys, { color, size, ...attributes }),
+      '    </edge>',
+    );
+  }
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize network into GEXF 1.3 (readable by Gephi) with visual attributes in the viz namespace
+ * @param network Network snapshot
+ * @returns GEXF document
+ */
+export function toGEXF(network: NetworkExport) {
+  const nodeTypes = collectAttributeTypes(network.nodes);
+  const edgeTypes = collectAttributeTypes(network.edges);
+  const nodeIds = new Map(Array.from(nodeTypes.keys(), (name, idx) => [name, String(idx)]));
+  const edgeIds = new Map(Array.from(edgeTypes.keys(), (name, idx) => [name, String(idx)]));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta><creator>TBEP</creator><description>${escapeXML(network.title)}</description></meta>`,
+    '  <graph defaultedgetype="undirected" mode="static">',
+  ];
+  for (const [domain, types, ids] of [
+    ['node', nodeTypes, nodeIds],
+    ['edge', edgeTypes, edgeIds],
+  ] as const) {
+    lines.push(`    <attributes class="${domain}">`);
+    for (const [name, type] of types) {
+      lines.push(`      <attribute id="${ids.get(name)}" title="${escapeXML(name)}" type="${type}"/>`);
+    }
+    lines.push('    </attributes>');
+  }
+
+  const attvalues = (ids: Map<string, string>, attributes: Record<string, NetworkExportValue>) => [
+    '        <attvalues>',
+    ...Object.entries(attributes).map(
+      ([name, value]) => `          <attvalue for="${ids.get(name)}" value="${escapeXML(value)}"/>`,
+    ),
+    '        </attvalues>',
+  ];
+  const vizColor = (color?: string) => {
+    const rgb = toRGB(color);
+    return rgb ? [`        <viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>`] : [];
+  };
+
+  lines.push('    <nodes>');
+  for (const { id, label, x, y, color, size, attributes } of network.nodes) {
+    lines.push(
+      `      <node id="${escapeXML(id)}" label="${escapeXML(label)}">`,
+      ...attvalues(nodeIds, attributes),
+      ...(size === undefined ? [] : [`        <viz:size value="${size}"/>`]),
+      `        <viz:position x="${x}" y="${y}" z="0"/>`,
+      ...vizColor(color),
+      '      </node>',
+    );
+  }
+  lines.push('    </nodes>', '    <edges>');
+  for (const { id, source, target, color, size, attributes } of network.edges) {
+    const weight = typeof attributes.score === 'number' ? ` weight="${attributes.score}"` : '';
+    lines.push(
+      `      <edge id="${escapeXML(id)}" source="${escapeXML(source)}" target="${escapeXML(target)}"${weight}>`,
+      ...attvalues(edgeIds, attributes),
+      ...vizColor(color),
+      ...(size === undefined ? [] : [`        <viz:thickness value="${size}"/>`]),
+      '      </edge>',
+    );
+  }
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize network into Cytoscape.js JSON (importable in Cytoscape desktop as `.cyjs` and by `cy.json()`)
+ * @param network Network snapshot
+ * @returns Cytoscape.js JSON string
+ */
+export function toCytoscapeJSON(network: NetworkExport) {
+  return JSON.stringify(
+    {
+      format_version: '1.0',
+      generated_by: 'TBEP',
+      target_cytoscapejs_version: '~3.0',
+      data: { name: network.title },
+      elements: {
+        nodes: network.nodes.map(({ id, label, x, y, color, size, attributes }) => ({
+          data: { id, name: label, color, size, ...attributes },
+          // Cytoscape's y-axis points downwards unlike sigma
+          position: { x, y: -y },
+        })),
+        edges: network.edges.map(({ id, source, target, color, size, attributes }) => ({
+          data: { id, source, target, color, size, ...attributes },
+        })),
+      },
+      style: [
+        {
+          selector: 'node',
+          style: {
+            label: 'data(name)',
+            'background-color': 'data(color)',
+            width: 'data(size)',
+            height: 'data(size)',
+          },
+        },
+        { selector: 'edge', style: { 'line-color': 'data(color)', width: 'data(size)' } },
+      ],
+    },
+    null,
+    2,
+  );
+}
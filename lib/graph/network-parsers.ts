@@ -0,0 +1,244 @@
+import Papa from 'papaparse';
+import type { ColumnMapping, ParsedNetwork } from '@/lib/interface';
+
+/**
+ * Attribute names (case-insensitive, in priority order) holding the gene identifier of a node
+ */
+const NODE_LABEL_KEYS = ['label', 'name', 'shared name', 'gene', 'symbol'];
+
+/**
+ * Attribute names (case-insensitive, in priority order) holding the weight of an edge
+ */
+const EDGE_WEIGHT_KEYS = ['weight', 'score'];
+
+/**
+ * Rows of an edge list shown in the column mapping preview
+ */
+export const PREVIEW_ROWS = 5;
+
+const NUMERIC_TYPES = /^(int|integer|long|float|double|short|byte)$/i;
+
+type AttributeDefinition = { name: string; type: string | null; defaultValue?: string };
+
+function parseXML(text: string) {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Invalid XML document');
+  return doc;
+}
+
+function castValue(value: string, type: string | null): string | number {
+  if (type && NUMERIC_TYPES.test(type)) {
+    const num = Number(value);
+    return Number.isNaN(num) ? value : num;
+  }
+  return value;
+}
+
+function childElements(element: Element, localName: string) {
+  return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+/**
+ * Removes all the candidate keys from attributes and returns the value of the first one present
+ * @param attributes Attributes of the node/edge
+ * @param candidates Lowercase attribute names in priority order
+ * @returns Value of the first candidate present or undefined
+ */
+function pickAttribute(attributes: Record<string, string | number>, candidates: string[]) {
+  let picked: { value: string | number; priority: number } | undefined;
+  for (const key of Object.keys(attributes)) {
+    const priority = candidates.indexOf(key.toLowerCase());
+    if (priority === -1) continue;
+    if (!picked || priority < picked.priority) picked = { value: attributes[key], priority };
+    delete attributes[key];
+  }
+  return picked?.value;
+}
+
+function readAttributes(
+  values: Array<[definition: AttributeDefinition | undefined, key: string, value: string]>,
+  definitions: Map<string, AttributeDefinition>,
+) {
+  const attributes: Record<string, string | number> = {};
+  for (const definition of definitions.values()) {
+    if (definition.defaultValue !== undefined)
+      attributes[definition.name] = castValue(definition.defaultValue, definition.type);
+  }
+  for (const [definition, key, value] of values) {
+    attributes[definition?.name ?? key] = castValue(value, definition?.type ?? null);
+  }
+  return attributes;
+}
+
+function toWeight(value: string | number | undefined) {
+  if (value === undefined || value === '') return undefined;
+  const weight = Number(value);
+  return Number.isNaN(weight) ? undefined : weight;
+}
+
+/**
+ * Parse GraphML document (as exported by Cytoscape, Gephi, NetworkX etc.)
+ * @param text GraphML file content
+ * @returns Nodes with their gene identifier and attributes along with edges, their weights and attributes
+ */
+export function parseGraphML(text: string): ParsedNetwork {
+  const doc = parseXML(text);
+  const definitions = { node: new Map<string, AttributeDefinition>(), edge: new Map<string, AttributeDefinition>() };
+  for (const key of Array.from(doc.getElementsByTagName('key'))) {
+    const id = key.getAttribute('id');
+    if (!id) continue;
+    const domain = key.getAttribute('for') ?? 'all';
+    const definition: AttributeDefinition = {
+      name: key.getAttribute('attr.name') ?? id,
+      type: key.getAttribute('attr.type'),
+      defaultValue: childElements(key, 'default')[0]?.textContent ?? undefined,
+    };
+    if (domain === 'node' || domain === 'all') definitions.node.set(id, definition);
+    if (domain === 'edge' || domain === 'all') definitions.edge.set(id, definition);
+  }
+
+  const readData = (element: Element, domain: 'node' | 'edge') =>
+    readAttributes(
+      childElements(element, 'data').map(data => {
+        const key = data.getAttribute('key') ?? '';
+        return [definitions[domain].get(key), key, data.textContent?.trim() ?? ''];
+      }),
+      definitions[domain],
+    );
+
+  const nodes = Array.from(doc.getElementsByTagName('node')).map(node => {
+    const id = node.getAttribute('id') ?? '';
+    const attributes = readData(node, 'node');
+    const label = pickAttribute(attributes, NODE_LABEL_KEYS);
+    return { id, label: label ? String(label).trim() : id, attributes };
+  });
+
+  const edges = Array.from(doc.getElementsByTagName('edge')).map(edge => {
+    const attributes = readData(edge, 'edge');
+    return {
+      source: edge.getAttribute('source') ?? '',
+      target: edge.getAttribute('target') ?? '',
+      weight: toWeight(pickAttribute(attributes, EDGE_WEIGHT_KEYS)),
+      attributes,
+    };
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Parse GEXF document (as exported by Gephi)
+ * @param text GEXF file content
+ * @returns Nodes with their gene identifier and attributes along with edges, their weights and attributes
+ */
+export function parseGEXF(text: string): ParsedNetwork {
+  const doc = parseXML(text);
+  const definitions = { node: new Map<string, AttributeDefinition>(), edge: new Map<string, AttributeDefinition>() };
+  for (const attributes of Array.from(doc.getElementsByTagName('attributes'))) {
+    const domain = attributes.getAttribute('class') === 'edge' ? 'edge' : 'node';
+    for (const attribute of childElements(attributes, 'attribute')) {
+      const id = attribute.getAttribute('id');
+      if (!id) continue;
+      definitions[domain].set(id, {
+        name: attribute.getAttribute('title') ?? id,
+        type: attribute.getAttribute('type'),
+        defaultValue: childElements(attribute, 'default')[0]?.textContent ?? undefined,
+      });
+    }
+  }
+
+  const readAttValues = (element: Element, domain: 'node' | 'edge') =>
+    readAttributes(
+      childElements(element, 'attvalues')
+        .flatMap(attvalues => childElements(attvalues, 'attvalue'))
+        .map(attvalue => {
+          // GEXF 1.1 uses `id` while GEXF 1.2+ uses `for` to refer the attribute
+          const key = attvalue.getAttribute('for') ?? attvalue.getAttribute('id') ?? '';
+          return [definitions[domain].get(key), key, attvalue.getAttribute('value') ?? ''];
+        }),
+      definitions[domain],
+    );
+
+  const nodes = Array.from(doc.getElementsByTagName('node')).map(node => {
+    const id = node.getAttribute('id') ?? '';
+    const attributes = readAttValues(node, 'node');
+    const label = node.getAttribute('label') || pickAttribute(attributes, NODE_LABEL_KEYS);
+    return { id, label: label ? String(label).trim() : id, attributes };
+  });
+
+  const edges = Array.from(doc.getElementsByTagName('edge')).map(edge => {
+    const attributes = readAttValues(edge, 'edge');
+    // Weight attribute is dropped from the attributes even when the edge has its own weight
+    const weight = pickAttribute(attributes, EDGE_WEIGHT_KEYS);
+    return {
+      source: edge.getAttribute('source') ?? '',
+      target: edge.getAttribute('target') ?? '',
+      weight: toWeight(edge.getAttribute('weight') ?? weight),
+      attributes,
+    };
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Supported network file formats other than CSV/JSON edge lists
+ */
+export const NETWORK_FILE_FORMATS = ['graphml', 'gexf'] as const;
+export type NetworkFileFormat = (typeof NETWORK_FILE_FORMATS)[number];
+
+export function isNetworkFileFormat(ext?: string): ext is NetworkFileFormat {
+  return NETWORK_FILE_FORMATS.includes(ext as NetworkFileFormat);
+}
+
+/**
+ * Parse network file according to its format
+ * @param text File content
+ * @param format File format (extension)
+ * @returns Parsed network
+ */
+export function parseNetworkFile(text: string, format: NetworkFileFormat): ParsedNetwork {
+  return format === 'graphml' ? parseGraphML(text) : parseGEXF(text);
+}
+
+/**
+ * Parse CSV/JSON edge list into rows keyed by column name
+ * @param text File content
+ * @param format File format (extension)
+ * @returns Columns of the file and its rows
+ */
+export function parseEdgeList(text: string, format: 'csv' | 'json') {
+  if (format === 'json') {
+    const rows: Array<Record<string, string | number>> = JSON.parse(text);
+    if (!Array.isArray(rows)) throw new Error('JSON file must be an array of records');
+    // Records may leave out keys, so the columns are collected from all the previewed rows
+    const fields = new Set(rows.slice(0, PREVIEW_ROWS).flatMap(row => Object.keys(row ?? {})));
+    return { fields: Array.from(fields), rows };
+  }
+  const parsedResult = Papa.parse<Record<string, string | number>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: true,
+  });
+  return { fields: parsedResult.meta.fields ?? [], rows: parsedResult.data };
+}
+
+/**
+ * Guess the column mapping of an edge list, first two textual columns are genes and last numeric column is the score
+ * @param fields Columns of the file
+ * @param rows Rows of the file
+ * @returns Guessed column mapping or null if there are less than 3 columns
+ */
+export function guessColumnMapping(
+  fields: string[],
+  rows: Array<Record<string, string | number>>,
+): ColumnMapping | null {
+  if (fields.length < 3) return null;
+  const sample = rows[0] ?? {};
+  const textual = fields.filter(field => typeof sample[field] !== 'number');
+  const numeric = fields.filter(field => typeof sample[field] === 'number');
+  const source = textual[0] ?? fields[0];
+  const target = textual.find(field => field !== source) ?? fields.find(field => field !== source) ?? fields[1];
+  const score = numeric.at(-1) ?? fields.find(field => field !== source && field !== target) ?? fields[2];
+  return { source, target, score, edgeAttributes: [] };
+}
@@ -0,0 +1,162 @@
+import type Graph from 'graphology';
+import { MinHeap } from '../communities/utils';
+import type { EdgeAttributes, GenePath, NodeAttributes } from '../interface';
+
+/**
+ * Paths listed for a pair of genes at most, as the number of shortest paths can grow exponentially
+ */
+export const MAX_PATHS = 100;
+
+const EPSILON = 1e-9;
+
+type GeneGraph = Graph<NodeAttributes, EdgeAttributes>;
+
+interface Blocked {
+  nodes: Set<string>;
+  edges: Set<string>;
+}
+
+/**
+ * Distance of an edge, hops or `1 - score` (stronger interactions are closer)
+ */
+function edgeDistance(attr: EdgeAttributes, weighted: boolean) {
+  return weighted ? Math.max(0, 1 - (attr.score ?? 0)) : 1;
+}
+
+/**
+ * Whether the node is walkable, i.e. a visible gene not merged into a collapsed community
+ */
+function isVisible(attr: NodeAttributes) {
+  return !attr.hidden && attr.collapsedCommunity === undefined;
+}
+
+/**
+ * Dijkstra from the source over the visible edges, keeping every predecessor on a shortest path
+ * @returns Distance of every reached node and its predecessors along with the connecting edges
+ */
+function dijkstra(graph: GeneGraph, source: string, target: string, weighted: boolean, blocked?: Blocked) {
+  const distances = new Map<string, number>([[source, 0]]);
+  const predecessors = new Map<string, Array<{ node: string; edge: string }>>([[source, []]]);
+  const settled = new Set<string>();
+  const heap = new MinHeap<string>();
+  heap.push(0, source);
+  while (heap.size > 0) {
+    const { priority, value: node } = heap.pop();
+    if (settled.has(node)) continue;
+    // Nodes farther than the target can not be on a shortest path to it
+    if (priority > (distances.get(target) ?? Number.POSITIVE_INFINITY) + EPSILON) break;
+    settled.add(node);
+    graph.forEachEdge(node, (edge, attr, source, target, sourceAttr, targetAttr) => {
+      const [neighbor, neighborAttr] = source === node ? [target, targetAttr] : [source, sourceAttr];
+      if (attr.hidden || !isVisible(neighborAttr) || settled.has(neighbor)) return;
+      if (blocked?.edges.has(edge) || blocked?.nodes.has(neighbor)) return;
+      const distance = priority + edgeDistance(attr, weighted);
+      const current = distances.get(neighbor) ?? Number.POSITIVE_INFINITY;
+      if (distance < current - EPSILON) {
+        distances.set(neighbor, distance);
+        predecessors.set(neighbor, [{ node, edge }]);
+        heap.push(distance, neighbor);
+      } else if (Math.abs(distance - current) <= EPSILON) {
+        predecessors.get(neighbor)?.push({ node, edge });
+      }
+    });
+  }
+  return { distances, predecessors };
+}
+
+function toGenePath(graph: GeneGraph, nodes: string[], edges: string[], distance: number): GenePath {
+  return { nodes, labels: nodes.map(node => graph.getNodeAttribute(node, 'label') ?? node), edges, distance };
+}
+
+/**
+ * All the shortest paths between two genes over the visible edges
+ * @param graph Graph of the network
+ * @param source ID of the first gene
+ * @param target ID of the second gene
+ * @param weighted Whether `1 - score` of the edges is used as distance instead of hops
+ * @returns Shortest paths, at most `MAX_PATHS`, none if the genes are not connected
+ */
+export function allShortestPaths(graph: GeneGraph, source: string, target: string, weighted: boolean) {
+  const { distances, predecessors } = dijkstra(graph, source, target, weighted);
+  const distance = distances.get(target);
+  if (distance === undefined || source === target) return [];
+  const paths: GenePath[] = [];
+  // Walks back from the target, every branch of the predecessors is another path
+  const walk = (node: string, nodes: string[], edges: string[]) => {
+    if (paths.length >= MAX_PATHS) return;
+    if (node === source) {
+      paths.push(toGenePath(graph, [source, ...nodes], edges, distance));
+      return;
+    }
+    for (const predecessor of predecessors.get(node) ?? []) {
+      walk(predecessor.node, [node, ...nodes], [predecessor.edge, ...edges]);
+    }
+  };
+  walk(target, [], []);
+  return paths;
+}
+
+/**
+ * One shortest path between two genes avoiding the blocked nodes/edges
+ */
+function shortestPath(graph: GeneGraph, source: string, target: string, weighted: boolean, blocked?: Blocked) {
+  const { distances, predecessors } = dijkstra(graph, source, target, weighted, blocked);
+  const distance = distances.get(target);
+  if (distance === undefined) return null;
+  const [nodes, edges] = [[target], [] as string[]];
+  for (let node = target; node !== source; ) {
+    const { node: previous, edge } = predecessors.get(node)![0];
+    nodes.unshift(previous);
+    edges.unshift(edge);
+    node = previous;
+  }
+  return { nodes, edges, distance };
+}
+
+/**
+ * K shortest loopless paths between two genes over the visible edges (Yen, 1971), alternatives to the shortest path
+ * @param graph Graph of the network
+ * @param source ID of the first gene
+ * @param target ID of the second gene
+ * @param k Number of paths
+ * @param weighted Whether `1 - score` of the edges is used as distance instead of hops
+ * @returns Paths from the shortest, fewer than `k` if there are no more
+ */
+export function kShortestPaths(graph: GeneGraph, source: string, target: string, k: number, weighted: boolean) {
+  if (source === target) return [];
+  const first = shortestPath(graph, source, target, weighted);
+  if (!first) return [];
+  const found = [first];
+  const candidates: typeof found = [];
+  const seen = new Set([first.nodes.join('\t')]);
+  while (found.length < Math.min(k, MAX_PATHS)) {
+    const previous = found[found.length - 1];
+    for (let i = 0; i < previous.nodes.length - 1; i++) {
+      const spur = previous.nodes[i];
+      const root = previous.nodes.slice(0, i + 1);
+      const blocked: Blocked = { nodes: new Set(root.slice(0, -1)), edges: new Set() };
+      // Edges leaving the root of the paths found so far are taken, for the spur path to deviate from them
+      for (const path of found) {
+        if (path.nodes.length > i + 1 && root.every((node, idx) => path.nodes[idx] === node)) {
+          blocked.edges.add(path.edges[i]);
+        }
+      }
+      const spurPath = shortestPath(graph, spur, target, weighted, blocked);
+      if (!spurPath) continue;
+      const nodes = [...root.slice(0, -1), ...spurPath.nodes];
+      const key = nodes.join('\t');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const rootEdges = previous.edges.slice(0, i);
+      const rootDistance = rootEdges.reduce(
+        (acc, edge) => acc + edgeDistance(graph.getEdgeAttributes(edge), weighted),
+        0,
+      );
+      candidates.push({ nodes, edges: [...rootEdges, ...spurPath.edges], distance: rootDistance + spurPath.distance });
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.distance - b.distance || a.nodes.length - b.nodes.length);
+    found.push(candidates.shift()!);
+  }
+  return found.map(({ nodes, edges, distance }) => toGenePath(graph, nodes, edges, distance));
+}
@@ -0,0 +1,249 @@
+import type Graph from 'graphology';
+import { useStore } from './hooks';
+import type {
+  EdgeAttributes,
+  GraphStore,
+  HistoryEntry,
+  HistoryNodeAttributes,
+  HistoryStoreKey,
+  HistoryTransaction,
+  NodeAttributes,
+} from './interface';
+import { distinct } from './utils';
+
+/**
+ * Entries kept in the history, the oldest ones are dropped beyond it
+ */
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Changes of the same setting within this interval (ms) of the previous one are grouped, e.g. dragging a slider
+ */
+export const HISTORY_GROUP_INTERVAL = 1000;
+
+/**
+ * Label of the history entry recording a change of the store field, fields sharing a label are grouped together
+ */
+export const HISTORY_STORE_LABELS: Record<HistoryStoreKey, string> = {
+  radialAnalysis: 'Radial Analysis',
+  selectedRadioNodeColor: 'Node Color',
+  selectedNodeColorProperty: 'Node Color',
+  selectedRadioNodeSize: 'Node Size',
+  selectedNodeSizeProperty: 'Node Size',
+  communityMap: 'Communities',
+  algorithmResults: 'Communities',
+  collapsedCommunities: 'Community Collapse',
+  collapsedEdgeAggregation: 'Community Collapse',
+  communityEnrichment: 'Community Enrichment',
+  diseaseModule: 'Disease Module',
+  defaultNodeColor: 'Default Node Color',
+  defaultNodeSize: 'Default Node Size',
+  defaultLabelDensity: 'Label Density',
+  defaultLabelSize: 'Label Size',
+  showEdgeColor: 'Edge Color',
+  edgeOpacity: 'Edge Opacity',
+  highlightNeighborNodes: 'Highlight Neighbors',
+};
+
+const HISTORY_STORE_KEYS = Object.keys(HISTORY_STORE_LABELS) as HistoryStoreKey[];
+const HISTORY_NODE_ATTRIBUTES = ['x', 'y', 'color', 'community'] as const satisfies Array<keyof HistoryNodeAttributes>;
+
+type HistoryStore = HistoryEntry['store']['before'];
+
+// Store changes while travelling through the history are not recorded
+let paused = false;
+// Operations spanning several store/graph updates, possibly overlapping (e.g. a node dragged during a run)
+const transactions = new Set<HistoryTransaction>();
+
+function createEntry(label: string): HistoryEntry {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    label,
+    createdAt: now,
+    updatedAt: now,
+    store: { before: {}, after: {} },
+    nodes: { before: {}, after: {} },
+  };
+}
+
+function pick(state: GraphStore, keys: HistoryStoreKey[]) {
+  return Object.fromEntries(keys.map(key => [key, state[key]])) as HistoryStore;
+}
+
+type HistoryNodeAttribute = keyof HistoryNodeAttributes;
+
+function captureNodes(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  nodes?: string[],
+  attributes: readonly HistoryNodeAttribute[] = HISTORY_NODE_ATTRIBUTES,
+) {
+  const captured: Record<string, HistoryNodeAttributes> = {};
+  const capture = (node: string, attr: NodeAttributes) => {
+    captured[node] = Object.fromEntries(attributes.map(key => [key, attr[key]]));
+  };
+  if (!nodes) graph.forEachNode(capture);
+  else for (const node of nodes) if (graph.hasNode(node)) capture(node, graph.getNodeAttributes(node));
+  return captured;
+}
+
+/**
+ * Entry with the changes of the store fields added, values before the first change of a field are kept
+ */
+function withStoreChanges(entry: HistoryEntry, state: GraphStore, prev: GraphStore, keys: HistoryStoreKey[]) {
+  return {
+    ...entry,
+    updatedAt: Date.now(),
+    store: {
+      before: { ...pick(prev, keys), ...entry.store.before },
+      after: { ...entry.store.after, ...pick(state, keys) },
+    },
+  };
+}
+
+function pushEntry(entry: HistoryEntry) {
+  const { history, historyIndex } = useStore.getState();
+  // A new change discards the undone entries
+  const kept = history.slice(Math.max(0, historyIndex - HISTORY_LIMIT + 1), historyIndex);
+  useStore.setState({ history: [...kept, entry], historyIndex: kept.length + 1 });
+}
+
+/**
+ * Records the changes of the tracked store fields, either into the open operation or as a new entry
+ * @returns Function to stop recording
+ */
+export function subscribeHistory() {
+  return useStore.subscribe((state, prev) => {
+    if (paused) return;
+    let changed = HISTORY_STORE_KEYS.filter(key => state[key] !== prev[key]);
+    // Changes are claimed by the open operations expecting them, latest first
+    for (const transaction of Array.from(transactions).reverse()) {
+      const claimed = changed.filter(key => !transaction.keys || transaction.keys.includes(key));
+      if (claimed.length === 0) continue;
+      transaction.entry = withStoreChanges(transaction.entry, state, prev, claimed);
+      changed = changed.filter(key => !claimed.includes(key));
+    }
+    if (changed.length === 0) return;
+    const label = distinct(changed.map(key => HISTORY_STORE_LABELS[key])).join(', ');
+    const last = state.history[state.historyIndex - 1];
+    const isGrouped =
+      last?.label === label &&
+      Object.keys(last.nodes.after).length === 0 &&
+      Date.now() - last.updatedAt < HISTORY_GROUP_INTERVAL;
+    const entry = withStoreChanges(isGrouped ? last : createEntry(label), state, prev, changed);
+    if (isGrouped) useStore.setState({ history: state.history.map(item => (item === last ? entry : item)) });
+    else pushEntry(entry);
+  });
+}
+
+/**
+ * Opens an operation, its store changes are grouped into it until it is committed
+ * @param graph Graph of the network
+ * @param label Label of the history entry
+ * @param scope Nodes, node attributes and store fields the operation changes, every one of them if absent
+ * @returns Operation to be passed to `commitHistory`
+ */
+export function beginHistory(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  label: string,
+  {
+    nodes,
+    attributes = HISTORY_NODE_ATTRIBUTES,
+    keys,
+  }: { nodes?: string[]; attributes?: readonly HistoryNodeAttribute[]; keys?: HistoryStoreKey[] } = {},
+) {
+  const transaction: HistoryTransaction = {
+    entry: { ...createEntry(label), nodes: { before: captureNodes(graph, nodes, attributes), after: {} } },
+    attributes,
+    keys,
+  };
+  transactions.add(transaction);
+  return transaction;
+}
+
+/**
+ * Closes the operation and records it along with the changed node attributes, nothing is recorded if neither the
+ * store nor the nodes changed
+ * @param graph Graph of the network
+ * @param transaction Operation opened by `beginHistory`
+ */
+export function commitHistory(graph: Graph<NodeAttributes, EdgeAttributes>, transaction: HistoryTransaction) {
+  if (!transactions.delete(transaction)) return;
+  const { entry, attributes } = transaction;
+  const captured = captureNodes(graph, Object.keys(entry.nodes.before), attributes);
+  const nodes: HistoryEntry['nodes'] = { before: {}, after: {} };
+  for (const [node, after] of Object.entries(captured)) {
+    const before = entry.nodes.before[node];
+    if (attributes.every(key => before[key] === after[key])) continue;
+    nodes.before[node] = before;
+    nodes.after[node] = after;
+  }
+  if (Object.keys(entry.store.after).length === 0 && Object.keys(nodes.after).length === 0) return;
+  pushEntry({ ...entry, updatedAt: Date.now(), nodes });
+}
+
+/**
+ * Records an operation, possibly async, as a single history entry
+ * @param graph Graph of the network
+ * @param label Label of the history entry
+ * @param operation Operation changing the store and/or the node attributes
+ * @param scope Node attributes and store fields the operation changes, every one of them if absent
+ */
+export async function recordHistory(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  label: string,
+  operation: () => unknown,
+  scope: { attributes?: readonly HistoryNodeAttribute[]; keys?: HistoryStoreKey[] } = {},
+) {
+  const transaction = beginHistory(graph, label, scope);
+  try {
+    await operation();
+  } finally {
+    commitHistory(graph, transaction);
+  }
+}
+
+/**
+ * Moves through the history by undoing or redoing the entries in between, recording is paused until
+ * `resumeHistory` is called
+ * @param index Number of entries to be applied
+ * @returns Node attributes to be applied once the analyses have reacted to the restored store, null if nothing
+ * changed
+ */
+export function travelHistory(index: number) {
+  const { history, historyIndex } = useStore.getState();
+  const target = Math.min(Math.max(index, 0), history.length);
+  if (target === historyIndex) return null;
+  const undo = target < historyIndex;
+  const entries = undo ? history.slice(target, historyIndex).reverse() : history.slice(historyIndex, target);
+  const store: HistoryStore = {};
+  const nodes: Record<string, HistoryNodeAttributes> = {};
+  for (const entry of entries) {
+    Object.assign(store, undo ? entry.store.before : entry.store.after);
+    // Entries may track different attributes of the same node
+    for (const [node, attributes] of Object.entries(undo ? entry.nodes.before : entry.nodes.after)) {
+      nodes[node] = { ...nodes[node], ...attributes };
+    }
+  }
+  paused = true;
+  useStore.setState({ ...store, historyIndex: target });
+  return nodes;
+}
+
+export function resumeHistory() {
+  paused = false;
+}
+
+/**
+ * Applies store changes without recording them, for changes following the ones the history cannot undo
+ * @param update Function changing the store
+ */
+export function withoutHistory(update: () => void) {
+  const wasPaused = paused;
+  paused = true;
+  try {
+    update();
+  } finally {
+    paused = wasPaused;
+  }
+}
@@ -1 +1,2 @@
+export * from './use-gene-sets';
 export * from './use-store';
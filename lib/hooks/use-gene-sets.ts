@@ -0,0 +1,42 @@
+import { useLazyQuery } from '@apollo/client/react';
+import { useCallback, useRef } from 'react';
+import { collectGeneSets } from '../enrichment';
+import { GENE_PROPERTIES_QUERY } from '../gql';
+import { type GenePropertiesData, type GenePropertiesDataVariables, GenePropertyCategoryEnum } from '../interface';
+import { useStore } from './use-store';
+
+/**
+ * Gene sets for enrichment analysis, loading the database pathways of the network genes missing in the universal data.
+ * Pathways failing to load (e.g. offline) are left out, keeping the loaded ones and the uploaded gene sets
+ * @returns Function resolving to the gene sets keyed by term name, along with the gene name of every network gene
+ */
+export function useGeneSets() {
+  const queriedPathways = useRef(new Set<string>());
+  const [fetchUniversal] = useLazyQuery<GenePropertiesData, GenePropertiesDataVariables>(GENE_PROPERTIES_QUERY);
+
+  return useCallback(async () => {
+    const { universalData, radioOptions, geneNameToID } = useStore.getState();
+    const geneIds = Array.from(geneNameToID.values());
+    const properties = radioOptions.database.Pathway.map(({ name }) => name).filter(
+      pathway =>
+        !queriedPathways.current.has(pathway) && !geneIds.some(gene => universalData[gene]?.common.Pathway[pathway]),
+    );
+    if (properties.length > 0) {
+      const result = await fetchUniversal({
+        variables: { geneIds, config: [{ category: GenePropertyCategoryEnum.PATHWAY, properties }] },
+      });
+      if (result.error) console.error(result.error);
+      else {
+        for (const pathway of properties) queriedPathways.current.add(pathway);
+        for (const { ID, data } of result.data?.geneProperties ?? []) {
+          if (!universalData[ID]) continue;
+          for (const { key, score } of data) universalData[ID].common.Pathway[key] = score;
+        }
+        useStore.setState({ universalData });
+      }
+    }
+    const state = useStore.getState();
+    const geneNames = new Map(Array.from(state.geneNameToID, ([name, id]) => [id, name]));
+    return { library: collectGeneSets(state, geneNames), geneNames };
+  }, [fetchUniversal]);
+}
@@ -20,6 +20,13 @@ export const useStore = create<GraphStore>(set => ({
   defaultLabelDensity: 3,
   defaultLabelSize: 8,
   selectedNodes: [],
+  selectionMode: 'box',
+  selectionSets: [],
+  activeSelectionSet: null,
+  editMode: false,
+  selectedEdges: [],
+  editEdgeScore: 1,
+  networkEdits: [],
   selectedRadioNodeColor: undefined,
   selectedRadioNodeSize: undefined,
   showEdgeColor: false,
@@ -33,12 +40,8 @@ export const useStore = create<GraphStore>(set => ({
     averageClusteringCoefficient: 0,
     degreeDistribution: null,
     edgeScoreDistribution: null,
-    top10ByDegree: null,
-    top10ByBetweenness: null,
-    top10ByCloseness: null,
-    top10ByEigenvector: null,
-    top10ByPageRank: null,
   },
+  networkStatisticsProgress: {},
   setNetworkStatistics: (stats: Partial<GraphStore['networkStatistics']>) => {
     set(state => ({
       networkStatistics: {
@@ -66,6 +69,7 @@ export const useStore = create<GraphStore>(set => ({
       Custom_Color: [],
       OpenTargets: OPENTARGETS_PROPERTY_MAPPING,
       OT_Prioritization: [],
+      Attribute: [],
     },
   },
   selectedNodeSizeProperty: '',
@@ -74,6 +78,25 @@ export const useStore = create<GraphStore>(set => ({
   graphConfig: null,
   edgeOpacity: 1,
   highlightNeighborNodes: false,
+  communityMap: {},
+  algorithmResults: null,
+  partitionHistory: [],
+  collapsedCommunities: [],
+  hiddenGenes: [],
+  collapsedEdgeAggregation: 'average',
+  communityEnrichment: {},
+  userGeneSets: {},
+  enrichmentUniverse: [],
+  remoteEnrichmentFallback: true,
+  propagation: null,
+  propagationProgress: null,
+  diseaseModule: null,
+  shortestPaths: null,
+  highlightedPath: null,
+  projectId: '',
+  snapshots: [],
+  history: [],
+  historyIndex: 0,
 
   activeTab: 'Network',
   setActiveTab: tab => set({ activeTab: tab }),
@@ -0,0 +1,41 @@
+import type { ColumnMapping } from './graph';
+
+/**
+ * Props for the column mapping dialog of uploaded edge lists
+ * @interface ColumnMappingDialogProps
+ */
+export interface ColumnMappingDialogProps {
+  /**
+   * State of the dialog
+   */
+  open: boolean;
+
+  /**
+   * Function to set the open state of the dialog
+   * @param open New state of the dialog
+   * @returns {void}
+   */
+  setOpen: (open: boolean) => void;
+
+  /**
+   * Columns of the uploaded file
+   */
+  fields: string[];
+
+  /**
+   * Rows of the uploaded file used for preview
+   */
+  rows: Array<Record<string, string | number>>;
+
+  /**
+   * Initial mapping guessed from the file
+   */
+  defaultMapping: ColumnMapping;
+
+  /**
+   * Function to handle the confirmed mapping
+   * @param mapping Chosen column mapping
+   * @returns {void}
+   */
+  onSubmit: (mapping: ColumnMapping) => void;
+}
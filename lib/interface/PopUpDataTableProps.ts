@@ -1,4 +1,5 @@
 import type { ColumnDef } from '@tanstack/react-table';
+import type { ReactNode } from 'react';
 
 /**
  * Props for the data table in the popup
@@ -46,4 +47,9 @@ export interface PopUpDataTableProps<E, F> {
    * One column name for each table
    */
   filterColumnNames: [string, string];
+
+  /**
+   * Other views of the data of each tab (e.g. charts) keyed by their title, shown alongside the table
+   */
+  views?: [Record<string, ReactNode>?, Record<string, ReactNode>?];
 }
@@ -0,0 +1,41 @@
+/**
+ * Mapping of the columns of an uploaded CSV/JSON edge list to the interaction network
+ * @interface ColumnMapping
+ */
+export interface ColumnMapping {
+  /**
+   * Column holding the ENSG ID/gene name of the source gene
+   */
+  source: string;
+
+  /**
+   * Column holding the ENSG ID/gene name of the target gene
+   */
+  target: string;
+
+  /**
+   * Column holding the interaction score of the edge
+   */
+  score: string;
+
+  /**
+   * Extra columns stored as edge attributes
+   */
+  edgeAttributes: string[];
+}
+
+/**
+ * Uploaded network file as stored in the `network` store of IndexedDB
+ * @interface UploadedNetwork
+ */
+export interface UploadedNetwork {
+  /**
+   * Uploaded file
+   */
+  file: File;
+
+  /**
+   * Column mapping chosen during upload (absent for GraphML/GEXF files)
+   */
+  mapping?: ColumnMapping;
+}
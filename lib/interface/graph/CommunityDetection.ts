@@ -0,0 +1,92 @@
+import type Graph from 'graphology';
+import type { SerializedGraph } from 'graphology-types';
+import type { EventMessage, Events } from '@/lib/utils';
+import type { EdgeAttributes, NodeAttributes } from '.';
+
+/**
+ * Community of every node keyed by node ID along with the modularity of the partition
+ */
+export interface CommunityPartition {
+  communities: Record<string, number>;
+  modularity: number;
+}
+
+export interface LeidenOptions {
+  /**
+   * Resolution of the modularity, higher values give more and smaller communities
+   */
+  resolution: number;
+  /**
+   * Whether interaction scores are used as edge weights
+   */
+  weighted: boolean;
+}
+
+/**
+ * Parameter of an algorithm shown in the network analysis popover, `name` is the key of its value in the options
+ */
+export type AlgorithmParameter =
+  | {
+      type: 'slider';
+      displayName: string;
+      name: string;
+      defaultValue: number;
+      min: number;
+      max: number;
+      step: number;
+    }
+  | {
+      type: 'checkbox';
+      displayName: string;
+      name: string;
+      defaultValue: boolean;
+    };
+
+/**
+ * Values of the parameters of an algorithm keyed by parameter name
+ */
+export type CommunityAlgorithmOptions = Record<string, number | boolean>;
+
+/**
+ * Community detection algorithm run in the community worker
+ */
+export interface CommunityAlgorithm {
+  name: string;
+  parameters: AlgorithmParameter[];
+  detect: (graph: Graph<NodeAttributes, EdgeAttributes>, options: CommunityAlgorithmOptions) => CommunityPartition;
+}
+
+export interface CommunityWorkerRequest {
+  /**
+   * Name of the algorithm in the registry
+   */
+  algorithm: string;
+  options: CommunityAlgorithmOptions;
+  graph: SerializedGraph<NodeAttributes, EdgeAttributes>;
+}
+
+export type CommunityWorkerResponse = ({ type: 'result' } & CommunityPartition) | { type: 'error'; message: string };
+
+/**
+ * Community detection run kept in the partition history of the network
+ */
+export type PartitionRun = EventMessage[Events.ALGORITHM_RESULTS] & {
+  id: string;
+  createdAt: number;
+};
+
+/**
+ * Agreement between two partitions of the same genes, genes left out of a run (small communities) have `null` community
+ */
+export interface PartitionComparison {
+  adjustedRandIndex: number;
+  normalizedMutualInformation: number;
+  /**
+   * Number of genes shared by a community of the first run and a community of the second run
+   */
+  overlaps: Array<{ source: string | null; target: string | null; genes: number }>;
+  /**
+   * Genes that are not in the community of the second run best matching their community of the first run
+   */
+  switchedGenes: Array<{ gene: string; from: string | null; to: string | null }>;
+}
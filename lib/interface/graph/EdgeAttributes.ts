@@ -51,4 +51,14 @@ export interface EdgeAttributes extends Attributes {
    * Scores for different interaction types if the edge represents multiple interaction types
    */
   typeScores?: Record<string, number>;
+
+  /**
+   * Extra attributes of the edge mapped from the columns of an uploaded edge list
+   */
+  properties?: Record<string, string | number>;
+
+  /**
+   * Number of edges merged into the edge if it joins a collapsed community
+   */
+  collapsedEdges?: number;
 }
@@ -0,0 +1,74 @@
+/**
+ * Gene sets keyed by term name, genes are gene names
+ */
+export type GeneSetLibrary = Record<string, string[]>;
+
+export interface EnrichmentOptions {
+  /**
+   * Background genes, only genes of the sets present here are counted
+   */
+  universe: string[];
+  /**
+   * Terms having fewer genes in the universe are not tested
+   */
+  minSetSize?: number;
+  /**
+   * Terms having more genes in the universe are not tested
+   */
+  maxSetSize?: number;
+}
+
+/**
+ * Over-representation of a term in the query genes
+ */
+export interface EnrichmentResult {
+  term: string;
+  /**
+   * Query genes in the term
+   */
+  genes: string[];
+  /**
+   * Genes of the term in the universe
+   */
+  setSize: number;
+  /**
+   * Query genes in the universe
+   */
+  querySize: number;
+  pValue: number;
+  /**
+   * Benjamini-Hochberg adjusted p-value (FDR)
+   */
+  adjustedPValue: number;
+  oddsRatio: number;
+  combinedScore: number;
+}
+
+/**
+ * Enriched term parsed from a row of the GSEA table
+ */
+export interface EnrichedTerm {
+  term: string;
+  /**
+   * Query genes in the term
+   */
+  genes: string[];
+  /**
+   * Genes of the term in the universe
+   */
+  setSize: number;
+  adjustedPValue: number;
+}
+
+/**
+ * Pair of terms sharing query genes in the enrichment map
+ */
+export interface EnrichmentMapEdge {
+  source: string;
+  target: string;
+  /**
+   * Shared genes over the genes of either term
+   */
+  jaccard: number;
+  genes: string[];
+}
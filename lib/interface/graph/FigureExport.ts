@@ -0,0 +1,102 @@
+import type { LegendSpec } from './LegendSpec';
+
+/**
+ * Page sizes supported by figure export, `Fit` uses the aspect ratio of the network canvas
+ */
+export type FigurePageSize = 'A4' | 'A3' | 'Letter' | 'Fit';
+
+/**
+ * Options of the vector figure export
+ * @interface FigureExportOptions
+ */
+export interface FigureExportOptions {
+  /**
+   * Size of the page
+   */
+  pageSize: FigurePageSize;
+
+  /**
+   * Orientation of the page (ignored for `Fit`)
+   */
+  orientation: 'portrait' | 'landscape';
+
+  /**
+   * Resolution used for raster (PNG) output of the figure
+   */
+  dpi: number;
+
+  /**
+   * Whether hidden nodes and edges are drawn as well
+   */
+  includeHidden: boolean;
+
+  /**
+   * Whether node labels are drawn
+   */
+  showLabels: boolean;
+
+  /**
+   * Title drawn above the network, no title block if empty
+   */
+  title?: string;
+}
+
+/**
+ * Rendered network and legends collected from sigma, in graph coordinates and screen pixel sizes
+ * @interface FigureInput
+ */
+export interface FigureInput {
+  /**
+   * Nodes in drawing order
+   */
+  nodes: Array<{
+    x: number;
+    y: number;
+    size: number;
+    color: string;
+    type: 'circle' | 'border' | 'highlight' | 'normal';
+    borderColor?: string;
+    label?: string;
+  }>;
+
+  /**
+   * Edges referring the index of their extremities in nodes
+   */
+  edges: Array<{ source: number; target: number; size: number; color: string }>;
+
+  /**
+   * Label size in screen pixels
+   */
+  labelSize: number;
+
+  /**
+   * Dimensions of the network canvas in pixels
+   */
+  viewport: { width: number; height: number };
+
+  /**
+   * Active legends
+   */
+  legends: LegendSpec[];
+}
+
+/**
+ * Figure laid out on the page, all coordinates are in points from the top-left corner
+ * @interface FigureScene
+ */
+export interface FigureScene {
+  width: number;
+  height: number;
+  title?: { text: string; x: number; y: number; size: number };
+  nodes: Array<{
+    x: number;
+    y: number;
+    radius: number;
+    color: string;
+    type: FigureInput['nodes'][number]['type'];
+    borderColor?: string;
+  }>;
+  edges: Array<{ x1: number; y1: number; x2: number; y2: number; width: number; color: string }>;
+  labels: Array<{ text: string; x: number; y: number; size: number }>;
+  legends: Array<{ spec: LegendSpec; x: number; y: number; width: number }>;
+}
@@ -6,8 +6,25 @@ import type {
   NodeColorType,
   NodeSizeType,
 } from '@/lib/data';
+import type { EventMessage, Events } from '@/lib/utils';
 import type { GenePropertyMetadata, SelectedNodeProperty } from '..';
-import type { ForceSettings, RadialAnalysisSetting } from '.';
+import type {
+  DiseaseModule,
+  EnrichmentResult,
+  ForceSettings,
+  GeneSetLibrary,
+  HistoryEntry,
+  NetworkEdit,
+  NetworkMetric,
+  NetworkMetricStatus,
+  PartitionRun,
+  ProjectSnapshot,
+  PropagationRun,
+  RadialAnalysisSetting,
+  SelectionMode,
+  SelectionSet,
+  ShortestPathRun,
+} from '.';
 
 /**
  * Store for Zustand
@@ -68,6 +85,41 @@ export interface GraphStore {
    */
   selectedNodes: SelectedNodeProperty[];
 
+  /**
+   * Shape drawn with shift to select nodes on the graph
+   */
+  selectionMode: SelectionMode;
+
+  /**
+   * Selections saved as named gene sets, oldest first
+   */
+  selectionSets: SelectionSet[];
+
+  /**
+   * ID of the selection set last applied to the gene search, its genes are bordered with its color
+   */
+  activeSelectionSet: string | null;
+
+  /**
+   * Whether the network is being edited, nodes are then dragged onto each other to draw edges
+   */
+  editMode: boolean;
+
+  /**
+   * Keys of the edges selected by clicking them in edit mode
+   */
+  selectedEdges: string[];
+
+  /**
+   * Score of the edges drawn in edit mode
+   */
+  editEdgeScore: number;
+
+  /**
+   * Manual edits of the network, oldest first
+   */
+  networkEdits: NetworkEdit[];
+
   /**
    * Selected radio button option for Node Color of graph
    */
@@ -95,13 +147,13 @@ export interface GraphStore {
     averageClusteringCoefficient: number;
     degreeDistribution: Array<{ degree: number; count: number }> | null;
     edgeScoreDistribution: Array<{ score: number; count: number }> | null;
-    top10ByDegree: Array<Record<'ID' | 'geneName' | 'description' | 'degree', string>> | null;
-    top10ByBetweenness: Array<Record<'ID' | 'geneName' | 'description' | 'betweenness', string>> | null;
-    top10ByCloseness: Array<Record<'ID' | 'geneName' | 'description' | 'closeness', string>> | null;
-    top10ByEigenvector: Array<Record<'ID' | 'geneName' | 'description' | 'eigenvector', string>> | null;
-    top10ByPageRank: Array<Record<'ID' | 'geneName' | 'description' | 'pagerank', string>> | null;
   };
 
+  /**
+   * Progress of the network statistics being computed in worker
+   */
+  networkStatisticsProgress: Partial<Record<NetworkMetric, NetworkMetricStatus>>;
+
   /**
    * Set Network Statistics
    * @param stats Partial<GraphStore['networkStatistics']>
@@ -162,6 +214,101 @@ export interface GraphStore {
    */
   highlightNeighborNodes: boolean;
 
+  /**
+   * Communities of the last community detection run keyed by community ID
+   */
+  communityMap: Record<string, { name: string; genes: string[]; color: string }>;
+
+  /**
+   * Results of the last community detection run
+   */
+  algorithmResults: EventMessage[Events.ALGORITHM_RESULTS] | null;
+
+  /**
+   * Community detection runs on the network for comparison, oldest first
+   */
+  partitionHistory: PartitionRun[];
+
+  /**
+   * IDs of the communities of `communityMap` collapsed into a single node
+   */
+  collapsedCommunities: string[];
+
+  /**
+   * IDs of the genes hidden from the context menu, kept apart from `hidden` attribute set by the filters
+   */
+  hiddenGenes: string[];
+
+  /**
+   * How scores of the edges merged into an edge of a collapsed community are combined
+   */
+  collapsedEdgeAggregation: 'sum' | 'average';
+
+  /**
+   * Over-represented terms of the communities of `communityMap` keyed by community name
+   */
+  communityEnrichment: Record<string, EnrichmentResult[]>;
+
+  /**
+   * Gene sets of the uploaded GMT files
+   */
+  userGeneSets: GeneSetLibrary;
+
+  /**
+   * Background gene names of the enrichment of selected genes, all the network genes if empty
+   */
+  enrichmentUniverse: string[];
+
+  /**
+   * Whether the remote GSEA service is used when no gene sets are available locally
+   */
+  remoteEnrichmentFallback: boolean;
+
+  /**
+   * Last network propagation run from the seed genes
+   */
+  propagation: PropagationRun | null;
+
+  /**
+   * Finished permutations of the running network propagation, null when not running
+   */
+  propagationProgress: number | null;
+
+  /**
+   * Disease module grown from the seed genes by the last DIAMOnD run
+   */
+  diseaseModule: DiseaseModule | null;
+
+  /**
+   * Paths of the last shortest path search between genes, highlighted on the graph
+   */
+  shortestPaths: ShortestPathRun | null;
+
+  /**
+   * Index of the path in `shortestPaths` highlighted alone, all of them are highlighted if null
+   */
+  highlightedPath: number | null;
+
+  /**
+   * ID of the project under which the network tab is autosaved
+   */
+  projectId: string;
+
+  /**
+   * Named snapshots of the analysis, oldest first
+   */
+  snapshots: ProjectSnapshot[];
+
+  /**
+   * Undo/redo history of the session, oldest first
+   */
+  history: HistoryEntry[];
+
+  /**
+   * Number of entries of `history` currently applied, the ones after it are undone and can be redone
+   */
+  historyIndex: number;
+
   /**
    * Active tab in the main layout.
    */
@@ -207,6 +354,9 @@ export type UniversalData = Record<
 >;
 
 export type CommonSection = {
-  [K in DiseaseIndependentProperties]: Record<string, K extends 'Custom_Color' ? string : number>;
+  [K in DiseaseIndependentProperties]: Record<
+    string,
+    K extends 'Custom_Color' ? string : K extends 'Attribute' ? string | number : number
+  >;
 };
 export type OtherSection = Record<DiseaseDependentProperties, Record<string, number>>;
@@ -0,0 +1,73 @@
+import type { GraphStore, NodeAttributes, SnapshotStoreKey } from '.';
+
+/**
+ * Store fields tracked by the undo/redo history, i.e. filters, color/size mapping, communities and network style
+ */
+export type HistoryStoreKey =
+  | SnapshotStoreKey
+  | 'diseaseModule'
+  | 'defaultNodeColor'
+  | 'defaultNodeSize'
+  | 'defaultLabelDensity'
+  | 'defaultLabelSize'
+  | 'showEdgeColor'
+  | 'edgeOpacity'
+  | 'highlightNeighborNodes';
+
+/**
+ * Node attributes tracked by the undo/redo history, same as the ones kept in snapshots
+ */
+export type HistoryNodeAttributes = Pick<NodeAttributes, 'x' | 'y' | 'color' | 'community'>;
+
+/**
+ * Reversible change of the store and/or the node attributes, continuous changes (e.g. slider drags) are grouped
+ * into a single entry
+ * @interface HistoryEntry
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  /**
+   * Time of the first change of the entry in milliseconds since epoch
+   */
+  createdAt: number;
+  /**
+   * Time of the latest change grouped into the entry in milliseconds since epoch
+   */
+  updatedAt: number;
+  /**
+   * Changed store fields before and after the change
+   */
+  store: {
+    before: Partial<Pick<GraphStore, HistoryStoreKey>>;
+    after: Partial<Pick<GraphStore, HistoryStoreKey>>;
+  };
+  /**
+   * Tracked attributes of the changed nodes before and after the change, keyed by node ID. Only the attributes
+   * changed by the operation are kept
+   */
+  nodes: {
+    before: Record<string, HistoryNodeAttributes>;
+    after: Record<string, HistoryNodeAttributes>;
+  };
+}
+
+/**
+ * Operation in progress, e.g. a node drag or an algorithm run, recorded as a single entry once committed
+ * @interface HistoryTransaction
+ */
+export interface HistoryTransaction {
+  /**
+   * Entry collecting the changes of the operation
+   */
+  entry: HistoryEntry;
+  /**
+   * Node attributes changed by the operation, the others are left to the operations changing them
+   */
+  attributes: ReadonlyArray<keyof HistoryNodeAttributes>;
+  /**
+   * Store fields changed by the operation, changes of the other fields are recorded on their own. Every field if
+   * absent
+   */
+  keys?: HistoryStoreKey[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Description of a legend, rendered both in the right panel and in exported figures
+ */
+export type LegendSpec =
+  | {
+      /**
+       * Continuous color scale
+       */
+      kind: 'heatmap';
+
+      /**
+       * Title of the legend
+       */
+      title: string;
+
+      /**
+       * Domain of the color scale
+       */
+      domain?: number[];
+
+      /**
+       * Colors of the color scale
+       */
+      range: string[];
+
+      /**
+       * Label at the start of the scale (replaces tick labels)
+       */
+      startLabel?: string;
+
+      /**
+       * Label at the end of the scale (replaces tick labels)
+       */
+      endLabel?: string;
+
+      /**
+       * Number of divisions of the scale
+       */
+      divisions?: number;
+    }
+  | {
+      /**
+       * Present/Not Present color legend
+       */
+      kind: 'binary';
+
+      /**
+       * Color of the genes where property is present
+       */
+      presentColor: string;
+
+      /**
+       * Color of the genes where property is not present
+       */
+      absentColor: string;
+    }
+  | {
+      /**
+       * Distinct color of every category
+       */
+      kind: 'categorical';
+
+      /**
+       * Title of the legend
+       */
+      title: string;
+
+      /**
+       * Label and color of every category
+       */
+      items: Array<{ label: string; color: string }>;
+    };
@@ -0,0 +1,28 @@
+/**
+ * Manual edits of the network structure
+ */
+export type NetworkEditAction = 'add-gene' | 'remove-gene' | 'add-edge' | 'remove-edge' | 'merge-genes';
+
+/**
+ * Manual edit of the network, saved with the project and listed in the interaction CSV export
+ * @interface NetworkEdit
+ */
+export interface NetworkEdit {
+  action: NetworkEditAction;
+  /**
+   * ID of the gene, the source of the edge or the gene kept by the merge
+   */
+  source: string;
+  /**
+   * Target of the edge or the duplicate gene merged into the source
+   */
+  target?: string;
+  /**
+   * Score of the added/removed edge
+   */
+  score?: number;
+  /**
+   * Time of the edit in milliseconds since epoch
+   */
+  createdAt: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * Attribute value of an exported node/edge
+ */
+export type NetworkExportValue = string | number | boolean;
+
+/**
+ * Snapshot of the rendered network used to serialize it into GraphML/GEXF/Cytoscape.js JSON
+ * @interface NetworkExport
+ */
+export interface NetworkExport {
+  /**
+   * Title of the network
+   */
+  title: string;
+
+  /**
+   * Nodes of the network
+   */
+  nodes: Array<{
+    /**
+     * ENSG ID of the gene
+     */
+    id: string;
+
+    /**
+     * Gene name
+     */
+    label: string;
+
+    /**
+     * x-coordinate of the node
+     */
+    x: number;
+
+    /**
+     * y-coordinate of the node
+     */
+    y: number;
+
+    /**
+     * Rendered color of the node
+     */
+    color?: string;
+
+    /**
+     * Rendered size of the node
+     */
+    size?: number;
+
+    /**
+     * Remaining attributes keyed by attribute name
+     */
+    attributes: Record<string, NetworkExportValue>;
+  }>;
+
+  /**
+   * Edges of the network
+   */
+  edges: Array<{
+    /**
+     * Key of the edge
+     */
+    id: string;
+
+    /**
+     * ENSG ID of the source gene
+     */
+    source: string;
+
+    /**
+     * ENSG ID of the target gene
+     */
+    target: string;
+
+    /**
+     * Rendered color of the edge
+     */
+    color?: string;
+
+    /**
+     * Rendered size of the edge
+     */
+    size?: number;
+
+    /**
+     * Remaining attributes keyed by attribute name
+     */
+    attributes: Record<string, NetworkExportValue>;
+  }>;
+}
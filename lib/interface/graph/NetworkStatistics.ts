@@ -0,0 +1,58 @@
+import type { SerializedGraph } from 'graphology-types';
+import type { EdgeAttributes, GraphStore, NodeAttributes } from '.';
+
+/**
+ * Metrics of the network computed in the statistics worker
+ */
+export type NetworkMetric =
+  | 'degree'
+  | 'density'
+  | 'edgeScore'
+  | 'betweenness'
+  | 'closeness'
+  | 'eigenvector'
+  | 'pagerank'
+  | 'diameter'
+  | 'clustering'
+  | 'coreness';
+
+/**
+ * Metrics computed for every node and stored in `centrality` attribute of the node
+ */
+export type NodeCentralityMetric =
+  | 'degree'
+  | 'betweenness'
+  | 'closeness'
+  | 'eigenvector'
+  | 'pagerank'
+  | 'clustering'
+  | 'coreness';
+
+/**
+ * Row of the centrality table in the statistics tab, metrics are absent until computed
+ */
+export type NodeCentralityRow = Record<'ID' | 'geneName' | 'description', string> &
+  Partial<Record<NodeCentralityMetric, number>>;
+
+/**
+ * Outcome of a metric, network level statistics and/or the value of every node keyed by node ID
+ */
+export interface NetworkMetricResult {
+  statistics?: Partial<GraphStore['networkStatistics']>;
+  centrality?: Record<string, number>;
+}
+
+export type NetworkMetricStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface StatisticsWorkerRequest {
+  graph: SerializedGraph<NodeAttributes, EdgeAttributes>;
+}
+
+/**
+ * Messages streamed by the statistics worker, a metric is either followed by its result or an error
+ */
+export type StatisticsWorkerResponse =
+  | { type: 'start'; metric: NetworkMetric }
+  | ({ type: 'result'; metric: NetworkMetric } & NetworkMetricResult)
+  | { type: 'error'; metric: NetworkMetric; message: string }
+  | { type: 'done' };
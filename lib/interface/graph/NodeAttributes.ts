@@ -1,5 +1,6 @@
 import type { SimulationNodeDatum } from 'd3-force';
 import type { Attributes } from 'graphology-types';
+import type { NodeCentralityMetric } from './NetworkStatistics';
 /**
  * Node attributes used in the graph
  * @extends Attributes
@@ -81,4 +82,24 @@ export interface NodeAttributes extends Attributes, SimulationNodeDatum {
    * boolean whether the node is clicked
    */
   clicked?: boolean;
+
+  /**
+   * Centralities of the node, filled as the statistics worker computes them
+   */
+  centrality?: Partial<Record<NodeCentralityMetric, number>>;
+
+  /**
+   * Score of the node in the last network propagation run
+   */
+  propagationScore?: number;
+
+  /**
+   * Community ID of `communityMap` if the node stands for a collapsed community
+   */
+  collapsedCommunity?: string;
+
+  /**
+   * boolean whether the node is pinned, keeping its position while the layout runs
+   */
+  pinned?: boolean;
 }
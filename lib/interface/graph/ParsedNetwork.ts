@@ -0,0 +1,50 @@
+/**
+ * Network parsed from an uploaded GraphML/GEXF file
+ * @interface ParsedNetwork
+ */
+export interface ParsedNetwork {
+  /**
+   * Nodes of the network
+   */
+  nodes: Array<{
+    /**
+     * Node identifier used by the edges of the file
+     */
+    id: string;
+
+    /**
+     * Gene name or ENSG ID of the node (falls back to node identifier)
+     */
+    label: string;
+
+    /**
+     * Remaining node attributes keyed by attribute name
+     */
+    attributes: Record<string, string | number>;
+  }>;
+
+  /**
+   * Edges of the network
+   */
+  edges: Array<{
+    /**
+     * Node identifier of the source
+     */
+    source: string;
+
+    /**
+     * Node identifier of the target
+     */
+    target: string;
+
+    /**
+     * Weight/score of the edge if present in the file
+     */
+    weight?: number;
+
+    /**
+     * Remaining edge attributes keyed by attribute name
+     */
+    attributes: Record<string, string | number>;
+  }>;
+}
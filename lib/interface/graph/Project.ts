@@ -0,0 +1,133 @@
+import type { SerializedGraph } from 'graphology-types';
+import type { GraphConfig } from '@/lib/data';
+import type { EdgeAttributes, GraphStore, NodeAttributes } from '.';
+
+/**
+ * Store fields persisted in a project, everything else is either transient or rebuilt when the project is opened
+ */
+export type ProjectStoreKey =
+  | 'projectId'
+  | 'projectTitle'
+  | 'diseaseName'
+  | 'graphConfig'
+  | 'forceSettings'
+  | 'defaultNodeColor'
+  | 'defaultNodeSize'
+  | 'defaultLabelDensity'
+  | 'defaultLabelSize'
+  | 'showEdgeColor'
+  | 'edgeOpacity'
+  | 'highlightNeighborNodes'
+  | 'radialAnalysis'
+  | 'selectedRadioNodeColor'
+  | 'selectedRadioNodeSize'
+  | 'selectedNodeColorProperty'
+  | 'selectedNodeSizeProperty'
+  | 'universalData'
+  | 'radioOptions'
+  | 'geneNames'
+  | 'geneNameToID'
+  | 'networkStatistics'
+  | 'communityMap'
+  | 'algorithmResults'
+  | 'partitionHistory'
+  | 'collapsedCommunities'
+  | 'collapsedEdgeAggregation'
+  | 'hiddenGenes'
+  | 'communityEnrichment'
+  | 'userGeneSets'
+  | 'enrichmentUniverse'
+  | 'remoteEnrichmentFallback'
+  | 'propagation'
+  | 'diseaseModule'
+  | 'selectionSets'
+  | 'networkEdits'
+  | 'snapshots';
+
+/**
+ * Store fields recorded in a snapshot, i.e. filters, color/size mapping and communities
+ */
+export type SnapshotStoreKey =
+  | 'radialAnalysis'
+  | 'selectedRadioNodeColor'
+  | 'selectedNodeColorProperty'
+  | 'selectedRadioNodeSize'
+  | 'selectedNodeSizeProperty'
+  | 'communityMap'
+  | 'algorithmResults'
+  | 'collapsedCommunities'
+  | 'collapsedEdgeAggregation'
+  | 'communityEnrichment';
+
+/**
+ * Named state of the analysis to roll back to
+ */
+export interface ProjectSnapshot {
+  id: string;
+  name: string;
+  /**
+   * Time of taking the snapshot in milliseconds since epoch
+   */
+  createdAt: number;
+  /**
+   * Position, color and community of every node keyed by node ID
+   */
+  nodes: Record<string, Pick<NodeAttributes, 'x' | 'y' | 'color' | 'community'>>;
+  store: Pick<GraphStore, SnapshotStoreKey>;
+}
+
+/**
+ * Manifest (`project.json`) of a `.tbep` project archive
+ */
+export interface ProjectManifest {
+  /**
+   * Format version of the archive
+   */
+  version: number;
+  /**
+   * Time of saving in milliseconds since epoch
+   */
+  savedAt: number;
+  /**
+   * Graph configuration from the explore page, required by the network page to resolve the disease map
+   */
+  graphConfig: Partial<GraphConfig> | null;
+  /**
+   * Persisted store state with `Set`/`Map` values converted to JSON friendly form
+   */
+  store: Pick<GraphStore, ProjectStoreKey>;
+  /**
+   * Names of the user uploaded data files bundled under `files/`
+   */
+  files: string[];
+}
+
+/**
+ * Autosaved project in `projects` store of IndexedDB keyed by project ID
+ */
+export interface SavedProject {
+  id: string;
+  title: string;
+  /**
+   * Time of last autosave in milliseconds since epoch
+   */
+  updatedAt: number;
+  totalNodes: number;
+  totalEdges: number;
+  /**
+   * Zipped `.tbep` archive of the session
+   */
+  archive: Uint8Array;
+}
+
+/**
+ * Unpacked `.tbep` project archive
+ */
+export interface ProjectArchive {
+  manifest: ProjectManifest;
+  /**
+   * Graph along with node positions and visual attributes
+   */
+  graph: SerializedGraph<NodeAttributes, EdgeAttributes>;
+  files: File[];
+}
@@ -0,0 +1,102 @@
+import type { SerializedGraph } from 'graphology-types';
+import type { EdgeAttributes, NodeAttributes } from '.';
+
+export interface PropagationOptions {
+  /**
+   * Probability of the walker jumping back to the seeds at every step, higher values keep the scores closer to them
+   */
+  restartProbability: number;
+  /**
+   * Whether interaction scores are used as edge weights
+   */
+  weighted: boolean;
+  /**
+   * Number of random seed sets of the same degrees for the empirical p-values, no test if 0
+   */
+  permutations: number;
+}
+
+/**
+ * Steady state probability of the walker at every node keyed by node ID, along with the empirical p-values
+ */
+export interface PropagationResult {
+  scores: Record<string, number>;
+  pValues: Record<string, number> | null;
+}
+
+/**
+ * Gene in the ranking of a propagation run
+ */
+export interface PropagationCandidate {
+  ID: string;
+  geneName: string;
+  score: number;
+  pValue?: number;
+  seed: boolean;
+}
+
+/**
+ * Network propagation run from the seed genes
+ */
+export interface PropagationRun {
+  /**
+   * IDs of the seed genes
+   */
+  seeds: string[];
+  options: PropagationOptions;
+  /**
+   * Genes ordered by their score, highest first
+   */
+  ranking: PropagationCandidate[];
+}
+
+export interface PropagationWorkerRequest {
+  seeds: string[];
+  options: PropagationOptions;
+  graph: SerializedGraph<NodeAttributes, EdgeAttributes>;
+}
+
+export type PropagationWorkerResponse =
+  | ({ type: 'result' } & PropagationResult)
+  | { type: 'progress'; permutations: number }
+  | { type: 'error'; message: string };
+
+export interface DiamondOptions {
+  /**
+   * Number of genes added to the module
+   */
+  iterations: number;
+  /**
+   * Weight of the links to the seed genes, 1 treats them as the added genes
+   */
+  alpha: number;
+}
+
+/**
+ * Gene added to the disease module, in the order of addition
+ */
+export interface DiseaseModuleGene {
+  ID: string;
+  geneName: string;
+  /**
+   * Hypergeometric p-value of the links to the module when the gene was added
+   */
+  pValue: number;
+  /**
+   * Links to the module when the gene was added
+   */
+  connectivity: number;
+  degree: number;
+}
+
+/**
+ * Disease module grown from the seed genes
+ */
+export interface DiseaseModule {
+  /**
+   * IDs of the seed genes
+   */
+  seeds: string[];
+  options: DiamondOptions;
+  genes: DiseaseModuleGene[];
+}
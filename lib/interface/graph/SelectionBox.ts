@@ -23,3 +23,23 @@ export interface SelectionBox {
    */
   endY: number;
 }
+
+/**
+ * Point of a lasso/polygon selection in graph coordinates
+ * @interface SelectionPoint
+ */
+export interface SelectionPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Shape drawn with shift on the canvas to select nodes, i.e. a rectangle, a freehand lasso or a polygon placed
+ * vertex by vertex
+ */
+export type SelectionMode = 'box' | 'lasso' | 'polygon';
+
+/**
+ * How the nodes inside the drawn shape change the current selection
+ */
+export type SelectionOperation = 'replace' | 'add' | 'subtract';
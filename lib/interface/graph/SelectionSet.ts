@@ -0,0 +1,25 @@
+/**
+ * Named set of genes saved from a selection on the graph
+ * @interface SelectionSet
+ */
+export interface SelectionSet {
+  id: string;
+  name: string;
+  /**
+   * Color of the set in the list and of the border of its genes when applied
+   */
+  color: string;
+  /**
+   * IDs of the genes of the set
+   */
+  genes: string[];
+  /**
+   * Time of saving in milliseconds since epoch
+   */
+  createdAt: number;
+}
+
+/**
+ * Operations combining selection sets, difference keeps genes of the first set missing in the others
+ */
+export type SelectionSetOperation = 'union' | 'intersection' | 'difference';
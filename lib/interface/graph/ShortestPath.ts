@@ -0,0 +1,44 @@
+/**
+ * Path between two genes of the network
+ */
+export interface GenePath {
+  /**
+   * IDs of the genes along the path, from source to target
+   */
+  nodes: string[];
+  /**
+   * Gene names along the path
+   */
+  labels: string[];
+  /**
+   * Keys of the edges along the path
+   */
+  edges: string[];
+  /**
+   * Number of edges, or the sum of `1 - score` of the edges if weighted
+   */
+  distance: number;
+}
+
+export interface ShortestPathOptions {
+  /**
+   * Whether `1 - score` of the edges is used as distance instead of hops
+   */
+  weighted: boolean;
+  /**
+   * Number of the shortest loopless paths between every pair of genes, all the shortest paths if absent
+   */
+  k?: number;
+}
+
+export interface ShortestPathRun {
+  /**
+   * IDs of the genes the paths are found between, every pair of them
+   */
+  genes: string[];
+  options: ShortestPathOptions;
+  /**
+   * Paths of every pair, shortest first within a pair
+   */
+  paths: GenePath[];
+}
@@ -1,7 +1,21 @@
+export * from './ColumnMapping';
+export * from './CommunityDetection';
 export * from './EdgeAttributes';
+export * from './Enrichment';
+export * from './FigureExport';
 export * from './ForceSettings';
 export * from './GraphConfigForm';
 export * from './GraphStore';
+export * from './History';
+export * from './LegendSpec';
+export * from './NetworkEdit';
+export * from './NetworkExport';
+export * from './NetworkStatistics';
 export * from './NodeAttributes';
+export * from './ParsedNetwork';
+export * from './Project';
+export * from './Propagation';
 export * from './RadialAnalysisSetting';
 export * from './SelectionBox';
+export * from './SelectionSet';
+export * from './ShortestPath';
@@ -1,4 +1,5 @@
 export * from './api/index';
+export * from './ColumnMappingDialogProps';
 export * from './graph';
 export * from './PopUpDataTableProps';
 export * from './PopUpTableProps';
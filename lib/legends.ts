@@ -0,0 +1,123 @@
+import { COMMUNITY_PROPERTY, PROPERTY_TYPE_LABEL_MAPPING } from './data/graphConfig';
+import type { GraphStore, LegendSpec } from './interface';
+import { attributeCategories, communityColor, P_VALUE_REGEX } from './utils';
+
+/**
+ * Legends of the current node color and edge color mapping
+ * @param state Color settings from the store
+ * @returns Node legend (null if the selected property has no legend) and edge legend (null if edge color is off)
+ */
+export function getLegendSpecs({
+  selectedRadioNodeColor,
+  selectedNodeColorProperty,
+  showEdgeColor,
+  defaultNodeColor,
+  communityMap,
+  universalData,
+}: Pick<
+  GraphStore,
+  | 'selectedRadioNodeColor'
+  | 'selectedNodeColorProperty'
+  | 'showEdgeColor'
+  | 'defaultNodeColor'
+  | 'communityMap'
+  | 'universalData'
+>): {
+  node: LegendSpec | null;
+  edge: LegendSpec | null;
+} {
+  const minScore =
+    typeof window !== 'undefined'
+      ? new URLSearchParams(window.location.search).has('file')
+        ? 0
+        : (Number(JSON.parse(localStorage.getItem('graphConfig') ?? '{}').minScore) ?? 0)
+      : 0;
+
+  let node: LegendSpec | null = null;
+  if (selectedRadioNodeColor === 'Pathway') {
+    node = { kind: 'binary', presentColor: 'red', absentColor: defaultNodeColor };
+  } else if (selectedRadioNodeColor === 'DEG') {
+    node =
+      typeof selectedNodeColorProperty === 'string' && P_VALUE_REGEX.test(selectedNodeColorProperty)
+        ? {
+            kind: 'heatmap',
+            title: 'P-Value',
+            range: [defaultNodeColor, 'red'],
+            startLabel: 'Low Significance',
+            endLabel: 'High Significance',
+          }
+        : {
+            kind: 'heatmap',
+            title: PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor],
+            domain: [-1, 0, 1],
+            range: ['green', '#E2E2E2', 'red'],
+            divisions: 10,
+          };
+  } else if (selectedRadioNodeColor === 'Druggability' || selectedRadioNodeColor === 'OpenTargets') {
+    node = {
+      kind: 'heatmap',
+      title: PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor],
+      domain: [0, 1],
+      range: [defaultNodeColor, 'red'],
+      divisions: 10,
+    };
+  } else if (selectedRadioNodeColor === 'TE') {
+    node = {
+      kind: 'heatmap',
+      title: PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor],
+      range: [defaultNodeColor, 'red'],
+      startLabel: 'Low',
+      endLabel: 'High',
+    };
+  } else if (selectedRadioNodeColor === 'OT_Prioritization') {
+    node = {
+      kind: 'heatmap',
+      title: PROPERTY_TYPE_LABEL_MAPPING[selectedRadioNodeColor],
+      domain: [-1, 0, 1],
+      range: ['red', '#F0C584', 'green'],
+      divisions: 10,
+    };
+  } else if (selectedRadioNodeColor === 'Attribute' && typeof selectedNodeColorProperty === 'string') {
+    const categories = attributeCategories(universalData, selectedNodeColorProperty);
+    node = categories
+      ? {
+          kind: 'categorical',
+          title: selectedNodeColorProperty,
+          items: categories.map((category, index) => ({ label: category, color: communityColor(index) })),
+        }
+      : {
+          kind: 'heatmap',
+          title: selectedNodeColorProperty,
+          range: [defaultNodeColor, 'red'],
+          startLabel: 'Low',
+          endLabel: 'High',
+        };
+  } else if (selectedRadioNodeColor === 'Topology' && typeof selectedNodeColorProperty === 'string') {
+    node =
+      selectedNodeColorProperty === COMMUNITY_PROPERTY
+        ? {
+            kind: 'categorical',
+            title: COMMUNITY_PROPERTY,
+            items: Object.values(communityMap).map(({ name, color }) => ({ label: name, color })),
+          }
+        : {
+            kind: 'heatmap',
+            title: selectedNodeColorProperty,
+            range: [defaultNodeColor, 'red'],
+            startLabel: 'Low',
+            endLabel: 'High',
+          };
+  }
+
+  const edge: LegendSpec | null = showEdgeColor
+    ? {
+        kind: 'heatmap',
+        title: 'Edge Color',
+        range: ['yellow', 'red'],
+        domain: [minScore ?? 0, 1],
+        divisions: (1 - (minScore ?? 0)) * 10,
+      }
+    : null;
+
+  return { node, edge };
+}
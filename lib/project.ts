@@ -0,0 +1,285 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import Graph from 'graphology';
+import type { SerializedGraph } from 'graphology-types';
+import { averageClusteringCoefficient } from './analytics';
+import { useStore } from './hooks';
+import type {
+  EdgeAttributes,
+  NodeAttributes,
+  ProjectArchive,
+  ProjectManifest,
+  ProjectStoreKey,
+  SavedProject,
+  SnapshotStoreKey,
+} from './interface';
+import { openDB } from './utils';
+
+export const PROJECT_FILE_EXTENSION = 'tbep';
+
+const PROJECT_VERSION = 1;
+
+/**
+ * Autosaved projects kept in IndexedDB, the least recently updated ones are deleted beyond it
+ */
+export const SAVED_PROJECTS_LIMIT = 20;
+
+export const PROJECT_STORE_KEYS: ProjectStoreKey[] = [
+  'projectId',
+  'projectTitle',
+  'diseaseName',
+  'graphConfig',
+  'forceSettings',
+  'defaultNodeColor',
+  'defaultNodeSize',
+  'defaultLabelDensity',
+  'defaultLabelSize',
+  'showEdgeColor',
+  'edgeOpacity',
+  'highlightNeighborNodes',
+  'radialAnalysis',
+  'selectedRadioNodeColor',
+  'selectedRadioNodeSize',
+  'selectedNodeColorProperty',
+  'selectedNodeSizeProperty',
+  'universalData',
+  'radioOptions',
+  'geneNames',
+  'geneNameToID',
+  'networkStatistics',
+  'communityMap',
+  'algorithmResults',
+  'partitionHistory',
+  'collapsedCommunities',
+  'collapsedEdgeAggregation',
+  'hiddenGenes',
+  'communityEnrichment',
+  'userGeneSets',
+  'enrichmentUniverse',
+  'remoteEnrichmentFallback',
+  'propagation',
+  'diseaseModule',
+  'selectionSets',
+  'networkEdits',
+  'snapshots',
+];
+
+export const SNAPSHOT_STORE_KEYS: SnapshotStoreKey[] = [
+  'radialAnalysis',
+  'selectedRadioNodeColor',
+  'selectedNodeColorProperty',
+  'selectedRadioNodeSize',
+  'selectedNodeSizeProperty',
+  'communityMap',
+  'algorithmResults',
+  'collapsedCommunities',
+  'collapsedEdgeAggregation',
+  'communityEnrichment',
+];
+
+// JSON has no Set/Map, these are tagged while saving and revived while opening
+function replacer(_key: string, value: unknown) {
+  if (value instanceof Set) return { __set: Array.from(value) };
+  if (value instanceof Map) return { __map: Array.from(value) };
+  return value;
+}
+
+function reviver(_key: string, value: unknown) {
+  if (value && typeof value === 'object') {
+    if ('__set' in value && Array.isArray(value.__set)) return new Set(value.__set);
+    if ('__map' in value && Array.isArray(value.__map)) return new Map(value.__map);
+  }
+  return value;
+}
+
+function promisifyRequest<T>(request: IDBRequest) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Checks whether the file is a TBEP project
+ * @param fileName Name of the file
+ */
+export function isProjectFile(fileName: string) {
+  return fileName.split('.').pop()?.toLowerCase() === PROJECT_FILE_EXTENSION;
+}
+
+/**
+ * Reads all user uploaded data files from IndexedDB
+ * @returns Uploaded files, empty if IndexedDB is unavailable
+ */
+export async function getUserFiles() {
+  const store = await openDB('files', 'readonly');
+  if (!store) return [];
+  return promisifyRequest<File[]>(store.getAll()).catch(() => []);
+}
+
+/**
+ * Saves (or overwrites) the project in `projects` store of IndexedDB
+ * @param project Project to be saved
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function saveProject(project: SavedProject) {
+  const store = await openDB('projects', 'readwrite');
+  if (!store) throw new Error('IndexedDB unavailable');
+  await promisifyRequest(store.put(project, project.id));
+}
+
+/**
+ * Lists the autosaved projects
+ * @returns Saved projects, most recently updated first
+ */
+export async function getSavedProjects() {
+  const store = await openDB('projects', 'readonly');
+  if (!store) return [];
+  const projects = await promisifyRequest<SavedProject[]>(store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Deletes the autosaved project
+ * @param id Project ID
+ */
+export async function deleteSavedProject(id: string) {
+  const store = await openDB('projects', 'readwrite');
+  if (!store) return;
+  await promisifyRequest(store.delete(id));
+}
+
+/**
+ * Deletes the least recently updated autosaved projects beyond `SAVED_PROJECTS_LIMIT`
+ */
+export async function pruneSavedProjects() {
+  const projects = await getSavedProjects();
+  await Promise.all(projects.slice(SAVED_PROJECTS_LIMIT).map(({ id }) => deleteSavedProject(id)));
+}
+
+/**
+ * Packs the current analysis session into a `.tbep` archive (zip) containing
+ * - `project.json`: manifest with the persisted store state
+ * - `graph.json`: serialized graph with positions and visual attributes
+ * - `files/*`: user uploaded data files
+ * @param graph Serialized graph of the network
+ * @param overrides Store state saved in place of the current one
+ * @returns Zipped archive
+ */
+export async function createProjectArchive(
+  graph: SerializedGraph<NodeAttributes, EdgeAttributes>,
+  overrides: Partial<ProjectManifest['store']> = {},
+) {
+  const state = { ...useStore.getState(), ...overrides };
+  const files = await getUserFiles();
+  const manifest: ProjectManifest = {
+    version: PROJECT_VERSION,
+    savedAt: Date.now(),
+    // localStorage is shared by all the tabs, the store has the config of this network
+    graphConfig: { ...state.graphConfig, diseaseMap: state.diseaseName },
+    store: Object.fromEntries(PROJECT_STORE_KEYS.map(key => [key, state[key]])) as ProjectManifest['store'],
+    files: files.map(file => file.name),
+  };
+  const entries: Record<string, Uint8Array> = {
+    'project.json': strToU8(JSON.stringify(manifest, replacer)),
+    'graph.json': strToU8(JSON.stringify(graph)),
+  };
+  for (const file of files) {
+    entries[`files/${file.name}`] = new Uint8Array(await file.arrayBuffer());
+  }
+  return zipSync(entries);
+}
+
+/**
+ * Unpacks a `.tbep` archive
+ * @param data Archive content
+ * @returns Manifest, serialized graph and user files
+ * @throws Error if the archive is not a valid project
+ */
+export function readProjectArchive(data: Uint8Array): ProjectArchive {
+  const entries = unzipSync(data);
+  if (!entries['project.json'] || !entries['graph.json']) throw new Error('Missing project.json or graph.json');
+  const manifest: ProjectManifest = JSON.parse(strFromU8(entries['project.json']), reviver);
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${manifest.version}`);
+  }
+  const files = manifest.files
+    .filter(name => entries[`files/${name}`])
+    .map(name => new File([entries[`files/${name}`].slice()], name));
+  return { manifest, graph: JSON.parse(strFromU8(entries['graph.json'])), files };
+}
+
+/**
+ * Prepares a `.tbep` project to be opened in network page, i.e. stores the archive in IndexedDB,
+ * restores user files and graph config (for disease map), the network page reads it using `?file=` param
+ * @param file Project file
+ * @throws Error if the archive is invalid or IndexedDB is unavailable
+ */
+export async function openProject(file: File) {
+  const { manifest, files } = readProjectArchive(new Uint8Array(await file.arrayBuffer()));
+  const put = (store: IDBObjectStore | null, value: File, key: string) =>
+    store ? promisifyRequest(store.put(value, key)) : Promise.reject(new Error('IndexedDB unavailable'));
+  // Requests are issued right after opening each store as an idle transaction commits on its own
+  const archiveStored = put(await openDB('network', 'readwrite'), file, file.name);
+  const fileStore = await openDB('files', 'readwrite');
+  await Promise.all([archiveStored, ...files.map(userFile => put(fileStore, userFile, userFile.name))]);
+  localStorage.setItem(
+    'graphConfig',
+    JSON.stringify(manifest.graphConfig ?? { diseaseMap: manifest.store.diseaseName, createdAt: Date.now() }),
+  );
+}
+
+/**
+ * Prepares an autosaved project to be opened in network page
+ * @param project Saved project
+ * @returns Name of the project file to be passed as `?file=` param
+ * @throws Error if the archive is invalid or IndexedDB is unavailable
+ */
+export async function openSavedProject(project: SavedProject) {
+  const file = new File([project.archive.slice()], `${project.title}.${PROJECT_FILE_EXTENSION}`);
+  await openProject(file);
+  return file.name;
+}
+
+/**
+ * Prepares a subnetwork of the current network to be opened in network page as a new project, carrying over the
+ * positions, gene properties and color/size mapping while leaving out the analyses of the whole network
+ * @param graph Serialized subnetwork
+ * @param title Title of the new project
+ * @returns Name of the project file to be passed as `?file=` param
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function openSubnetwork(graph: SerializedGraph<NodeAttributes, EdgeAttributes>, title: string) {
+  const { universalData, geneNameToID, graphConfig } = useStore.getState();
+  const genes = new Set(graph.nodes.map(({ key }) => key));
+  // Own ID keeps the autosave of the new tab apart from this network and the other extracted ones
+  const projectId = crypto.randomUUID();
+  const archive = await createProjectArchive(graph, {
+    projectId,
+    projectTitle: title,
+    graphConfig: graphConfig && { ...graphConfig, geneIDs: graphConfig.geneIDs.filter(gene => genes.has(gene)) },
+    universalData: Object.fromEntries(Object.entries(universalData).filter(([gene]) => genes.has(gene))),
+    geneNames: graph.nodes.map(({ key, attributes }) => attributes?.label ?? key),
+    geneNameToID: new Map(Array.from(geneNameToID).filter(([, gene]) => genes.has(gene))),
+    networkStatistics: {
+      ...useStore.getInitialState().networkStatistics,
+      totalNodes: graph.nodes.length,
+      totalEdges: graph.edges.length,
+      averageClusteringCoefficient: averageClusteringCoefficient(Graph.from(graph)),
+    },
+    communityMap: {},
+    algorithmResults: null,
+    partitionHistory: [],
+    collapsedCommunities: [],
+    hiddenGenes: [],
+    communityEnrichment: {},
+    propagation: null,
+    diseaseModule: null,
+    selectionSets: [],
+    networkEdits: [],
+    snapshots: [],
+  });
+  // Subnetworks of the same title must not replace each other in IndexedDB
+  const file = new File([archive.slice()], `${title} ${projectId.slice(0, 8)}.${PROJECT_FILE_EXTENSION}`);
+  await openProject(file);
+  return file.name;
+}
@@ -0,0 +1,89 @@
+import type Graph from 'graphology';
+import { hypergeometricTest, logFactorials } from '../enrichment/ora';
+import type {
+  AlgorithmParameter,
+  DiamondOptions,
+  DiseaseModuleGene,
+  EdgeAttributes,
+  NodeAttributes,
+} from '../interface';
+
+/**
+ * Name of the disease module algorithm in network analysis
+ */
+export const DIAMOND_ALGORITHM = 'DIAMOnD';
+
+export const DIAMOND_PARAMETERS: AlgorithmParameter[] = [
+  { type: 'slider', displayName: 'Iterations', name: 'iterations', defaultValue: 50, min: 1, max: 500, step: 1 },
+  { type: 'slider', displayName: 'Seed Weight', name: 'alpha', defaultValue: 1, min: 1, max: 10, step: 1 },
+];
+
+/**
+ * Disease module detection (DIAMOnD, Ghiassian et al., 2015), the gene whose links to the module are the most
+ * significant under the hypergeometric distribution is added to the module at every iteration
+ * @param graph Undirected graph
+ * @param seeds IDs of the seed genes, the ones missing in the graph are left out
+ * @param options Number of genes to add and weight of the links to the seeds
+ * @returns Added genes in the order of addition
+ */
+export function diamond(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  seeds: string[],
+  { iterations, alpha }: DiamondOptions,
+): DiseaseModuleGene[] {
+  const module = new Set(seeds.filter(seed => graph.hasNode(seed)));
+  if (module.size === 0) throw new Error('None of the seed genes are in the network');
+  // Seeds count `alpha` times, as if every seed and its links were repeated
+  const seedWeight = alpha - 1;
+  const seedCount = module.size;
+  const N = graph.order + seedWeight * seedCount;
+  const logFactorial = logFactorials(N + 1);
+  // Links of every candidate to the module and to the seeds
+  const links = new Map<string, { module: number; seeds: number }>();
+  for (const seed of module) {
+    graph.forEachNeighbor(seed, neighbor => {
+      if (module.has(neighbor)) return;
+      const count = links.get(neighbor) ?? { module: 0, seeds: 0 };
+      count.module++;
+      count.seeds++;
+      links.set(neighbor, count);
+    });
+  }
+
+  const added: DiseaseModuleGene[] = [];
+  for (let iteration = 0; iteration < iterations && links.size > 0; iteration++) {
+    const K = module.size + seedWeight * seedCount;
+    let best: DiseaseModuleGene | null = null;
+    for (const [node, count] of links) {
+      const degree = graph.neighbors(node).length;
+      const pValue = hypergeometricTest(
+        count.module + seedWeight * count.seeds,
+        N,
+        K,
+        degree + seedWeight * count.seeds,
+        logFactorial,
+      );
+      // Ties go to the better connected gene
+      if (!best || pValue < best.pValue || (pValue === best.pValue && count.module > best.connectivity)) {
+        best = {
+          ID: node,
+          geneName: graph.getNodeAttribute(node, 'label') ?? node,
+          pValue,
+          connectivity: count.module,
+          degree,
+        };
+      }
+    }
+    if (!best) break;
+    module.add(best.ID);
+    links.delete(best.ID);
+    added.push(best);
+    graph.forEachNeighbor(best.ID, neighbor => {
+      if (module.has(neighbor)) return;
+      const count = links.get(neighbor) ?? { module: 0, seeds: 0 };
+      count.module++;
+      links.set(neighbor, count);
+    });
+  }
+  return added;
+}
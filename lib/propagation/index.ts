@@ -0,0 +1,2 @@
+export * from './diamond';
+export * from './rwr';
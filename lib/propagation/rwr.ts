@@ -0,0 +1,129 @@
+import type Graph from 'graphology';
+import { type CompactGraph, createRandom, SEED, toWeightedCompactGraph } from '../communities/utils';
+import type { EdgeAttributes, NodeAttributes, PropagationOptions, PropagationResult } from '../interface';
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * Smallest number of nodes in a degree bin, seeds are swapped with nodes of the same bin in the permutation test
+ */
+const MIN_BIN_SIZE = 10;
+
+/**
+ * Random walk with restart by power iteration, the walker moves to a neighbor with probability proportional to the
+ * edge weight and jumps back to a uniformly chosen seed with the restart probability (or from a node without edges)
+ * @param g Compact graph
+ * @param seeds Indices of the seed nodes
+ * @param restartProbability Probability of jumping back to the seeds at every step
+ * @returns Steady state probability of the walker at every node
+ */
+export function randomWalkWithRestart(g: CompactGraph, seeds: ArrayLike<number>, restartProbability: number) {
+  const n = g.strengths.length;
+  const restart = new Float64Array(n);
+  for (let i = 0; i < seeds.length; i++) restart[seeds[i]] += 1 / seeds.length;
+  let scores = Float64Array.from(restart);
+  let next = new Float64Array(n);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    next.fill(0);
+    let dangling = 0;
+    for (let v = 0; v < n; v++) {
+      if (g.strengths[v] === 0) {
+        dangling += scores[v];
+        continue;
+      }
+      const share = ((1 - restartProbability) * scores[v]) / g.strengths[v];
+      for (let idx = g.offsets[v]; idx < g.offsets[v + 1]; idx++) next[g.neighbors[idx]] += share * g.weights[idx];
+    }
+    const restarted = restartProbability + (1 - restartProbability) * dangling;
+    let delta = 0;
+    for (let v = 0; v < n; v++) {
+      next[v] += restarted * restart[v];
+      delta += Math.abs(next[v] - scores[v]);
+    }
+    [scores, next] = [next, scores];
+    if (delta < TOLERANCE) break;
+  }
+  return scores;
+}
+
+/**
+ * Groups the nodes by degree, merging consecutive degrees until every bin has enough nodes to draw from
+ * @returns Bin of every node along with the nodes of every bin
+ */
+function degreeBins(g: CompactGraph) {
+  const n = g.strengths.length;
+  const order = Array.from({ length: n }, (_, v) => v).sort(
+    (a, b) => g.offsets[a + 1] - g.offsets[a] - (g.offsets[b + 1] - g.offsets[b]),
+  );
+  const bins: number[][] = [];
+  let current: number[] = [];
+  for (let i = 0; i < n; i++) {
+    current.push(order[i]);
+    const degree = g.offsets[order[i] + 1] - g.offsets[order[i]];
+    const nextDegree = i + 1 < n ? g.offsets[order[i + 1] + 1] - g.offsets[order[i + 1]] : -1;
+    if (current.length >= MIN_BIN_SIZE && degree !== nextDegree) {
+      bins.push(current);
+      current = [];
+    }
+  }
+  // Leftover high degree nodes join the last bin
+  if (current.length) {
+    if (bins.length) bins[bins.length - 1].push(...current);
+    else bins.push(current);
+  }
+  const binOf = new Int32Array(n);
+  bins.forEach((nodes, bin) => {
+    for (const v of nodes) binOf[v] = bin;
+  });
+  return { binOf, bins };
+}
+
+/**
+ * Network propagation from the seeds by random walk with restart (personalized PageRank). Empirical p-values come from
+ * random seed sets preserving the degree of every seed, as the fraction of them scoring the node at least as high
+ * @param graph Undirected graph
+ * @param seeds IDs of the seed nodes, the ones missing in the graph are left out
+ * @param options Restart probability, edge weighting and number of permutations
+ * @param onProgress Called with the number of finished permutations
+ * @returns Score of every node and its p-value if permutations are run
+ */
+export function propagate(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  seeds: string[],
+  { restartProbability, weighted, permutations }: PropagationOptions,
+  onProgress?: (done: number) => void,
+): PropagationResult {
+  const { nodes, g } = toWeightedCompactGraph(graph, weighted);
+  const index = new Map(nodes.map((node, idx) => [node, idx]));
+  const seedIndices = Array.from(new Set(seeds.filter(seed => index.has(seed))), seed => index.get(seed)!);
+  if (seedIndices.length === 0) throw new Error('None of the seed genes are in the network');
+  const scores = randomWalkWithRestart(g, seedIndices, restartProbability);
+
+  let pValues: PropagationResult['pValues'] = null;
+  if (permutations > 0) {
+    const random = createRandom(SEED);
+    const { binOf, bins } = degreeBins(g);
+    const exceeded = new Int32Array(nodes.length);
+    const drawn = new Set<number>();
+    const permuted = new Int32Array(seedIndices.length);
+    for (let permutation = 0; permutation < permutations; permutation++) {
+      drawn.clear();
+      seedIndices.forEach((seed, i) => {
+        const bin = bins[binOf[seed]];
+        // Drawn without replacement unless the bin has run out of nodes
+        let v = bin[Math.floor(random() * bin.length)];
+        for (let attempt = 0; drawn.has(v) && attempt < bin.length; attempt++) {
+          v = bin[Math.floor(random() * bin.length)];
+        }
+        drawn.add(v);
+        permuted[i] = v;
+      });
+      const randomScores = randomWalkWithRestart(g, permuted, restartProbability);
+      for (let v = 0; v < nodes.length; v++) if (randomScores[v] >= scores[v]) exceeded[v]++;
+      onProgress?.(permutation + 1);
+    }
+    pValues = Object.fromEntries(nodes.map((node, v) => [node, (exceeded[v] + 1) / (permutations + 1)]));
+  }
+  return { scores: Object.fromEntries(nodes.map((node, v) => [node, scores[v]])), pValues };
+}
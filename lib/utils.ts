@@ -1,7 +1,28 @@
 import { type ClassValue, clsx } from 'clsx';
 import EventEmitter from 'events';
 import { twMerge } from 'tailwind-merge';
-import { GenePropertyCategoryEnum, type GenePropertyMetadata, OrderByEnum } from './interface';
+import {
+  COMMUNITY_PROPERTY,
+  DISEASE_DEPENDENT_PROPERTIES,
+  DISEASE_INDEPENDENT_PROPERTIES,
+  type GeneProperties,
+  PROPAGATION_PROPERTY,
+  TOPOLOGY_PROPERTIES,
+  type TopologyProperty,
+} from './data/graphConfig';
+import {
+  type FigureExportOptions,
+  type Gene,
+  GenePropertyCategoryEnum,
+  type GenePropertyMetadata,
+  type NodeAttributes,
+  type NodeCentralityRow,
+  OrderByEnum,
+  type PropagationOptions,
+  type SelectionSet,
+  type ShortestPathOptions,
+  type UniversalData,
+} from './interface';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -13,7 +34,7 @@ export function getProperty(val: string | GenePropertyMetadata) {
 
 export async function openDB(name: string, mode: IDBTransactionMode) {
   return new Promise<IDBObjectStore | null>((resolve, reject) => {
-    const request = indexedDB.open('universal', 1);
+    const request = indexedDB.open('universal', 2);
     request.onsuccess = () => {
       const db = request.result;
       const tx = db.transaction(name, mode);
@@ -23,8 +44,10 @@ export async function openDB(name: string, mode: IDBTransactionMode) {
     request.onerror = () => reject(null);
     request.onupgradeneeded = () => {
       const db = request.result;
-      db.createObjectStore('network');
-      db.createObjectStore('files');
+      // Stores of older versions are already present while upgrading
+      for (const store of ['network', 'files', 'projects']) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      }
     };
   });
 }
@@ -57,7 +80,17 @@ export const eventEmitter = new EventEmitter();
 export enum Events {
   ALGORITHM = 'algorithm',
   ALGORITHM_RESULTS = 'algorithm-results',
+  EGO_NETWORK = 'ego-network',
   EXPORT = 'export',
+  FOCUS_NODE = 'focus-node',
+  HISTORY = 'history',
+  NETWORK_EDIT = 'network-edit',
+  NODE_CENTRALITY = 'node-centrality',
+  NODE_CENTRALITY_RESULTS = 'node-centrality-results',
+  PROPAGATION = 'propagation',
+  SELECTION = 'selection',
+  SHORTEST_PATH = 'shortest-path',
+  SNAPSHOT = 'snapshot',
   VISIBLE_NODES = 'visible-nodes',
   VISIBLE_NODES_RESULTS = 'visible-nodes-results',
 }
@@ -66,12 +99,27 @@ export type EventMessage = {
     name: string;
     parameters?: Record<string, string>;
   };
+  [Events.EGO_NETWORK]: {
+    /**
+     * IDs of the genes the neighborhood is grown from
+     */
+    genes: string[];
+    hops: number;
+  };
   [Events.EXPORT]: {
-    format: 'png' | 'csv';
+    format: 'png' | 'csv' | 'graphml' | 'gexf' | 'cyjs' | 'svg' | 'pdf' | 'tbep';
     all?: boolean;
     csvType?: 'universal' | 'interaction' | 'both';
+    /**
+     * Options of the figure export (svg/pdf), png is rasterized from the figure at given DPI when present
+     */
+    figure?: FigureExportOptions;
   };
   [Events.ALGORITHM_RESULTS]: {
+    /**
+     * Name of the algorithm, absent in results saved before other algorithms than Leiden were available
+     */
+    algorithm?: string;
     modularity: number;
     communities: Array<{
       name: string;
@@ -81,8 +129,50 @@ export type EventMessage = {
       averageDegree: string;
       degreeCentralGene: string;
     }>;
-    resolution: number;
+    /**
+     * Resolution of the modularity, only for algorithms having one
+     */
+    resolution?: number;
+  };
+  [Events.FOCUS_NODE]: {
+    node: string;
+  };
+  /**
+   * `goto` applies the first `index` entries of the history, undoing or redoing the ones in between
+   */
+  [Events.HISTORY]: { action: 'undo' } | { action: 'redo' } | { action: 'goto'; index: number };
+  [Events.NETWORK_EDIT]:
+    | { action: 'remove'; nodes: string[]; edges: string[] }
+    | { action: 'add-edge'; source: string; target: string; score: number }
+    | { action: 'add-gene'; gene: Pick<Gene, 'ID' | 'Gene_name' | 'Description'> }
+    | {
+        action: 'merge';
+        /**
+         * ID of the kept gene, the other genes are merged into it
+         */
+        into: string;
+        nodes: string[];
+      };
+  [Events.NODE_CENTRALITY_RESULTS]: {
+    rows: NodeCentralityRow[];
+  };
+  [Events.PROPAGATION]: {
+    seeds: string[];
+    options: PropagationOptions;
+  };
+  /**
+   * Selects the genes, replacing the current selection, or clears the selection along with the searched and
+   * clicked genes
+   */
+  [Events.SELECTION]: { action: 'select'; nodes: string[] } | { action: 'clear' };
+  [Events.SHORTEST_PATH]: {
+    /**
+     * IDs of the genes, paths are found between every pair of them
+     */
+    genes: string[];
+    options: ShortestPathOptions;
   };
+  [Events.SNAPSHOT]: { action: 'create'; name: string } | { action: 'restore'; id: string };
   [Events.VISIBLE_NODES_RESULTS]: {
     visibleNodeGeneIds: Set<string>;
   };
@@ -101,12 +191,127 @@ export function initRadioOptions() {
     Custom_Color: [],
     OpenTargets: [],
     OT_Prioritization: [],
+    Attribute: [],
+  };
+}
+
+export function initUniversalData(): UniversalData[string] {
+  return {
+    common: {
+      Custom_Color: {},
+      OT_Prioritization: {},
+      Druggability: {},
+      Pathway: {},
+      TE: {},
+      Attribute: {},
+    },
+    user: {
+      DEG: {},
+      OpenTargets: {},
+      Custom_Color: {},
+      Druggability: {},
+      Pathway: {},
+      TE: {},
+      OT_Prioritization: {},
+      Attribute: {},
+    },
   };
 }
 
 export const P_VALUE_REGEX = /^p[-_ ]?val(?:ue)?/i;
 export const LOGFC_REGEX = /^LogFC_/i;
 
+/**
+ * Resolves the data type of a user uploaded column/attribute from its prefix
+ * @param prop Column/attribute name (e.g. DEG_ALS, TE_Brain, LogFC_ALS)
+ * @returns Data type and property name without prefix, null if prefix is not recognized
+ */
+export function resolveUserProperty(prop: string): { field: GeneProperties; property: string } | null {
+  // LogFC alias of DEG
+  if (LOGFC_REGEX.test(prop)) return { field: 'DEG', property: prop.replace(LOGFC_REGEX, '') };
+
+  // P_Val alias of DEG
+  if (P_VALUE_REGEX.test(prop)) return { field: 'DEG', property: prop };
+
+  for (const field of [...DISEASE_DEPENDENT_PROPERTIES, ...DISEASE_INDEPENDENT_PROPERTIES]) {
+    const fieldRegex = new RegExp(`^${field}_`, 'i');
+    if (fieldRegex.test(prop)) return { field, property: prop.replace(fieldRegex, '') };
+  }
+  return null;
+}
+
+/**
+ * Value of a user property as kept in universal data, colors and textual node attributes are kept as text
+ * @param field Property type of the column
+ * @param value Value of the column
+ * @returns Parsed value
+ */
+export function parseUserValue(field: GeneProperties, value: string | number) {
+  if (field === 'Custom_Color') return String(value);
+  if (field === 'Attribute') {
+    const num = Number(value);
+    return typeof value === 'number' || (value.trim() !== '' && !Number.isNaN(num)) ? num : value;
+  }
+  return Number.parseFloat(String(value));
+}
+
+/**
+ * Distinct values of a textual node attribute, sorted so that every value keeps its color
+ * @param universalData Universal data of the genes
+ * @param property Node attribute
+ * @returns Values of the attribute or null if the attribute is numeric
+ */
+export function attributeCategories(universalData: UniversalData, property: string) {
+  const values = new Set<string>();
+  let numeric = true;
+  for (const gene of Object.values(universalData)) {
+    const value = gene.user.Attribute?.[property];
+    if (value === undefined || value === '') continue;
+    if (typeof value !== 'number') numeric = false;
+    values.add(String(value));
+  }
+  return numeric ? null : Array.from(values).sort();
+}
+
+/**
+ * Value of a network topology property of the node
+ * @param attributes Attributes of the node
+ * @param property Topology property, either a centrality, community or propagation score
+ * @returns Centrality value, community name or propagation score, undefined if not computed yet
+ */
+export function getTopologyValue(attributes: NodeAttributes, property: string) {
+  if (property === COMMUNITY_PROPERTY) return attributes.community;
+  if (property === PROPAGATION_PROPERTY) return attributes.propagationScore;
+  return attributes.centrality?.[TOPOLOGY_PROPERTIES[property as TopologyProperty]];
+}
+
+/**
+ * Default name of a new selection set, numbered after the highest `Set <n>` so that names don't repeat after deletes
+ * @param selectionSets Current selection sets
+ * @returns Name of the set
+ */
+export function defaultSetName(selectionSets: SelectionSet[]) {
+  const numbers = selectionSets.map(({ name }) => Number(/^Set (\d+)$/.exec(name)?.[1] ?? 0));
+  return `Set ${Math.max(0, ...numbers) + 1}`;
+}
+
+/**
+ * Distinct color of a community, consecutive indices are spread around the hue wheel by the golden angle
+ * @param index Index of the community
+ * @returns Hex color
+ */
+export function communityColor(index: number) {
+  const [h, s, l] = [(index * 137.508) % 360, 0.75, 0.5];
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(Math.min(k - 3, 9 - k, 1), -1)))
+      .toString(16)
+      .padStart(2, '0');
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
 export function downloadFile(content: string, filename: string, type = 'text/csv') {
   const element = document.createElement('a');
   const file = new Blob([content], { type });
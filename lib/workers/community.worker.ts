@@ -0,0 +1,21 @@
+import Graph from 'graphology';
+import { COMMUNITY_ALGORITHMS } from '../communities';
+import type { CommunityWorkerRequest, CommunityWorkerResponse, EdgeAttributes, NodeAttributes } from '../interface';
+
+const ctx = self as unknown as Worker;
+const post = (message: CommunityWorkerResponse) => ctx.postMessage(message);
+
+ctx.addEventListener('message', ({ data }: MessageEvent<CommunityWorkerRequest>) => {
+  const algorithm = COMMUNITY_ALGORITHMS.find(({ name }) => name === data.algorithm);
+  if (!algorithm) {
+    post({ type: 'error', message: `Unknown algorithm: ${data.algorithm}` });
+    return;
+  }
+  const graph = new Graph<NodeAttributes, EdgeAttributes>({ type: 'undirected' });
+  graph.import(data.graph);
+  try {
+    post({ type: 'result', ...algorithm.detect(graph, data.options) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
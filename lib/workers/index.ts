@@ -0,0 +1,139 @@
+import type Graph from 'graphology';
+import { NETWORK_METRICS } from '../analytics';
+import { exportGeneGraph } from '../graph';
+import { useStore } from '../hooks';
+import type {
+  CommunityAlgorithmOptions,
+  CommunityPartition,
+  CommunityWorkerRequest,
+  CommunityWorkerResponse,
+  EdgeAttributes,
+  GraphStore,
+  NodeAttributes,
+  NodeCentralityMetric,
+  PropagationOptions,
+  PropagationResult,
+  PropagationWorkerRequest,
+  PropagationWorkerResponse,
+  StatisticsWorkerRequest,
+  StatisticsWorkerResponse,
+} from '../interface';
+
+/**
+ * Cancels the statistics computation in progress, if any
+ */
+let cancelRunningStatistics: (() => void) | undefined;
+
+/**
+ * Computes network statistics in a worker, streaming each metric into the store as it finishes.
+ * Node level metrics are written to the `centrality` attribute of the nodes. The computation in progress is cancelled
+ * as its results would belong to the network before the change
+ * @param graph Graph of the network, the one rendered by sigma for centralities to be visible
+ * @returns Function to cancel the computation, also called when the tab is closed
+ */
+export function computeNetworkStatistics(graph: Graph<NodeAttributes, EdgeAttributes>) {
+  cancelRunningStatistics?.();
+  const { setNetworkStatistics } = useStore.getState();
+  const worker = new Worker(new URL('./statistics.worker.ts', import.meta.url), { type: 'module' });
+  const setProgress = (progress: GraphStore['networkStatisticsProgress']) =>
+    useStore.setState(state => ({
+      networkStatisticsProgress: { ...state.networkStatisticsProgress, ...progress },
+    }));
+  setProgress(Object.fromEntries(NETWORK_METRICS.map(({ metric }) => [metric, 'pending'])));
+
+  const cancel = () => {
+    worker.terminate();
+    window.removeEventListener('pagehide', cancel);
+    if (cancelRunningStatistics === cancel) cancelRunningStatistics = undefined;
+  };
+  window.addEventListener('pagehide', cancel);
+  cancelRunningStatistics = cancel;
+
+  worker.addEventListener('message', ({ data }: MessageEvent<StatisticsWorkerResponse>) => {
+    switch (data.type) {
+      case 'start':
+        setProgress({ [data.metric]: 'running' });
+        break;
+      case 'result':
+        if (data.statistics) setNetworkStatistics(data.statistics);
+        for (const [node, value] of Object.entries(data.centrality ?? {})) {
+          if (!graph.hasNode(node)) continue;
+          graph.updateNodeAttribute(node, 'centrality', centrality => ({
+            ...centrality,
+            [data.metric as NodeCentralityMetric]: value,
+          }));
+        }
+        setProgress({ [data.metric]: 'done' });
+        break;
+      case 'error':
+        console.error(`Failed to compute ${data.metric}:`, data.message);
+        setProgress({ [data.metric]: 'failed' });
+        break;
+      case 'done':
+        cancel();
+    }
+  });
+  worker.addEventListener('error', error => {
+    console.error('Statistics worker failed:', error);
+    setProgress(
+      Object.fromEntries(
+        Object.entries(useStore.getState().networkStatisticsProgress).map(([metric, status]) => [
+          metric,
+          status === 'done' ? status : 'failed',
+        ]),
+      ),
+    );
+    cancel();
+  });
+  worker.postMessage({ graph: exportGeneGraph(graph) } satisfies StatisticsWorkerRequest);
+  return cancel;
+}
+
+/**
+ * Detects communities of the network in a worker
+ * @param graph Graph of the network
+ * @param algorithm Name of the algorithm in the registry
+ * @param options Values of the parameters of the algorithm
+ * @returns Community of every node along with the modularity
+ */
+export function detectCommunities(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  algorithm: string,
+  options: CommunityAlgorithmOptions,
+) {
+  const worker = new Worker(new URL('./community.worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<CommunityPartition>((resolve, reject) => {
+    worker.addEventListener('message', ({ data }: MessageEvent<CommunityWorkerResponse>) => {
+      if (data.type === 'result') resolve({ communities: data.communities, modularity: data.modularity });
+      else reject(new Error(data.message));
+    });
+    worker.addEventListener('error', reject);
+    worker.postMessage({ algorithm, options, graph: exportGeneGraph(graph) } satisfies CommunityWorkerRequest);
+  }).finally(() => worker.terminate());
+}
+
+/**
+ * Propagates from the seed genes by random walk with restart in a worker
+ * @param graph Graph of the network
+ * @param seeds IDs of the seed genes
+ * @param options Restart probability, edge weighting and number of permutations
+ * @param onProgress Called with the number of finished permutations
+ * @returns Score of every node and its empirical p-value if permutations are run
+ */
+export function propagateFromSeeds(
+  graph: Graph<NodeAttributes, EdgeAttributes>,
+  seeds: string[],
+  options: PropagationOptions,
+  onProgress?: (permutations: number) => void,
+) {
+  const worker = new Worker(new URL('./propagation.worker.ts', import.meta.url), { type: 'module' });
+  return new Promise<PropagationResult>((resolve, reject) => {
+    worker.addEventListener('message', ({ data }: MessageEvent<PropagationWorkerResponse>) => {
+      if (data.type === 'progress') onProgress?.(data.permutations);
+      else if (data.type === 'result') resolve({ scores: data.scores, pValues: data.pValues });
+      else reject(new Error(data.message));
+    });
+    worker.addEventListener('error', reject);
+    worker.postMessage({ seeds, options, graph: exportGeneGraph(graph) } satisfies PropagationWorkerRequest);
+  }).finally(() => worker.terminate());
+}
@@ -0,0 +1,19 @@
+import Graph from 'graphology';
+import type { EdgeAttributes, NodeAttributes, PropagationWorkerRequest, PropagationWorkerResponse } from '../interface';
+import { propagate } from '../propagation';
+
+const ctx = self as unknown as Worker;
+const post = (message: PropagationWorkerResponse) => ctx.postMessage(message);
+
+ctx.addEventListener('message', ({ data }: MessageEvent<PropagationWorkerRequest>) => {
+  const graph = new Graph<NodeAttributes, EdgeAttributes>({ type: 'undirected' });
+  graph.import(data.graph);
+  try {
+    post({
+      type: 'result',
+      ...propagate(graph, data.seeds, data.options, permutations => post({ type: 'progress', permutations })),
+    });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
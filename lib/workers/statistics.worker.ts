@@ -0,0 +1,20 @@
+import Graph from 'graphology';
+import { NETWORK_METRICS } from '../analytics';
+import type { EdgeAttributes, NodeAttributes, StatisticsWorkerRequest, StatisticsWorkerResponse } from '../interface';
+
+const ctx = self as unknown as Worker;
+const post = (message: StatisticsWorkerResponse) => ctx.postMessage(message);
+
+ctx.addEventListener('message', ({ data }: MessageEvent<StatisticsWorkerRequest>) => {
+  const graph = new Graph<NodeAttributes, EdgeAttributes>({ type: 'undirected' });
+  graph.import(data.graph);
+  for (const { metric, compute } of NETWORK_METRICS) {
+    post({ type: 'start', metric });
+    try {
+      post({ type: 'result', metric, ...compute(graph) });
+    } catch (error) {
+      post({ type: 'error', metric, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  post({ type: 'done' });
+});